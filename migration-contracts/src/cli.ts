@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { defaultConfigFile } from "./loader.js";
+import { defaultRepoRoot } from "./schemas.js";
+import { formatIssue, validateContracts } from "./validateContracts.js";
+
+const usage = `Usage: migration-contracts [--root <dir>] [--config <file>] [--json]
+
+Validates the screen manifests and the execution plan named by conversion-config.json against
+the schemas in .codex/schemas, then checks screen ids, plan dependencies and routes.
+
+  --root <dir>     the repository to check (default: the one this package is in)
+  --config <file>  conversion-config.json, relative to the root (default: ${defaultConfigFile})
+  --json           print the report as JSON
+
+Exits with 0 when every contract is valid, 1 when any is not and 2 when the check could not run.`;
+
+async function main() {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        root: { type: "string" },
+        config: { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false }
+      }
+    }));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${usage}`);
+    return 2;
+  }
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  const report = await validateContracts({ repoRoot: resolve(values.root ?? defaultRepoRoot), configFile: values.config });
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    report.issues.forEach((issue) => console.error(formatIssue(issue)));
+    const count = report.issues.length;
+    console.log(`${report.checked.length} file(s) passed their schema; ${count === 0 ? "no problems found" : `${count} problem(s) found`}.`);
+  }
+  return report.issues.length === 0 ? 0 : 1;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,15 @@
+import { writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { contractSchemas, type ContractKind, defaultRepoRoot, loadSchemas, schemaDir } from "./schemas.js";
+import { generateTypes } from "./typeGenerator.js";
+
+// Run from dist/src by `npm run generate-types`; the types are written to the sources, not to dist.
+const typesDir = new URL("../../src/types/", import.meta.url);
+
+const schemas = await loadSchemas(defaultRepoRoot);
+for (const kind of Object.keys(contractSchemas) as ContractKind[]) {
+  const { file, typeName } = contractSchemas[kind];
+  const target = new URL(`${kind}.ts`, typesDir);
+  await writeFile(target, generateTypes(schemas[kind], typeName, `${schemaDir}/${file}`));
+  console.log(`Wrote ${fileURLToPath(target)}`);
+}
@@ -0,0 +1,18 @@
+export { checkSchema, formatPath, type JsonSchema, type JsonType, SchemaError, type SchemaIssue, type SchemaNode, validateJson } from "./jsonSchema.js";
+export {
+  type ContractIssue,
+  type ContractSet,
+  type ConversionConfig,
+  defaultConfigFile,
+  isManifestFile,
+  type IssueKind,
+  type LoadedDocument,
+  loadContracts,
+  type LoadOptions
+} from "./loader.js";
+export { contractSchemas, type ContractKind, type ContractSchemas, defaultRepoRoot, loadSchemas } from "./schemas.js";
+export { checkContracts, checkDuplicateScreenIds, checkPlanDependencies, checkRoutes, normalizeRoute } from "./semanticChecks.js";
+export { generateTypes } from "./typeGenerator.js";
+export type * from "./types/executionPlan.js";
+export type * from "./types/screenManifest.js";
+export { type ContractReport, formatIssue, validateContracts } from "./validateContracts.js";
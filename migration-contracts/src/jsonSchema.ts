@@ -0,0 +1,263 @@
+/**
+ * A JSON Schema (draft 2020-12) validator for the contract schemas in `.codex/schemas`. It
+ * covers the validation vocabulary those schemas use and the rest of the common core; a schema
+ * with a keyword it does not know is refused, rather than that keyword being skipped silently.
+ */
+
+export type JsonType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, SchemaNode>;
+  definitions?: Record<string, SchemaNode>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, SchemaNode>;
+  patternProperties?: Record<string, SchemaNode>;
+  additionalProperties?: SchemaNode;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  items?: SchemaNode;
+  prefixItems?: SchemaNode[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  allOf?: SchemaNode[];
+  anyOf?: SchemaNode[];
+  oneOf?: SchemaNode[];
+  not?: SchemaNode;
+}
+
+/** `true` accepts anything and `false` nothing, as in the spec. */
+export type SchemaNode = JsonSchema | boolean;
+
+export interface SchemaIssue {
+  /** Where in the document, e.g. `views[2].entryActions[0]`; empty for the document itself. */
+  path: string;
+  message: string;
+}
+
+/** The schema itself cannot be used, e.g. it has a keyword this validator does not support. */
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaError";
+  }
+}
+
+const annotationKeywords = new Set([
+  "$schema", "$id", "$comment", "$defs", "definitions", "title", "description", "default", "examples",
+  "deprecated", "readOnly", "writeOnly", "format"
+]);
+
+const subschemaKeywords = {
+  single: ["additionalProperties", "items", "not"],
+  list: ["prefixItems", "allOf", "anyOf", "oneOf"],
+  map: ["$defs", "definitions", "properties", "patternProperties"]
+} as const;
+
+const validationKeywords = new Set<string>([
+  "$ref", "type", "enum", "const", "required", "minProperties", "maxProperties", "minItems", "maxItems", "uniqueItems",
+  "minLength", "maxLength", "pattern", "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf",
+  ...subschemaKeywords.single, ...subschemaKeywords.list, ...subschemaKeywords.map
+]);
+
+/** `views[2].entryActions`, with keys that are not identifiers quoted: `routes["/Posts"]`. */
+export function formatPath(segments: Array<string | number>) {
+  return segments
+    .map((segment, index) => {
+      if (typeof segment === "number") return `[${segment}]`;
+      if (!/^[A-Za-z_$][\w$]*$/.test(segment)) return `[${JSON.stringify(segment)}]`;
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join("");
+}
+
+/** Throws a SchemaError naming every keyword in the schema that the validator would not enforce. */
+export function checkSchema(schema: SchemaNode) {
+  const problems: string[] = [];
+
+  const visit = (node: SchemaNode, at: string) => {
+    if (typeof node === "boolean") return;
+    if (node === null || typeof node !== "object" || Array.isArray(node)) {
+      problems.push(`${at}: a schema must be an object or a boolean`);
+      return;
+    }
+    for (const [keyword, value] of Object.entries(node)) {
+      if (!annotationKeywords.has(keyword) && !validationKeywords.has(keyword)) {
+        problems.push(`${at}: unsupported keyword "${keyword}"`);
+      } else if ((subschemaKeywords.single as readonly string[]).includes(keyword)) {
+        visit(value as SchemaNode, `${at}/${keyword}`);
+      } else if ((subschemaKeywords.list as readonly string[]).includes(keyword)) {
+        (value as SchemaNode[]).forEach((item, index) => visit(item, `${at}/${keyword}/${index}`));
+      } else if ((subschemaKeywords.map as readonly string[]).includes(keyword)) {
+        Object.entries(value as Record<string, SchemaNode>).forEach(([name, item]) => visit(item, `${at}/${keyword}/${name}`));
+      }
+    }
+    if (node.$ref !== undefined && !node.$ref.startsWith("#")) problems.push(`${at}: only local $refs are supported, not "${node.$ref}"`);
+  };
+
+  visit(schema, "#");
+  if (problems.length > 0) throw new SchemaError(`The schema cannot be used:\n  ${problems.join("\n  ")}`);
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType) {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/** Follows a local `$ref` such as `#/$defs/route` from the root schema. */
+function resolveRef(root: SchemaNode, ref: string): SchemaNode {
+  let node: unknown = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~");
+    node = node !== null && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined;
+  }
+  if (node === undefined) throw new SchemaError(`$ref "${ref}" does not point at anything in the schema.`);
+  return node as SchemaNode;
+}
+
+function validateNode(root: SchemaNode, node: SchemaNode, current: unknown, path: Array<string | number>, issues: SchemaIssue[]) {
+  const report = (message: string, at = path) => issues.push({ path: formatPath(at), message });
+  const visit = (subschema: SchemaNode, value: unknown, at: Array<string | number>) => validateNode(root, subschema, value, at, issues);
+  // An alternative under anyOf, oneOf or not is tried on its own, so its errors are not reported.
+  const passes = (subschema: SchemaNode) => {
+    const found: SchemaIssue[] = [];
+    validateNode(root, subschema, current, path, found);
+    return found.length === 0;
+  };
+
+  if (node === true) return;
+  if (node === false) {
+    report("is not allowed");
+    return;
+  }
+
+  if (node.$ref !== undefined) visit(resolveRef(root, node.$ref), current, path);
+
+  if (node.type !== undefined) {
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    if (!types.some((type) => matchesType(current, type))) {
+      report(`must be ${types.map((type) => (/^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`)).join(" or ")} (got ${typeOf(current)})`);
+      return;
+    }
+  }
+  if (node.enum !== undefined && !node.enum.some((option) => isEqual(option, current))) {
+    report(`must be one of ${node.enum.map((option) => JSON.stringify(option)).join(", ")} (got ${JSON.stringify(current)})`);
+  }
+  if (node.const !== undefined && !isEqual(node.const, current)) report(`must be ${JSON.stringify(node.const)}`);
+
+  if (typeof current === "string") {
+    const length = [...current].length;
+    if (node.minLength !== undefined && length < node.minLength) {
+      report(node.minLength === 1 ? "must not be empty" : `must be at least ${plural(node.minLength, "character")} long`);
+    }
+    if (node.maxLength !== undefined && length > node.maxLength) report(`must be at most ${plural(node.maxLength, "character")} long`);
+    if (node.pattern !== undefined && !new RegExp(node.pattern, "u").test(current)) report(`must match the pattern ${node.pattern}`);
+  }
+
+  if (typeof current === "number") {
+    if (node.minimum !== undefined && current < node.minimum) report(`must be ${node.minimum} or more`);
+    if (node.maximum !== undefined && current > node.maximum) report(`must be ${node.maximum} or less`);
+    if (node.exclusiveMinimum !== undefined && current <= node.exclusiveMinimum) report(`must be more than ${node.exclusiveMinimum}`);
+    if (node.exclusiveMaximum !== undefined && current >= node.exclusiveMaximum) report(`must be less than ${node.exclusiveMaximum}`);
+    if (node.multipleOf !== undefined && !Number.isInteger(current / node.multipleOf)) report(`must be a multiple of ${node.multipleOf}`);
+  }
+
+  if (Array.isArray(current)) {
+    if (node.minItems !== undefined && current.length < node.minItems) {
+      report(node.minItems === 1 ? "must not be empty" : `must have at least ${plural(node.minItems, "item")}`);
+    }
+    if (node.maxItems !== undefined && current.length > node.maxItems) report(`must have at most ${plural(node.maxItems, "item")}`);
+    if (node.uniqueItems) {
+      current.forEach((item, index) => {
+        const first = current.findIndex((other) => isEqual(other, item));
+        if (first < index) report(`repeats item ${first}`, [...path, index]);
+      });
+    }
+    const prefix = node.prefixItems ?? [];
+    current.forEach((item, index) => {
+      if (index < prefix.length) visit(prefix[index], item, [...path, index]);
+      else if (node.items !== undefined) visit(node.items, item, [...path, index]);
+    });
+  }
+
+  if (current !== null && typeof current === "object" && !Array.isArray(current)) {
+    const record = current as Record<string, unknown>;
+    const keys = Object.keys(record);
+    for (const name of node.required ?? []) {
+      if (!Object.hasOwn(record, name)) report("is required", [...path, name]);
+    }
+    if (node.minProperties !== undefined && keys.length < node.minProperties) {
+      report(node.minProperties === 1 ? "must not be empty" : `must have at least ${plural(node.minProperties, "property")}`);
+    }
+    if (node.maxProperties !== undefined && keys.length > node.maxProperties) report(`must have at most ${plural(node.maxProperties, "property")}`);
+    for (const key of keys) {
+      let matched = false;
+      if (node.properties && Object.hasOwn(node.properties, key)) {
+        matched = true;
+        visit(node.properties[key], record[key], [...path, key]);
+      }
+      for (const [pattern, subschema] of Object.entries(node.patternProperties ?? {})) {
+        if (new RegExp(pattern, "u").test(key)) {
+          matched = true;
+          visit(subschema, record[key], [...path, key]);
+        }
+      }
+      if (!matched && node.additionalProperties !== undefined) {
+        if (node.additionalProperties === false) report("is not allowed here", [...path, key]);
+        else visit(node.additionalProperties, record[key], [...path, key]);
+      }
+    }
+  }
+
+  for (const subschema of node.allOf ?? []) visit(subschema, current, path);
+  if (node.anyOf !== undefined && !node.anyOf.some(passes)) report(`must match at least one of ${plural(node.anyOf.length, "alternative")}`);
+  if (node.oneOf !== undefined) {
+    const matches = node.oneOf.filter(passes).length;
+    if (matches !== 1) report(`must match exactly one of ${plural(node.oneOf.length, "alternative")} (matched ${matches})`);
+  }
+  if (node.not !== undefined && passes(node.not)) report("must not match the schema under `not`");
+}
+
+/**
+ * Every way the value breaks the schema, each with a readable path. A value of the wrong type is
+ * reported once, without the errors its contents would add. Call checkSchema on the schema first.
+ */
+export function validateJson(schema: SchemaNode, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(schema, schema, value, [], issues);
+  return issues;
+}
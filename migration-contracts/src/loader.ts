@@ -0,0 +1,144 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { validateJson } from "./jsonSchema.js";
+import { type ContractKind, defaultRepoRoot, loadSchemas } from "./schemas.js";
+import type { ExecutionPlan } from "./types/executionPlan.js";
+import type { ScreenManifest } from "./types/screenManifest.js";
+
+export type IssueKind =
+  | "missing-file"
+  | "parse"
+  | "schema"
+  | "config"
+  | "duplicate-screen"
+  | "unknown-dependency"
+  | "dependency-cycle"
+  | "missing-route";
+
+export interface ContractIssue {
+  kind: IssueKind;
+  /** The file, relative to the repository root. */
+  file: string;
+  /** Where in the file, e.g. `screens[2].dependencies[0]`; empty for the file as a whole. */
+  path: string;
+  message: string;
+}
+
+/** The parts of react-app/conversion-config.json the contracts are checked against. */
+export interface ConversionConfig {
+  manifestRoot: string;
+  executionPlan: string;
+  /** Route patterns per screen, e.g. `"posts": ["/Posts/Index", "/Posts/Edit/{id}"]`. */
+  routes: Record<string, string[]>;
+  [key: string]: unknown;
+}
+
+export interface LoadedDocument<T> {
+  /** Relative to the repository root. */
+  file: string;
+  value: T;
+}
+
+/**
+ * The contracts that were read and passed their schema, and the issues found on the way. A file
+ * that fails to parse or breaks its schema is reported and left out, so the semantic checks only
+ * ever see documents of the right shape.
+ */
+export interface ContractSet {
+  repoRoot: string;
+  config: LoadedDocument<ConversionConfig> | null;
+  plan: LoadedDocument<ExecutionPlan> | null;
+  manifests: LoadedDocument<ScreenManifest>[];
+  issues: ContractIssue[];
+}
+
+export interface LoadOptions {
+  repoRoot?: string;
+  /** Relative to the repository root. */
+  configFile?: string;
+}
+
+export const defaultConfigFile = "react-app/conversion-config.json";
+
+/** Aggregates such as `_summary.json` and the optional `{screenId}.states.json` are not manifests. */
+export function isManifestFile(name: string) {
+  return name.endsWith(".json") && !name.startsWith("_") && !name.endsWith(".states.json");
+}
+
+async function readJson(repoRoot: string, file: string, issues: ContractIssue[]): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(join(repoRoot, file), "utf8");
+  } catch {
+    issues.push({ kind: "missing-file", file, path: "", message: "could not be read" });
+    return undefined;
+  }
+  try {
+    return JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch (error) {
+    issues.push({ kind: "parse", file, path: "", message: `is not valid JSON: ${(error as Error).message}` });
+    return undefined;
+  }
+}
+
+function checkConfig(value: unknown, file: string, issues: ContractIssue[]): ConversionConfig | null {
+  const found = issues.length;
+  const report = (path: string, message: string) => issues.push({ kind: "config", file, path, message });
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    report("", "must be an object");
+    return null;
+  }
+  const { manifestRoot, executionPlan, routes } = value as Record<string, unknown>;
+  if (typeof manifestRoot !== "string" || manifestRoot === "") report("manifestRoot", "must be the path of the manifest folder");
+  if (typeof executionPlan !== "string" || executionPlan === "") report("executionPlan", "must be the path of the execution plan");
+  if (routes === null || typeof routes !== "object" || Array.isArray(routes)) {
+    report("routes", "must map each screen to its route patterns");
+  } else {
+    for (const [screen, patterns] of Object.entries(routes)) {
+      if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== "string")) report(`routes.${screen}`, "must be a list of route patterns");
+    }
+  }
+  return issues.length === found ? (value as ConversionConfig) : null;
+}
+
+/**
+ * Reads conversion-config.json, the execution plan and every screen manifest under the
+ * manifest root it names, and validates each against its schema in `.codex/schemas`.
+ */
+export async function loadContracts({ repoRoot = defaultRepoRoot, configFile = defaultConfigFile }: LoadOptions = {}): Promise<ContractSet> {
+  const schemas = await loadSchemas(repoRoot);
+  const set: ContractSet = { repoRoot, config: null, plan: null, manifests: [], issues: [] };
+
+  const rawConfig = await readJson(repoRoot, configFile, set.issues);
+  if (rawConfig === undefined) return set;
+  const config = checkConfig(rawConfig, configFile, set.issues);
+  if (!config) return set;
+  set.config = { file: configFile, value: config };
+
+  const load = async <T>(kind: ContractKind, file: string): Promise<LoadedDocument<T> | null> => {
+    const value = await readJson(repoRoot, file, set.issues);
+    if (value === undefined) return null;
+    const problems = validateJson(schemas[kind], value);
+    set.issues.push(...problems.map((problem) => ({ kind: "schema" as const, file, ...problem })));
+    return problems.length === 0 ? { file, value: value as T } : null;
+  };
+
+  set.plan = await load<ExecutionPlan>("executionPlan", config.executionPlan);
+
+  let names: string[];
+  try {
+    names = (await readdir(join(repoRoot, config.manifestRoot))).filter(isManifestFile).sort();
+  } catch {
+    set.issues.push({ kind: "missing-file", file: config.manifestRoot, path: "", message: "the manifest folder could not be read" });
+    return set;
+  }
+  if (names.length === 0) {
+    set.issues.push({ kind: "missing-file", file: config.manifestRoot, path: "", message: "holds no screen manifests" });
+  }
+  for (const name of names) {
+    const file = `${config.manifestRoot.replace(/\/+$/, "")}/${name}`;
+    const manifest = await load<ScreenManifest>("screenManifest", file);
+    if (manifest) set.manifests.push(manifest);
+  }
+  return set;
+}
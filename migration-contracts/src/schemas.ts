@@ -0,0 +1,31 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { checkSchema, type JsonSchema } from "./jsonSchema.js";
+
+/** The repository this package sits in; the CLI works on it unless told otherwise. */
+export const defaultRepoRoot = fileURLToPath(new URL("../../..", import.meta.url));
+
+export const schemaDir = ".codex/schemas";
+
+/** The contract schemas, with the name of the type generated from each. */
+export const contractSchemas = {
+  screenManifest: { file: "screen-manifest.schema.json", typeName: "ScreenManifest" },
+  executionPlan: { file: "execution-plan.schema.json", typeName: "ExecutionPlan" }
+} as const;
+
+export type ContractKind = keyof typeof contractSchemas;
+
+export type ContractSchemas = Record<ContractKind, JsonSchema>;
+
+/** Reads both schemas from `.codex/schemas` and makes sure the validator can enforce all of them. */
+export async function loadSchemas(repoRoot = defaultRepoRoot): Promise<ContractSchemas> {
+  const entries = await Promise.all(
+    (Object.keys(contractSchemas) as ContractKind[]).map(async (kind) => {
+      const schema = JSON.parse(await readFile(join(repoRoot, schemaDir, contractSchemas[kind].file), "utf8")) as JsonSchema;
+      checkSchema(schema);
+      return [kind, schema] as const;
+    })
+  );
+  return Object.fromEntries(entries) as ContractSchemas;
+}
@@ -0,0 +1,134 @@
+import { formatPath } from "./jsonSchema.js";
+import type { ContractIssue, ContractSet, ConversionConfig, LoadedDocument } from "./loader.js";
+import type { ExecutionPlan } from "./types/executionPlan.js";
+import type { ScreenManifest } from "./types/screenManifest.js";
+
+/**
+ * A route in the comparable form: lower case, without a query or trailing slash, every
+ * `{param}` alike, and the defaults of MVC's `{controller=Home}/{action=Index}/{id?}` route
+ * filled in, so "/", "/Home" and "/home/index" are the same route.
+ */
+export function normalizeRoute(route: string) {
+  const segments = route
+    .split(/[?#]/)[0]
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (/^\{.*\}$/.test(segment) ? "{}" : segment.toLowerCase()));
+  if (segments.length === 0) segments.push("home");
+  if (segments.length === 1) segments.push("index");
+  return `/${segments.join("/")}`;
+}
+
+/** One screen id used by more than one manifest, or by more than one screen of the plan. */
+export function checkDuplicateScreenIds(manifests: LoadedDocument<ScreenManifest>[], plan: LoadedDocument<ExecutionPlan> | null): ContractIssue[] {
+  const issues: ContractIssue[] = [];
+
+  const firstManifest = new Map<string, string>();
+  for (const { file, value } of manifests) {
+    const earlier = firstManifest.get(value.screenId);
+    if (earlier) issues.push({ kind: "duplicate-screen", file, path: "screenId", message: `"${value.screenId}" is already the screen id of ${earlier}` });
+    else firstManifest.set(value.screenId, file);
+  }
+
+  const firstScreen = new Map<string, number>();
+  plan?.value.screens.forEach(({ screenId }, index) => {
+    const earlier = firstScreen.get(screenId);
+    if (earlier !== undefined) {
+      issues.push({ kind: "duplicate-screen", file: plan.file, path: formatPath(["screens", index, "screenId"]), message: `"${screenId}" is already planned as screens[${earlier}]` });
+    } else {
+      firstScreen.set(screenId, index);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Dependencies on screens the plan does not have, and every cycle among the dependencies, each
+ * reported once as the chain of screen ids that closes it: "posts -> tags -> posts".
+ */
+export function checkPlanDependencies(plan: LoadedDocument<ExecutionPlan>): ContractIssue[] {
+  const issues: ContractIssue[] = [];
+  const { screens } = plan.value;
+  const indexOf = new Map<string, number>();
+  screens.forEach(({ screenId }, index) => {
+    if (!indexOf.has(screenId)) indexOf.set(screenId, index);
+  });
+
+  screens.forEach(({ screenId, dependencies }, index) => {
+    dependencies.forEach((dependency, dependencyIndex) => {
+      if (!indexOf.has(dependency)) {
+        issues.push({
+          kind: "unknown-dependency",
+          file: plan.file,
+          path: formatPath(["screens", index, "dependencies", dependencyIndex]),
+          message: `"${screenId}" depends on "${dependency}", which is not a screen in the plan`
+        });
+      }
+    });
+  });
+
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const reported = new Set<string>();
+
+  const visit = (screenId: string) => {
+    state.set(screenId, "visiting");
+    stack.push(screenId);
+    for (const dependency of screens[indexOf.get(screenId)!].dependencies) {
+      if (!indexOf.has(dependency)) continue;
+      if (state.get(dependency) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(dependency)), dependency];
+        const key = [...new Set(cycle)].sort().join("\n");
+        if (!reported.has(key)) {
+          reported.add(key);
+          issues.push({
+            kind: "dependency-cycle",
+            file: plan.file,
+            path: formatPath(["screens", indexOf.get(dependency)!, "dependencies"]),
+            message: `dependency cycle: ${cycle.join(" -> ")}`
+          });
+        }
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    stack.pop();
+    state.set(screenId, "done");
+  };
+
+  for (const screenId of indexOf.keys()) {
+    if (!state.has(screenId)) visit(screenId);
+  }
+  return issues;
+}
+
+/** Every route a manifest or the plan names that conversion-config.json's `routes` does not list. */
+export function checkRoutes(config: LoadedDocument<ConversionConfig>, manifests: LoadedDocument<ScreenManifest>[], plan: LoadedDocument<ExecutionPlan> | null): ContractIssue[] {
+  const known = new Set(Object.values(config.value.routes).flat().map(normalizeRoute));
+  const issues: ContractIssue[] = [];
+  const check = (file: string, path: Array<string | number>, route: string | undefined) => {
+    if (route === undefined || known.has(normalizeRoute(route))) return;
+    issues.push({ kind: "missing-route", file, path: formatPath(path), message: `"${route}" is not one of the routes in ${config.file}` });
+  };
+
+  for (const { file, value } of manifests) {
+    check(file, ["primaryRoute"], value.primaryRoute);
+    value.routes.forEach((route, index) => check(file, ["routes", index, "path"], route.path));
+    value.views.forEach((view, index) => check(file, ["views", index, "route"], view.route));
+    value.buildFoundation.routeModel.forEach((route, index) => check(file, ["buildFoundation", "routeModel", index, "path"], route.path));
+  }
+  plan?.value.screens.forEach((screen, index) => {
+    check(plan.file, ["screens", index, "primaryRoute"], screen.primaryRoute);
+    screen.routes?.forEach((route, routeIndex) => check(plan.file, ["screens", index, "routes", routeIndex], route));
+  });
+  return issues;
+}
+
+/** The checks the schemas cannot express, run over the documents that passed them. */
+export function checkContracts({ config, plan, manifests }: ContractSet): ContractIssue[] {
+  return [
+    ...checkDuplicateScreenIds(manifests, plan),
+    ...(plan ? checkPlanDependencies(plan) : []),
+    ...(config ? checkRoutes(config, manifests, plan) : [])
+  ];
+}
@@ -0,0 +1,124 @@
+import type { JsonSchema, SchemaNode } from "./jsonSchema.js";
+
+const pascalCase = (text: string) => text.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, __, letter: string) => letter.toUpperCase());
+
+// Array items are named after one of the array: "routes" holds Route, "dataSources" DataSource.
+function singular(word: string) {
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+const propertyName = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+
+function docComment(node: JsonSchema, indent: string) {
+  const text = [node.title, node.description].filter(Boolean).join(". ");
+  return text ? `${indent}/** ${text.replace(/\*\//g, "*\\/")} */\n` : "";
+}
+
+/** Where a schema sits, which is what its generated type is named after. */
+interface NameHint {
+  key: string;
+  parentKey: string | null;
+  isItem: boolean;
+}
+
+/**
+ * Turns a JSON Schema into TypeScript declarations: one interface for the document and one for
+ * every nested object with properties, named after the property that holds it and prefixed with
+ * the document's name. Objects that allow other properties get an index signature.
+ */
+export function generateTypes(schema: JsonSchema, rootName: string, generatedFrom: string) {
+  const declarations: string[] = [];
+  const names = new Set<string>();
+  const refNames = new Map<string, string>();
+
+  const claimName = ({ key, parentKey, isItem }: NameHint) => {
+    const base = pascalCase(isItem ? singular(key) : key);
+    const candidates = [`${rootName}${base}`, `${rootName}${pascalCase(parentKey ?? "")}${base}`];
+    let name = candidates.find((candidate) => !names.has(candidate));
+    for (let suffix = 2; !name; suffix++) {
+      if (!names.has(`${candidates[0]}${suffix}`)) name = `${candidates[0]}${suffix}`;
+    }
+    names.add(name);
+    return name;
+  };
+
+  const resolveRef = (ref: string): SchemaNode => {
+    let node: unknown = schema;
+    for (const part of ref.slice(1).split("/").filter(Boolean)) node = (node as Record<string, unknown>)[part.replace(/~1/g, "/").replace(/~0/g, "~")];
+    return node as SchemaNode;
+  };
+
+  const declareInterface = (node: JsonSchema, name: string, ownerKey: string | null) => {
+    const required = new Set(node.required ?? []);
+    const members = Object.entries(node.properties ?? {}).map(([key, property]) => {
+      const comment = typeof property === "object" ? docComment(property, "  ") : "";
+      const type = typeExpression(property, { key, parentKey: ownerKey, isItem: false });
+      return `${comment}  ${propertyName(key)}${required.has(key) ? "" : "?"}: ${type};`;
+    });
+    if (node.additionalProperties !== false) members.push("  [key: string]: unknown;");
+    return `${docComment(node, "")}export interface ${name} {\n${members.join("\n")}\n}`;
+  };
+
+  function typeExpression(node: SchemaNode, hint: NameHint): string {
+    if (node === true) return "unknown";
+    if (node === false) return "never";
+
+    if (node.$ref !== undefined) {
+      if (!refNames.has(node.$ref)) {
+        const target = resolveRef(node.$ref);
+        const name = claimName({ key: node.$ref.split("/").pop()!, parentKey: null, isItem: false });
+        refNames.set(node.$ref, name);
+        const index = declarations.push("") - 1;
+        declarations[index] = typeof target === "object" && target.properties
+          ? declareInterface(target, name, null)
+          : `export type ${name} = ${typeExpression(target, hint)};`;
+      }
+      return refNames.get(node.$ref)!;
+    }
+    if (node.enum !== undefined) return node.enum.map((option) => JSON.stringify(option)).join(" | ");
+    if (node.const !== undefined) return JSON.stringify(node.const);
+    if (node.anyOf || node.oneOf) return (node.anyOf ?? node.oneOf)!.map((option) => typeExpression(option, hint)).join(" | ");
+    if (node.allOf) return node.allOf.map((part) => typeExpression(part, hint)).join(" & ");
+
+    const types = node.type === undefined ? (node.properties ? ["object"] : []) : Array.isArray(node.type) ? node.type : [node.type];
+    if (types.length === 0) return "unknown";
+    return types
+      .map((type) => {
+        switch (type) {
+          case "string":
+            return "string";
+          case "number":
+          case "integer":
+            return "number";
+          case "boolean":
+            return "boolean";
+          case "null":
+            return "null";
+          case "array": {
+            if (node.items === undefined) return "unknown[]";
+            const item = typeExpression(node.items, { key: hint.key, parentKey: hint.parentKey, isItem: true });
+            return / [|&] /.test(item) ? `(${item})[]` : `${item}[]`;
+          }
+          case "object": {
+            if (!node.properties) {
+              const values = typeof node.additionalProperties === "object" ? typeExpression(node.additionalProperties, { ...hint, isItem: true }) : "unknown";
+              return `Record<string, ${values}>`;
+            }
+            const name = hint.key === "" ? rootName : claimName(hint);
+            // The slot is taken before the properties are walked, so an interface comes before
+            // the ones it uses and the file reads top down.
+            const index = declarations.push("") - 1;
+            declarations[index] = declareInterface(node, name, hint.key || null);
+            return name;
+          }
+        }
+      })
+      .join(" | ");
+  }
+
+  names.add(rootName);
+  typeExpression(schema, { key: "", parentKey: null, isItem: false });
+  return `// Generated from ${generatedFrom} by \`npm run generate-types\`; do not edit.\n\n${declarations.join("\n\n")}\n`;
+}
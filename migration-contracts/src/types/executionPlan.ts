@@ -0,0 +1,26 @@
+// Generated from .codex/schemas/execution-plan.schema.json by `npm run generate-types`; do not edit.
+
+/** Execution Plan (Screen-Level) */
+export interface ExecutionPlan {
+  planVersion: string;
+  orderingRules: string[];
+  screens: ExecutionPlanScreen[];
+}
+
+export interface ExecutionPlanScreen {
+  screenId: string;
+  primaryRoute: string;
+  routes?: string[];
+  complexity: "low" | "medium" | "high";
+  phase: "foundation" | "standard" | "guided";
+  priority: number;
+  dependencies: string[];
+  sourceFiles: ExecutionPlanSourceFiles;
+}
+
+export interface ExecutionPlanSourceFiles {
+  controllers: string[];
+  views: string[];
+  viewModels: string[];
+  css: string[];
+}
@@ -0,0 +1,325 @@
+// Generated from .codex/schemas/screen-manifest.schema.json by `npm run generate-types`; do not edit.
+
+/** Screen Manifest (Screen-Level, Multi-Action) */
+export interface ScreenManifest {
+  screenId: string;
+  feature: string;
+  screenName: string;
+  primaryRoute: string;
+  routes: ScreenManifestRoute[];
+  pageTitle: string;
+  complexity: "low" | "medium" | "high";
+  complexityFactors: string[];
+  sourceFiles: ScreenManifestSourceFiles;
+  views: ScreenManifestView[];
+  actions: ScreenManifestAction[];
+  dataSources: ScreenManifestDataSource[];
+  interactiveContracts: ScreenManifestInteractiveContract[];
+  businessLogic: unknown[];
+  businessLogicTrace: ScreenManifestBusinessLogicTrace[];
+  enableDisableRules: unknown[];
+  uiStates: unknown[];
+  renderModel: ScreenManifestRenderModel;
+  likeToLikeSpec: ScreenManifestLikeToLikeSpec;
+  buildFoundation: ScreenManifestBuildFoundation;
+  unknowns: ScreenManifestUnknown[];
+  blocked: ScreenManifestBlocked;
+  confidence?: Record<string, unknown>;
+}
+
+export interface ScreenManifestRoute {
+  id: string;
+  path: string;
+  purpose?: string;
+}
+
+export interface ScreenManifestSourceFiles {
+  controllers: string[];
+  views: string[];
+  viewModels: string[];
+  css: string[];
+}
+
+export interface ScreenManifestView {
+  viewId: string;
+  type: "index" | "create" | "edit" | "details" | "delete" | "custom";
+  route?: string;
+  sourceView?: string;
+  components: string[];
+  entryActions: string[];
+  confidence?: "high" | "medium" | "low";
+}
+
+export interface ScreenManifestAction {
+  actionId: string;
+  label: string;
+  intent: "navigate" | "create" | "edit" | "details" | "delete" | "submit" | "cancel" | "reset" | "custom";
+  trigger: string;
+  targetViewId?: string;
+  dataSourceRef?: string;
+  routeTemplate?: string;
+  requiresSelection?: boolean;
+  selectionSource?: string;
+  onSuccess: unknown[];
+  onError: unknown[];
+  confidence?: "high" | "medium" | "low";
+}
+
+export interface ScreenManifestDataSource {
+  id: string;
+  endpoint: string;
+  method: string;
+  routeParams?: string[];
+  queryParams?: string[];
+  requestShape: unknown;
+  responseShape: unknown;
+  usedBy?: string[];
+  confidence?: "high" | "medium" | "low";
+  [key: string]: unknown;
+}
+
+export interface ScreenManifestInteractiveContract {
+  contractId: string;
+  elementId: string;
+  trigger: string;
+  preconditions?: string[];
+  action: Record<string, unknown>;
+  onSuccess: unknown[];
+  onError: unknown[];
+  confidence?: "high" | "medium" | "low";
+  [key: string]: unknown;
+}
+
+export interface ScreenManifestBusinessLogicTrace {
+  ruleId: string;
+  rule: string;
+  derivedFrom: ("controller" | "view" | "model" | "annotation" | "template" | "javascript" | "route" | "service")[];
+  affectedViews: string[];
+  affectedActions: string[];
+  sourceRefs: string[];
+  confidence: "high" | "medium" | "low";
+  verificationMode: "static" | "runtime" | "inferred";
+  implementationNotes?: string;
+}
+
+export interface ScreenManifestRenderModel {
+  layout: ScreenManifestLayout;
+  components: Record<string, unknown>;
+}
+
+export interface ScreenManifestLayout {
+  type: string;
+  breakpoints?: string[];
+  zones: unknown[];
+  [key: string]: unknown;
+}
+
+export interface ScreenManifestLikeToLikeSpec {
+  layoutTree: ScreenManifestLayoutTree[];
+  componentSpecs: ScreenManifestComponentSpec[];
+  fieldMatrix: ScreenManifestFieldMatrix[];
+  gridMatrix: ScreenManifestGridMatrix[];
+  validationMatrix: ScreenManifestValidationMatrix[];
+  conditionalRules: ScreenManifestConditionalRule[];
+  styleMap: ScreenManifestStyleMap[];
+  templateUsage: ScreenManifestTemplateUsage[];
+  eventFlow: ScreenManifestEventFlow[];
+  evidenceMap: ScreenManifestEvidenceMap[];
+}
+
+export interface ScreenManifestLayoutTree {
+  id: string;
+  type: string;
+  parentId?: string;
+  order: number;
+  classes?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestComponentSpec {
+  componentId: string;
+  componentType: string;
+  viewIds: string[];
+  classes?: string[];
+  bindings?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestFieldMatrix {
+  viewId: string;
+  fields: ScreenManifestField[];
+}
+
+export interface ScreenManifestField {
+  name: string;
+  label: string;
+  inputType: string;
+  editor?: string;
+  defaultValue?: unknown;
+  readonly?: boolean;
+  disabled?: boolean;
+  order: number;
+  sourceRef: string;
+}
+
+export interface ScreenManifestGridMatrix {
+  viewId: string;
+  columns: ScreenManifestColumn[];
+}
+
+export interface ScreenManifestColumn {
+  key: string;
+  label: string;
+  binding?: string;
+  order: number;
+  actions?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestValidationMatrix {
+  viewId: string;
+  field: string;
+  rules: string[];
+  messages: string[];
+  validationMode?: ("client" | "server")[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestConditionalRule {
+  ruleId: string;
+  scope: string;
+  condition: string;
+  effect: string;
+  sourceRef: string;
+}
+
+export interface ScreenManifestStyleMap {
+  targetId: string;
+  classes: string[];
+  cssRefs: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestTemplateUsage {
+  templatePath: string;
+  appliesTo: string[];
+  effect?: string;
+  sourceRef: string;
+}
+
+export interface ScreenManifestEventFlow {
+  eventId: string;
+  trigger: string;
+  handler: string;
+  outcome: string;
+  sourceRef: string;
+}
+
+export interface ScreenManifestEvidenceMap {
+  claimId: string;
+  claimType: string;
+  sourceRef: string;
+}
+
+export interface ScreenManifestBuildFoundation {
+  uiBlueprint: ScreenManifestUiBlueprint[];
+  stateModel: ScreenManifestStateModel;
+  dataFlowModel: ScreenManifestDataFlowModel[];
+  routeModel: ScreenManifestRouteModel[];
+  styleModel: ScreenManifestStyleModel[];
+  componentContractModel: ScreenManifestComponentContractModel[];
+  acceptanceOracle: ScreenManifestAcceptanceOracle[];
+}
+
+export interface ScreenManifestUiBlueprint {
+  nodeId: string;
+  nodeType: string;
+  viewId: string;
+  parentNodeId?: string;
+  order: number;
+  componentRef?: string;
+  sourceRef: string;
+}
+
+export interface ScreenManifestStateModel {
+  initialState: string;
+  states: ScreenManifestState[];
+  transitions: ScreenManifestTransition[];
+}
+
+export interface ScreenManifestState {
+  stateId: string;
+  scope: string;
+  entryEffects?: string[];
+  exitEffects?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestTransition {
+  transitionId: string;
+  from: string;
+  to: string;
+  trigger: string;
+  guard?: string;
+  effects?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestDataFlowModel {
+  flowId: string;
+  dataSourceId: string;
+  consumers: string[];
+  transformRules?: string[];
+  errorHandling?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestRouteModel {
+  routeId: string;
+  path: string;
+  params?: string[];
+  query?: string[];
+  bindingStrategy: string;
+  sourceRef: string;
+}
+
+export interface ScreenManifestStyleModel {
+  targetId: string;
+  classStack: string[];
+  layoutRole: string;
+  tokenHints?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestComponentContractModel {
+  componentId: string;
+  props: string[];
+  events: string[];
+  requiredStates?: string[];
+  sourceRef: string;
+}
+
+export interface ScreenManifestAcceptanceOracle {
+  checkId: string;
+  dimension: string;
+  expectation: string;
+  severity?: "critical" | "major" | "minor";
+  sourceRef: string;
+}
+
+export interface ScreenManifestUnknown {
+  unknownId: string;
+  category: "route" | "view" | "action" | "validation" | "style" | "navigation" | "data" | "state" | "template" | "other";
+  description: string;
+  impact: "critical" | "major" | "minor";
+  blocking: boolean;
+  requiredEvidence: string[];
+  remediationHints?: string[];
+  sourceRefs: string[];
+}
+
+export interface ScreenManifestBlocked {
+  isBlocked: boolean;
+  reasons: string[];
+  recommendedNextActions?: string[];
+}
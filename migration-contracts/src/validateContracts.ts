@@ -0,0 +1,24 @@
+import { type ContractIssue, loadContracts, type LoadOptions } from "./loader.js";
+import { checkContracts } from "./semanticChecks.js";
+
+export interface ContractReport {
+  repoRoot: string;
+  /** The files that were read and passed their schema. */
+  checked: string[];
+  issues: ContractIssue[];
+}
+
+/** Loads every contract, validates it against its schema and runs the semantic checks over the ones that passed. */
+export async function validateContracts(options: LoadOptions = {}): Promise<ContractReport> {
+  const set = await loadContracts(options);
+  return {
+    repoRoot: set.repoRoot,
+    checked: [set.config, set.plan, ...set.manifests].flatMap((document) => (document ? [document.file] : [])),
+    issues: [...set.issues, ...checkContracts(set)]
+  };
+}
+
+/** `artefacts/manifests/posts.json: views[0].type must be one of "index", ...`. */
+export function formatIssue({ file, path, message }: ContractIssue) {
+  return `${file}: ${path ? `${path} ` : ""}${message}`;
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { rm } from "node:fs/promises";
+import { after, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { normalizeRoute } from "../src/semanticChecks.js";
+import { formatIssue, validateContracts } from "../src/validateContracts.js";
+import { createRepo, manifest, plan, planScreen } from "./fixtures.js";
+
+const roots: string[] = [];
+after(() => Promise.all(roots.map((root) => rm(root, { recursive: true, force: true }))));
+
+async function check(files: Record<string, unknown>) {
+  const repoRoot = await createRepo(files);
+  roots.push(repoRoot);
+  return validateContracts({ repoRoot });
+}
+
+const planFile = "artefacts/manifests/_execution-plan.json";
+
+test("valid manifests and plan pass, and aggregates are not read as manifests", async () => {
+  const report = await check({
+    [planFile]: plan([planScreen("posts"), planScreen("tags", ["posts"])]),
+    "artefacts/manifests/posts.json": manifest("posts"),
+    "artefacts/manifests/tags.json": manifest("tags"),
+    "artefacts/manifests/_summary.json": { screens: 2 },
+    "artefacts/manifests/tags.states.json": { states: [] }
+  });
+
+  assert.deepEqual(report.issues, []);
+  assert.deepEqual(report.checked, ["react-app/conversion-config.json", planFile, "artefacts/manifests/posts.json", "artefacts/manifests/tags.json"]);
+});
+
+test("schema errors are reported with their file and path, and the file is left out of the other checks", async () => {
+  const report = await check({
+    [planFile]: plan([planScreen("posts")]),
+    "artefacts/manifests/posts.json": manifest("posts", { complexity: "extreme" as never, primaryRoute: "/Posts/Archive" }),
+    "artefacts/manifests/tags.json": "{ not json"
+  });
+
+  assert.equal(report.issues.length, 2);
+  assert.equal(formatIssue(report.issues[0]), 'artefacts/manifests/posts.json: complexity must be one of "low", "medium", "high" (got "extreme")');
+  assert.equal(report.issues[1].kind, "parse");
+  assert.match(formatIssue(report.issues[1]), /^artefacts\/manifests\/tags\.json: is not valid JSON: /);
+});
+
+test("a screen id used twice is reported, in the manifests and in the plan", async () => {
+  const report = await check({
+    [planFile]: plan([planScreen("posts"), planScreen("tags"), planScreen("posts")]),
+    "artefacts/manifests/posts.json": manifest("posts"),
+    "artefacts/manifests/posts-old.json": manifest("posts")
+  });
+
+  assert.deepEqual(report.issues.map(formatIssue), [
+    'artefacts/manifests/posts.json: screenId "posts" is already the screen id of artefacts/manifests/posts-old.json',
+    `${planFile}: screens[2].screenId "posts" is already planned as screens[0]`
+  ]);
+});
+
+test("dependency cycles and unknown dependencies in the plan are reported", async () => {
+  const report = await check({
+    [planFile]: plan([planScreen("posts", ["tags"]), planScreen("tags", ["blogs", "posts"]), planScreen("blogs", ["blogs", "comments"])]),
+    "artefacts/manifests/posts.json": manifest("posts"),
+    "artefacts/manifests/tags.json": manifest("tags")
+  });
+
+  assert.deepEqual(
+    report.issues.filter((issue) => issue.kind !== "missing-route").map(formatIssue),
+    [
+      `${planFile}: screens[2].dependencies[1] "blogs" depends on "comments", which is not a screen in the plan`,
+      `${planFile}: screens[2].dependencies dependency cycle: blogs -> blogs`,
+      `${planFile}: screens[0].dependencies dependency cycle: posts -> tags -> posts`
+    ]
+  );
+});
+
+test("routes missing from conversion-config.json are reported", async () => {
+  const posts = manifest("posts");
+  const report = await check({
+    [planFile]: plan([{ ...planScreen("posts"), routes: ["/posts", "/Posts/Details/{id}"] }]),
+    "artefacts/manifests/posts.json": {
+      ...posts,
+      routes: [...posts.routes, { id: "edit", path: "/Posts/Edit/{postId}" }, { id: "archive", path: "/Posts/Archive" }]
+    }
+  });
+
+  assert.deepEqual(report.issues.map(formatIssue), [
+    'artefacts/manifests/posts.json: routes[2].path "/Posts/Archive" is not one of the routes in react-app/conversion-config.json',
+    `${planFile}: screens[0].routes[1] "/Posts/Details/{id}" is not one of the routes in react-app/conversion-config.json`
+  ]);
+  assert.equal(normalizeRoute("/"), "/home/index");
+  assert.equal(normalizeRoute("/Posts/Edit/{postId}?returnUrl=x"), "/posts/edit/{}");
+});
+
+test("the CLI exits with 1 when a contract is invalid and 0 when all are valid", async () => {
+  const cli = fileURLToPath(new URL("../src/cli.js", import.meta.url));
+  const valid = await createRepo({ [planFile]: plan([planScreen("posts")]), "artefacts/manifests/posts.json": manifest("posts") });
+  const invalid = await createRepo({ [planFile]: plan([planScreen("posts", ["posts"])]), "artefacts/manifests/posts.json": manifest("posts") });
+  roots.push(valid, invalid);
+
+  const passed = spawnSync(process.execPath, [cli, "--root", valid], { encoding: "utf8" });
+  assert.equal(passed.status, 0, passed.stderr);
+  assert.match(passed.stdout, /3 file\(s\) passed their schema; no problems found\./);
+
+  const failed = spawnSync(process.execPath, [cli, "--root", invalid], { encoding: "utf8" });
+  assert.equal(failed.status, 1);
+  assert.match(failed.stderr, /screens\[0\]\.dependencies dependency cycle: posts -> posts/);
+
+  const json = spawnSync(process.execPath, [cli, "--root", invalid, "--json"], { encoding: "utf8" });
+  assert.equal(JSON.parse(json.stdout).issues[0].kind, "dependency-cycle");
+});
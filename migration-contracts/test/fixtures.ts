@@ -0,0 +1,99 @@
+import { cp, mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { defaultRepoRoot } from "../src/schemas.js";
+import type { ExecutionPlan, ExecutionPlanScreen } from "../src/types/executionPlan.js";
+import type { ScreenManifest } from "../src/types/screenManifest.js";
+
+export const routes = {
+  posts: ["/Posts/Index", "/Posts/Edit/{id}"],
+  tags: ["/Tags/Index"]
+};
+
+/** The smallest manifest the schema accepts, for a screen whose routes are listed in `routes`. */
+export function manifest(screenId: string, overrides: Partial<ScreenManifest> = {}): ScreenManifest {
+  const route = routes[screenId as keyof typeof routes]?.[0] ?? `/${screenId}/Index`;
+  const sourceRef = `Views/${screenId}/Index.cshtml`;
+  return {
+    screenId,
+    feature: screenId,
+    screenName: `${screenId} list`,
+    primaryRoute: route,
+    routes: [{ id: "index", path: route }],
+    pageTitle: screenId,
+    complexity: "low",
+    complexityFactors: ["list only"],
+    sourceFiles: { controllers: [], views: [sourceRef], viewModels: [], css: [] },
+    views: [{ viewId: "index", type: "index", route, components: ["grid"], entryActions: [] }],
+    actions: [{ actionId: "open", label: "Open", intent: "navigate", trigger: "click", onSuccess: [], onError: [] }],
+    dataSources: [],
+    interactiveContracts: [],
+    businessLogic: [],
+    businessLogicTrace: [],
+    enableDisableRules: [],
+    uiStates: [],
+    renderModel: { layout: { type: "page", zones: [] }, components: { grid: {} } },
+    likeToLikeSpec: {
+      layoutTree: [{ id: "root", type: "page", order: 0, sourceRef }],
+      componentSpecs: [{ componentId: "grid", componentType: "table", viewIds: ["index"], sourceRef }],
+      fieldMatrix: [],
+      gridMatrix: [],
+      validationMatrix: [],
+      conditionalRules: [],
+      styleMap: [],
+      templateUsage: [],
+      eventFlow: [],
+      evidenceMap: [{ claimId: "grid", claimType: "component", sourceRef }]
+    },
+    buildFoundation: {
+      uiBlueprint: [{ nodeId: "root", nodeType: "page", viewId: "index", order: 0, sourceRef }],
+      stateModel: {
+        initialState: "ready",
+        states: [{ stateId: "ready", scope: "page", sourceRef }],
+        transitions: [{ transitionId: "load", from: "ready", to: "ready", trigger: "load", sourceRef }]
+      },
+      dataFlowModel: [{ flowId: "list", dataSourceId: "list", consumers: ["grid"], sourceRef }],
+      routeModel: [{ routeId: "index", path: route, bindingStrategy: "none", sourceRef }],
+      styleModel: [],
+      componentContractModel: [{ componentId: "grid", props: [], events: [], sourceRef }],
+      acceptanceOracle: [{ checkId: "renders", dimension: "structural", expectation: "the grid is shown", sourceRef }]
+    },
+    unknowns: [],
+    blocked: { isBlocked: false, reasons: [] },
+    ...overrides
+  };
+}
+
+export function planScreen(screenId: string, dependencies: string[] = []): ExecutionPlanScreen {
+  return {
+    screenId,
+    primaryRoute: routes[screenId as keyof typeof routes]?.[0] ?? `/${screenId}/Index`,
+    complexity: "low",
+    phase: "standard",
+    priority: 0,
+    dependencies,
+    sourceFiles: { controllers: [], views: [], viewModels: [], css: [] }
+  };
+}
+
+export function plan(screens: ExecutionPlanScreen[]): ExecutionPlan {
+  return { planVersion: "1", orderingRules: ["dependencies first"], screens };
+}
+
+/**
+ * A repository in a temporary folder with the real schemas, a conversion-config.json listing
+ * `routes`, and the given files written relative to its root.
+ */
+export async function createRepo(files: Record<string, unknown>) {
+  const root = await mkdtemp(join(tmpdir(), "migration-contracts-"));
+  await cp(join(defaultRepoRoot, ".codex/schemas"), join(root, ".codex/schemas"), { recursive: true });
+  const all: Record<string, unknown> = {
+    "react-app/conversion-config.json": { manifestRoot: "artefacts/manifests", executionPlan: "artefacts/manifests/_execution-plan.json", routes },
+    ...files
+  };
+  for (const [file, content] of Object.entries(all)) {
+    await mkdir(dirname(join(root, file)), { recursive: true });
+    await writeFile(join(root, file), typeof content === "string" ? content : JSON.stringify(content, null, 2));
+  }
+  return root;
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { test } from "node:test";
+import { checkSchema, SchemaError, validateJson } from "../src/jsonSchema.js";
+import { contractSchemas, loadSchemas } from "../src/schemas.js";
+import { generateTypes } from "../src/typeGenerator.js";
+import { plan, planScreen } from "./fixtures.js";
+
+test("a valid plan has no issues", async () => {
+  const { executionPlan } = await loadSchemas();
+  assert.deepEqual(validateJson(executionPlan, plan([planScreen("posts")])), []);
+});
+
+test("issues name the property they are about", async () => {
+  const { executionPlan } = await loadSchemas();
+  const screen = { ...planScreen("posts"), complexity: "extreme", priority: -1, notes: "x", sourceFiles: { controllers: [], views: [""], viewModels: [] } };
+
+  assert.deepEqual(validateJson(executionPlan, { planVersion: "1", orderingRules: [], screens: [screen] }), [
+    { path: "orderingRules", message: "must not be empty" },
+    { path: "screens[0].complexity", message: 'must be one of "low", "medium", "high" (got "extreme")' },
+    { path: "screens[0].priority", message: "must be 0 or more" },
+    { path: "screens[0].sourceFiles.css", message: "is required" },
+    { path: "screens[0].sourceFiles.views[0]", message: "must not be empty" },
+    { path: "screens[0].notes", message: "is not allowed here" }
+  ]);
+  assert.deepEqual(validateJson(executionPlan, []), [{ path: "", message: "must be an object (got array)" }]);
+});
+
+test("$ref, anyOf and oneOf are enforced", () => {
+  const schema = {
+    $defs: { id: { type: "string", pattern: "^[a-z]+$" } },
+    type: "object",
+    properties: {
+      screen: { $ref: "#/$defs/id" },
+      size: { anyOf: [{ type: "integer" }, { enum: ["auto"] }] },
+      mode: { oneOf: [{ type: "string" }, { const: "sync" }] }
+    }
+  } as const;
+  checkSchema(schema as never);
+
+  assert.deepEqual(validateJson(schema as never, { screen: "Posts", size: "big", mode: "sync" }), [
+    { path: "screen", message: "must match the pattern ^[a-z]+$" },
+    { path: "size", message: "must match at least one of 2 alternatives" },
+    { path: "mode", message: "must match exactly one of 2 alternatives (matched 2)" }
+  ]);
+});
+
+test("a schema with a keyword the validator does not enforce is refused", () => {
+  assert.throws(
+    () => checkSchema({ type: "object", properties: { id: { type: "string", contentEncoding: "base64" } as never } }),
+    (error: unknown) => error instanceof SchemaError && error.message.includes('#/properties/id: unsupported keyword "contentEncoding"')
+  );
+});
+
+test("the generated types are up to date with the schemas", async () => {
+  const schemas = await loadSchemas();
+  for (const [kind, { file, typeName }] of Object.entries(contractSchemas)) {
+    const committed = await readFile(new URL(`../../src/types/${kind}.ts`, import.meta.url), "utf8");
+    assert.equal(committed, generateTypes(schemas[kind as keyof typeof schemas], typeName, `.codex/schemas/${file}`), `run npm run generate-types for ${file}`);
+  }
+});
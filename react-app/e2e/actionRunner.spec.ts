@@ -0,0 +1,95 @@
+import { test, expect, type Page } from "@playwright/test";
+
+/** The actions only run on the mock API's hub when the runtime config says the data is served over HTTP. */
+async function useHttpData(page: Page) {
+  await page.route("**/config.json", (route) => route.fulfill({ contentType: "application/json", body: JSON.stringify({ dataSource: "http" }) }));
+}
+
+async function runTestAction(page: Page, iterations: string, delayMs: string, mode: string) {
+  await page.goto("/Blogs/RunAction");
+  await page.getByLabel("NumIterations").fill(iterations);
+  await page.getByLabel("MsBetweenIterations").fill(delayMs);
+  await page.getByLabel("Mode").selectOption(mode);
+  await page.getByRole("button", { name: "Run action" }).click();
+}
+
+test("a finished action shows its messages and returns to the index on exit", async ({ page }) => {
+  await runTestAction(page, "3", "50", "Normal");
+
+  await expect(page.getByTestId("action-button")).toHaveText("Finished Ok");
+  await expect(page.getByTestId("action-messages")).toContainText("Iteration 3 of 3 done.");
+  await expect(page.getByTestId("action-messages")).toContainText("Successfully ran 3 iterations.");
+
+  await page.getByTestId("action-button").click();
+  await expect(page.getByTestId("temp-data-messages")).toContainText("The test action finished all 3 iterations.");
+});
+
+test("error messages end the action as finished with errors", async ({ page }) => {
+  await runTestAction(page, "5", "20", "WarningsAndErrors");
+
+  await expect(page.getByTestId("action-button")).toHaveText("Finished (errors)");
+  await expect(page.getByTestId("action-messages").locator(".label-danger")).toHaveText(["Error"]);
+});
+
+test("a running action can be cancelled", async ({ page }) => {
+  await runTestAction(page, "50", "200", "Normal");
+
+  await expect(page.getByTestId("action-button")).toHaveText("Cancel");
+  await page.getByTestId("action-button").click();
+  await expect(page.getByTestId("action-button")).toHaveText("Cancelled");
+
+  await page.getByTestId("action-button").click();
+  await expect(page.getByTestId("action-panel")).toHaveCount(0);
+});
+
+test("leaving an action that cannot be cancelled asks for confirmation", async ({ page }) => {
+  await runTestAction(page, "50", "200", "NotCancellable");
+  await expect(page.getByTestId("action-button")).toHaveText("Running...");
+
+  page.once("dialog", (dialog) => {
+    expect(dialog.message()).toContain("The action is not cancellable and is still running.");
+    void dialog.dismiss();
+  });
+  await page.getByTestId("action-button").click();
+  await expect(page.getByTestId("action-panel")).toBeVisible();
+});
+
+test("a failing action and invalid parameters are reported", async ({ page }) => {
+  await runTestAction(page, "4", "20", "Fail");
+  await expect(page.getByTestId("action-button")).toHaveText("Failed");
+  await expect(page.getByTestId("action-messages")).toContainText("The action failed on purpose at iteration 3.");
+  await page.getByTestId("action-button").click();
+
+  await page.getByLabel("NumIterations").fill("0");
+  await page.getByRole("button", { name: "Run action" }).click();
+  await expect(page.getByTestId("blogs-run-action-form")).toContainText("The field NumIterations must be between 1 and 100.");
+  await expect(page.getByTestId("action-panel")).toHaveCount(0);
+});
+
+test("the server streams an action's progress as server-sent events", async ({ request }) => {
+  const token = (await (await request.get("/api/Antiforgery/Token")).json()).token;
+  const started = await request.post("/api/Actions/Start/TestAction", {
+    data: { numIterations: 3, msBetweenIterations: 20, mode: "Normal" },
+    headers: { RequestVerificationToken: token }
+  });
+  expect(started.ok()).toBeTruthy();
+  const { actionGuid } = await started.json();
+
+  // The stream ends itself after the stopped event.
+  const progress = await request.get(`/api/Actions/Progress/${actionGuid}`);
+  expect(progress.headers()["content-type"]).toContain("text/event-stream");
+  const events = (await progress.text()).match(/^event: \w+$/gm);
+  expect(events?.[0]).toBe("event: started");
+  expect(events).toContain("event: progress");
+  expect(events?.at(-1)).toBe("event: stopped");
+});
+
+test("with the data served over HTTP the panel follows the server's progress stream", async ({ page }) => {
+  await useHttpData(page);
+  const stream = page.waitForResponse((response) => response.url().includes("/api/Actions/Progress/"));
+  await runTestAction(page, "3", "50", "Normal");
+
+  expect((await stream).headers()["content-type"]).toContain("text/event-stream");
+  await expect(page.getByTestId("action-button")).toHaveText("Finished Ok");
+  await expect(page.getByTestId("action-messages")).toContainText("Successfully ran 3 iterations.");
+});
@@ -0,0 +1,61 @@
+import { test, expect, type Page } from "@playwright/test";
+
+/** The screens only call the mock API when the runtime config says the data is served over HTTP. */
+async function useHttpData(page: Page) {
+  await page.route("**/config.json", (route) => route.fulfill({ contentType: "application/json", body: JSON.stringify({ dataSource: "http" }) }));
+}
+
+test("a POST with the session's token is accepted", async ({ request }) => {
+  const token = (await (await request.get("/api/Antiforgery/Token")).json()).token;
+  const again = (await (await request.get("/api/Antiforgery/Token")).json()).token;
+  expect(again).toBe(token);
+
+  const response = await request.post("/api/Tags/Create", {
+    data: { tagId: 0, name: "Protected", slug: "protected" },
+    headers: { RequestVerificationToken: token }
+  });
+  expect(response.ok()).toBeTruthy();
+  expect((await response.json()).successMessage).toBe("Successfully created tag");
+});
+
+test("a POST without a valid token is rejected with its own error code", async ({ request }) => {
+  const missing = await request.post("/api/Tags/Create", { data: { tagId: 0, name: "Forged", slug: "forged" } });
+  expect(missing.status()).toBe(400);
+  expect((await missing.json()).error).toMatchObject({ status: 400, code: "antiforgery" });
+
+  await request.get("/api/Antiforgery/Token");
+  const wrong = await request.post("/api/Tags/Create", {
+    data: { tagId: 0, name: "Forged", slug: "forged" },
+    headers: { RequestVerificationToken: "not-the-token" }
+  });
+  expect(wrong.status()).toBe(400);
+  expect((await wrong.json()).error.code).toBe("antiforgery");
+
+  const tags = await (await request.get("/api/Tags/Index")).json();
+  expect(tags).not.toEqual(expect.arrayContaining([expect.objectContaining({ slug: "forged" })]));
+});
+
+test("a form whose token is rejected tells the user to reload", async ({ page }) => {
+  await useHttpData(page);
+  await page.route("**/api/Antiforgery/Token", (route) => route.fulfill({ json: { token: "stale-token" } }));
+  await page.goto("/Blogs/RunAction");
+  await page.getByRole("button", { name: "Run action" }).click();
+
+  await expect(page.getByTestId("action-global-message")).toContainText("Reload the page and try again.");
+  await expect(page.getByTestId("action-panel")).toHaveCount(0);
+});
+
+test("a sync form whose token is rejected stays open, tells the user to reload and keeps the data unchanged", async ({ page }) => {
+  await useHttpData(page);
+  await page.route("**/api/Antiforgery/Token", (route) => route.fulfill({ json: { token: "stale-token" } }));
+  await page.goto("/Tags/Create");
+  await page.getByLabel("Name").fill("Refused");
+  await page.getByLabel("Slug").fill("refused");
+  await page.getByRole("button", { name: "Create" }).click();
+
+  await expect(page.getByTestId("validation-summary")).toContainText("Reload the page and try again.");
+  await expect(page).toHaveURL(/\/Tags\/Create$/);
+
+  await page.goto("/Tags/Index");
+  await expect(page.getByTestId("tags-grid")).not.toContainText("refused");
+});
@@ -0,0 +1,45 @@
+import { test, expect, type APIRequestContext } from "@playwright/test";
+
+/** Starts a session and returns the header its POSTs must carry. */
+async function antiforgeryHeaders(request: APIRequestContext) {
+  const response = await request.get("/api/Antiforgery/Token");
+  return { RequestVerificationToken: (await response.json()).token as string };
+}
+
+test("api lists posts and reports a missing post with the error envelope", async ({ request }) => {
+  const list = await request.get("/api/Posts/Index");
+  expect(list.ok()).toBeTruthy();
+  expect(await list.json()).toEqual(expect.arrayContaining([expect.objectContaining({ title: "GenericServices intro" })]));
+
+  const missing = await request.get("/api/Posts/Details/9999");
+  expect(missing.status()).toBe(404);
+  expect((await missing.json()).error).toMatchObject({ status: 404, code: "not-found", message: "Post not found." });
+});
+
+test("api returns validation errors keyed by property", async ({ request }) => {
+  const response = await request.post("/api/Tags/Create", {
+    data: { tagId: 0, name: "Duplicate", slug: "ef" },
+    headers: await antiforgeryHeaders(request)
+  });
+  expect(response.status()).toBe(422);
+  expect((await response.json()).error.errors.Slug).toEqual([
+    "The Slug on tag 'Duplicate' must be unique and is already being used."
+  ]);
+});
+
+test("api rejects unsupported methods and malformed bodies", async ({ request }) => {
+  const wrongMethod = await request.delete("/api/Blogs/Index");
+  expect(wrongMethod.status()).toBe(405);
+
+  const badBody = await request.post("/api/Tags/Create", { data: "not json", headers: { "Content-Type": "application/json" } });
+  expect(badBody.status()).toBe(400);
+});
+
+test("api reports the serving process's internals", async ({ request }) => {
+  const response = await request.get("/api/Home/Internals");
+  expect(response.ok()).toBeTruthy();
+  const internals = await response.json();
+  expect(internals.heapMemoryUsedKbytes).toBeGreaterThan(0);
+  expect(internals.rssKbytes).toBeGreaterThanOrEqual(internals.heapMemoryUsedKbytes);
+  expect(internals).toEqual(expect.objectContaining({ eventLoopLagMs: expect.any(Number), activeHandles: expect.any(Number) }));
+});
@@ -0,0 +1,46 @@
+import { test, expect } from "@playwright/test";
+
+test("blogs index and create form render", async ({ page }) => {
+  await page.goto("/Blogs/Index");
+  await expect(page.getByTestId("blogs-top-links")).toBeVisible();
+  await expect(page.getByTestId("blogs-grid")).toContainText("Num Posts this Author");
+
+  await page.goto("/Blogs/Create");
+  await expect(page.getByTestId("blogs-form")).toBeVisible();
+});
+
+test("created blogger is offered in the posts form", async ({ page }) => {
+  await page.goto("/Blogs/Create");
+  await page.getByLabel("Name").fill("D");
+  await page.getByLabel("EmailAddress").fill("not-an-email");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByText("The field Name must be a string or array type with a minimum length of '2'.").first()).toBeVisible();
+  await expect(page.getByText("The EmailAddress field is not a valid e-mail address.").first()).toBeVisible();
+
+  await page.getByLabel("Name").fill("Dave");
+  await page.getByLabel("EmailAddress").fill("dave@nospam.com");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByText("Successfully created blog")).toBeVisible();
+
+  await page.goto("/Posts/Create");
+  await expect(page.locator("#post-blogger option", { hasText: "Dave" })).toHaveCount(1);
+});
+
+test("analyse runs the blogger analysis", async ({ page }) => {
+  await page.goto("/Blogs/Index");
+  await page.getByRole("link", { name: "Analyse" }).first().click();
+  await expect(page.getByTestId("blogs-analysis")).toContainText("NumPosts");
+});
+
+test("a blogger with posts cannot be deleted", async ({ page }) => {
+  await page.goto("/Blogs/Index");
+  await page.getByRole("row", { name: /Alice/ }).getByRole("link", { name: "Delete" }).click();
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByTestId("validation-summary")).toContainText("Delete failed: the blogger 'Alice' still has 1 post(s). Delete those posts first.");
+
+  await page.getByRole("link", { name: "Back to List" }).click();
+  await page.getByRole("row", { name: /Carol/ }).getByRole("link", { name: "Delete" }).click();
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByText("Successfully deleted blog")).toBeVisible();
+  await expect(page.getByTestId("blogs-grid")).not.toContainText("Carol");
+});
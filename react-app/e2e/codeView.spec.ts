@@ -0,0 +1,57 @@
+import { test, expect } from "@playwright/test";
+
+test("a panel title opens the panel and shows the legacy source", async ({ page }) => {
+  await page.goto("/Posts/CodeView");
+  await expect(page.getByTestId("code-view")).toBeVisible();
+
+  const toggle = page.getByRole("button", { name: "PostsController Database Actions" });
+  await expect(toggle).toHaveAttribute("aria-expanded", "false");
+  await expect(page.locator("#PostsController")).toBeHidden();
+
+  await toggle.click();
+  await expect(toggle).toHaveAttribute("aria-expanded", "true");
+  const edit = page.getByTestId("PostsController-PostsController-Edit");
+  await expect(edit).toContainText("public ActionResult Edit(DetailPostDto dto, IUpdateService service)");
+  await expect(edit.locator(".source-keyword").first()).toBeVisible();
+
+  await toggle.click();
+  await expect(page.locator("#PostsController")).toBeHidden();
+});
+
+test("a link to a line opens its panel and scrolls to the line", async ({ page }) => {
+  await page.goto("/Posts/CodeView#PostsController-PostsController-L76");
+  await expect(page.getByRole("button", { name: "PostsController Database Actions" })).toHaveAttribute("aria-expanded", "true");
+  const line = page.locator("#PostsController-PostsController-L76");
+  await expect(line).toContainText("if (!ModelState.IsValid)");
+  await expect(line).toBeInViewport();
+  await expect(page.getByRole("button", { name: "DetailPostDto DTO Actions" })).toHaveAttribute("aria-expanded", "false");
+});
+
+test("the GitHub links follow the configured source base URL", async ({ page }) => {
+  await page.route("**/config.json", (route) =>
+    route.fulfill({ contentType: "application/json", body: JSON.stringify({ sourceBaseUrl: "https://example.com/fork/blob/main/" }) })
+  );
+
+  await page.goto("/Tags/CodeView#TagsController");
+  await expect(page.getByRole("link", { name: "code on GitHub" })).toHaveAttribute(
+    "href",
+    "https://example.com/fork/blob/main/SampleWebApp/Controllers/TagsController.cs"
+  );
+  await expect(page.getByTestId("TagsController-TagsController-Edit").getByRole("link", { name: "view on GitHub" })).toHaveAttribute(
+    "href",
+    /^https:\/\/example\.com\/fork\/blob\/main\/SampleWebApp\/Controllers\/TagsController\.cs#L\d+-L\d+$/
+  );
+});
+
+test("every controller has a CodeView page", async ({ page }) => {
+  await page.goto("/Blogs/Index");
+  await page.getByRole("link", { name: "Explanation of the code" }).click();
+  await expect(page).toHaveURL(/\/Blogs\/CodeView$/);
+  await expect(page.getByRole("heading", { name: "Blogs: An explanation of Blogs code" })).toBeVisible();
+
+  for (const [url, panel] of [["/Home/CodeView", "DIused"], ["/PostsAsync/CodeView", "PostsController"], ["/TagsAsync/CodeView", "TagsController"]]) {
+    await page.goto(url);
+    await expect(page.getByTestId("code-view")).toBeVisible();
+    await expect(page.getByTestId(`code-panel-${panel}`)).toBeVisible();
+  }
+});
@@ -0,0 +1,33 @@
+import { test, expect, type APIRequestContext } from "@playwright/test";
+
+async function antiforgeryHeaders(request: APIRequestContext) {
+  const response = await request.get("/api/Antiforgery/Token");
+  return { RequestVerificationToken: (await response.json()).token as string };
+}
+
+for (const { controller, id, change } of [
+  { controller: "Posts", id: 1, change: { content: "Edited first." } },
+  { controller: "Tags", id: 2, change: { name: "Edited first" } },
+  { controller: "Blogs", id: 2, change: { name: "Edited first" } }
+]) {
+  test(`a ${controller} save from a stale copy is refused with the current row`, async ({ request }) => {
+    const headers = await antiforgeryHeaders(request);
+    const loaded = await (await request.get(`/api/${controller}/Edit/${id}`)).json();
+
+    const first = await request.post(`/api/${controller}/Edit/${id}`, { data: { ...loaded, ...change }, headers });
+    expect(first.ok()).toBeTruthy();
+
+    const stale = await request.post(`/api/${controller}/Edit/${id}`, { data: loaded, headers });
+    expect(stale.status()).toBe(409);
+    const body = await stale.json();
+    expect(body.error).toMatchObject({ status: 409, code: "conflict" });
+    expect(body.error.conflict).toMatchObject(change);
+    expect(body.error.conflict.lastUpdatedUtc).not.toBe(loaded.lastUpdatedUtc);
+
+    const overwrite = await request.post(`/api/${controller}/Edit/${id}`, {
+      data: { ...loaded, lastUpdatedUtc: body.error.conflict.lastUpdatedUtc },
+      headers
+    });
+    expect(overwrite.ok()).toBeTruthy();
+  });
+}
@@ -0,0 +1,54 @@
+import { test, expect } from "@playwright/test";
+
+test("opening a delete link only asks for confirmation", async ({ page }) => {
+  await page.goto("/Posts/Delete/1");
+  await expect(page.getByRole("heading", { name: "Are you sure you want to delete this?" })).toBeVisible();
+  await expect(page.getByTestId("posts-delete-form")).toBeVisible();
+
+  await page.getByRole("link", { name: "Back to List" }).click();
+  await expect(page.getByTestId("posts-grid")).toContainText("GenericServices intro");
+});
+
+test("a deleted post can be restored from the flash message", async ({ page }) => {
+  await page.goto("/Posts/Delete/1");
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Successfully deleted post");
+  await expect(page.getByTestId("posts-grid")).not.toContainText("GenericServices intro");
+
+  await page.getByTestId("temp-data-undo").click();
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Successfully restored post");
+  await expect(page.getByTestId("posts-grid")).toContainText("GenericServices intro");
+  await expect(page.getByTestId("posts-grid")).toContainText("Architecture");
+});
+
+test("the undo button is only offered until it expires", async ({ page }) => {
+  await page.goto("/Home/Index");
+  await page.evaluate(() => {
+    const expired = { controller: "Tags", id: 5, expiresAtUtc: new Date(Date.now() - 1000).toISOString() };
+    sessionStorage.setItem("SampleMvcWebApp.tempData", JSON.stringify({ message: "Successfully deleted tag", errorMessage: null, undo: expired }));
+  });
+  await page.goto("/Tags/Index");
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Successfully deleted tag");
+  await expect(page.getByTestId("temp-data-undo")).toHaveCount(0);
+});
+
+test("deleting a row that no longer exists explains what happened", async ({ page }) => {
+  await page.goto("/Tags/Delete/99");
+  await expect(page.getByText("Tag not found. It may already have been deleted.")).toBeVisible();
+  await expect(page.getByTestId("tags-delete-form")).toHaveCount(0);
+
+  await page.goto("/PostsAsync/Delete/99");
+  await expect(page.getByText("Post not found. It may already have been deleted.")).toBeVisible();
+});
+
+test("an undo is not offered on another controller's index", async ({ page }) => {
+  await page.goto("/Tags/Delete/2");
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByTestId("temp-data-undo")).toBeVisible();
+
+  await page.goto("/Tags/Delete/3");
+  await page.getByRole("button", { name: "Delete" }).click();
+  await page.goto("/Blogs/Index");
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Successfully deleted tag");
+  await expect(page.getByTestId("temp-data-undo")).toHaveCount(0);
+});
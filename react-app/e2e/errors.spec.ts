@@ -0,0 +1,51 @@
+import { test, expect } from "@playwright/test";
+
+test("a URL nothing answers shows a 404 page instead of the home page", async ({ page }) => {
+  await page.goto("/No/Such/Page");
+  await expect(page.getByTestId("layout-navbar")).toBeVisible();
+  await expect(page.getByTestId("not-found")).toHaveText("HTTP 404. Nothing on this site answers '/No/Such/Page'.");
+  await expect(page).toHaveURL(/\/No\/Such\/Page$/);
+
+  await page.getByRole("link", { name: "Back to Home" }).click();
+  await expect(page.getByTestId("home-index-inline-links")).toBeVisible();
+});
+
+test("an id that is not a number or names no row is a 404", async ({ page }) => {
+  await page.goto("/Posts/Details/abc");
+  await expect(page.getByTestId("not-found")).toHaveText("HTTP 404. 'abc' is not a valid id for Posts/Details.");
+
+  await page.goto("/Tags/Details/99");
+  await expect(page.getByRole("heading", { name: "The resource cannot be found." })).toBeVisible();
+  await expect(page.getByTestId("not-found")).toHaveText("HTTP 404. Tag not found.");
+});
+
+test("editing a row that does not exist is a 404, like its details and delete", async ({ page }) => {
+  await page.goto("/Posts/Edit/99");
+  await expect(page.getByTestId("not-found")).toHaveText("HTTP 404. Post not found.");
+  await expect(page).toHaveURL(/\/Posts\/Edit\/99$/);
+
+  await page.goto("/TagsAsync/Edit/99");
+  await expect(page.getByTestId("not-found")).toHaveText("HTTP 404. Tag not found.");
+
+  await page.goto("/Blogs/Edit/99");
+  await expect(page.getByTestId("not-found")).toHaveText("HTTP 404. Blog not found.");
+});
+
+test("a screen that crashes shows the error view with a correlation id and logs it", async ({ page }) => {
+  const logged: string[] = [];
+  page.on("console", (message) => {
+    if (message.type() === "error") logged.push(message.text());
+  });
+  await page.route("**/api/Home/Internals", (route) => route.fulfill({ contentType: "application/json", body: "null" }));
+
+  await page.goto("/Home/Internals");
+  await expect(page.getByTestId("error-screen")).toContainText("An error occurred while processing your request.");
+  await expect(page.getByTestId("layout-navbar")).toBeVisible();
+
+  const correlationId = await page.getByTestId("error-correlation-id").innerText();
+  expect(correlationId).toMatch(/^[0-9a-f]{16}$/);
+  expect(logged.some((line) => line.includes(`[${correlationId}] Home failed at /Home/Internals`))).toBeTruthy();
+
+  await page.getByRole("link", { name: "About" }).click();
+  await expect(page.getByTestId("error-screen")).toHaveCount(0);
+});
@@ -0,0 +1,60 @@
+import { test, expect } from "@playwright/test";
+
+test("sorting through the column headers is kept in the URL", async ({ page }) => {
+  await page.goto("/Tags/Index");
+  await page.getByTestId("sort-name").click();
+  await expect(page).toHaveURL(/\/Tags\/Index\?sort=name$/);
+  await expect(page.getByTestId("tags-grid").locator("tbody tr").first()).toContainText("Architecture");
+
+  await page.getByTestId("sort-name").click();
+  await expect(page).toHaveURL(/sort=name&dir=desc/);
+  await expect(page.getByTestId("tags-grid").locator("tbody tr").first()).toContainText("Validation");
+
+  await page.reload();
+  await expect(page.getByTestId("tags-grid").locator("tbody tr").first()).toContainText("Validation");
+  await expect(page.getByRole("columnheader", { name: "Name" })).toHaveAttribute("aria-sort", "descending");
+});
+
+test("the pager shows the rows on the page and clamps pages that do not exist", async ({ page }) => {
+  await page.goto("/Tags/Index?page=9&pageSize=10");
+  await expect(page.getByTestId("grid-pager")).toContainText("Showing 1-5 of 5");
+  await expect(page.getByLabel("Page size")).toHaveValue("10");
+
+  await page.getByLabel("Page size").selectOption("50");
+  await expect(page).toHaveURL(/pageSize=50/);
+  await expect(page).not.toHaveURL(/page=9/);
+});
+
+test("filters narrow the grid and can be cleared", async ({ page }) => {
+  await page.goto("/Posts/Index");
+  await page.getByLabel("Blogger").selectOption({ label: "Bob" });
+  await page.getByRole("button", { name: "Filter" }).click();
+  await expect(page).toHaveURL(/blogger=2/);
+  await expect(page.getByTestId("posts-grid").locator("tbody tr")).toHaveCount(1);
+  await expect(page.getByTestId("posts-grid")).toContainText("Validation pipeline");
+
+  await page.getByRole("link", { name: "Clear filters" }).click();
+  await expect(page.getByTestId("posts-grid").locator("tbody tr")).toHaveCount(2);
+
+  await page.goto("/Blogs/Index");
+  await page.getByLabel("Name or email contains").fill("carol");
+  await page.getByRole("button", { name: "Filter" }).click();
+  await expect(page.getByTestId("blogs-grid").locator("tbody tr")).toHaveCount(1);
+  await expect(page.getByTestId("blogs-grid")).toContainText("carol@nospam.com");
+});
+
+test("saving an edit returns to the sorted and filtered list it came from", async ({ page }) => {
+  await page.goto("/Tags/Index?search=a&sort=slug&dir=desc");
+  await page.getByTestId("tags-grid").locator("tbody tr").first().getByRole("link", { name: "Edit" }).click();
+  await expect(page).toHaveURL(/returnUrl=/);
+
+  await page.getByRole("button", { name: "Save" }).click();
+  await expect(page).toHaveURL(/\/Tags\/Index\?search=a&sort=slug&dir=desc$/);
+  await expect(page.getByTestId("tags-grid").locator("tbody tr").first()).toContainText("validation");
+});
+
+test("a returnUrl that leaves the site is ignored", async ({ page }) => {
+  await page.goto("/Tags/Edit/1?returnUrl=https%3A%2F%2Fexample.com%2F");
+  await page.getByRole("link", { name: "Back to List" }).click();
+  await expect(page).toHaveURL(/\/Tags\/Index$/);
+});
@@ -11,3 +11,14 @@ test("home routes are reachable", async ({ page }) => {
   await page.goto("/Home/Internals");
   await expect(page.getByText("InternalsInfo")).toBeVisible();
 });
+
+test("internals shows live server metrics and can stop refreshing", async ({ page }) => {
+  await page.goto("/Home/Internals?refresh=2");
+  await expect(page.getByTestId("internals-HeapMemoryUsedKbytes")).toHaveText(/^\d+/);
+  await expect(page.getByTestId("internals-server")).toContainText("EventLoopLagMs");
+  await expect(page.getByRole("img", { name: "HeapMemoryUsedKbytes history" })).toBeVisible({ timeout: 10_000 });
+  await expect(page.getByTestId("internals-browser")).toContainText("HardwareConcurrency");
+
+  await page.getByLabel("Refresh every").selectOption("Off");
+  await expect(page).toHaveURL(/\/Home\/Internals\?refresh=0$/);
+});
@@ -0,0 +1,38 @@
+import { test, expect } from "@playwright/test";
+
+test("tags are searched, picked with the keyboard and shown as removable chips", async ({ page }) => {
+  await page.goto("/Posts/Create");
+  const tags = page.getByLabel("Tags");
+
+  await tags.fill("a");
+  await expect(page.getByRole("option")).toHaveText(["Architecture", "Validation", "Async"]);
+  await tags.press("ArrowDown");
+  await tags.press("Enter");
+  await expect(page.getByRole("option", { name: "Validation" })).toHaveAttribute("aria-selected", "true");
+
+  await tags.fill("zzz");
+  await expect(page.getByRole("listbox")).toContainText('No options match "zzz"');
+
+  await tags.fill("ddd");
+  await page.getByRole("option", { name: "DDD" }).click();
+  await expect(page.getByRole("list", { name: "Chosen" })).toHaveText(/Validation.*DDD/);
+
+  await page.getByRole("button", { name: "Remove Validation" }).click();
+  await tags.fill("");
+  await tags.press("Backspace");
+  await expect(page.getByRole("list", { name: "Chosen" })).toHaveCount(0);
+});
+
+test("the chosen blogger and tags survive a save the server refuses", async ({ page }) => {
+  await page.goto("/PostsAsync/Create");
+  await page.getByLabel("Title").fill("Exciting news!");
+  await page.getByLabel("Content").fill("Some content.");
+  await page.getByLabel("Bloggers").selectOption({ label: "Carol" });
+  await page.getByLabel("Tags").fill("EF");
+  await page.getByLabel("Tags").press("Enter");
+  await page.getByRole("button", { name: "Create" }).click();
+
+  await expect(page.getByText("Sorry, but you can't get too excited and include a ! in the title.")).toBeVisible();
+  await expect(page.getByLabel("Bloggers")).toHaveValue("3");
+  await expect(page.getByRole("list", { name: "Chosen" })).toHaveText("EF ×");
+});
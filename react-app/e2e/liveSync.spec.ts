@@ -0,0 +1,55 @@
+import { test, expect } from "@playwright/test";
+
+test("a tag created in one tab shows up in the list open in another", async ({ context }) => {
+  const list = await context.newPage();
+  await list.goto("/Tags/Index");
+  await expect(list.getByTestId("tags-grid")).toBeVisible();
+
+  const editor = await context.newPage();
+  await editor.goto("/Tags/Create");
+  await editor.getByLabel("Name").fill("Live sync");
+  await editor.getByLabel("Slug").fill("livesync");
+  await editor.getByRole("button", { name: "Create" }).click();
+  await expect(editor.getByText("Successfully created tag")).toBeVisible();
+
+  await expect(list.getByTestId("tags-grid")).toContainText("livesync");
+});
+
+test("the async post count follows a delete made in another tab", async ({ context }) => {
+  const counter = await context.newPage();
+  await counter.goto("/PostsAsync/NumPosts");
+  await expect(counter.getByText("The total number of Posts is 2")).toBeVisible();
+
+  const other = await context.newPage();
+  await other.goto("/Posts/Delete/2");
+  await other.getByRole("button", { name: "Delete" }).click();
+  await expect(other.getByTestId("temp-data-messages")).toBeVisible();
+
+  await expect(counter.getByText("The total number of Posts is 1")).toBeVisible();
+});
+
+test("an edit saved in another tab is flagged and then offered as a conflict", async ({ context }) => {
+  const mine = await context.newPage();
+  await mine.goto("/Tags/Edit/2");
+  await mine.getByLabel("Name").fill("Mine");
+
+  const theirs = await context.newPage();
+  await theirs.goto("/Tags/Edit/2");
+  await theirs.getByLabel("Name").fill("Theirs");
+  await theirs.getByRole("button", { name: "Save" }).click();
+  await expect(theirs.getByTestId("tags-grid")).toContainText("Theirs");
+
+  await expect(mine.getByTestId("updated-elsewhere")).toContainText("updated elsewhere");
+  await expect(mine.getByLabel("Name")).toHaveValue("Mine");
+
+  await mine.getByRole("button", { name: "Save" }).click();
+  const conflict = mine.getByTestId("concurrency-conflict");
+  await expect(conflict).toBeVisible();
+  await expect(mine.getByTestId("conflict-name")).toContainText("Theirs");
+
+  await conflict.getByRole("button", { name: "Discard mine" }).click();
+  await expect(mine.getByLabel("Name")).toHaveValue("Theirs");
+  await expect(mine.getByTestId("updated-elsewhere")).toHaveCount(0);
+  await mine.getByRole("button", { name: "Save" }).click();
+  await expect(mine.getByText("Successfully updated tag")).toBeVisible();
+});
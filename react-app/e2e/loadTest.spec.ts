@@ -0,0 +1,35 @@
+import { test, expect } from "@playwright/test";
+
+test("the delay actions are served by the server", async ({ page, request }) => {
+  const sync = await request.get("/api/Posts/Delay");
+  expect(await sync.json()).toEqual({ delayMs: 500 });
+  const async = await request.get("/api/PostsAsync/Delay");
+  expect(await async.json()).toEqual({ delayMs: 500 });
+
+  await page.goto("/PostsAsync/Delay");
+  await expect(page.getByText("I delayed by 500 ms.")).toBeVisible();
+});
+
+test("a load test reports its results and exports them as JSON", async ({ page }) => {
+  await page.goto("/Posts/LoadTest");
+  await page.getByLabel("Target").selectOption("async");
+  await page.getByLabel("Concurrency").fill("2");
+  await page.getByLabel("DurationSeconds").fill("1");
+  await page.getByRole("button", { name: "Run load test" }).click();
+
+  const results = page.getByTestId("load-test-results");
+  await expect(results).toContainText("PostsAsync/Delay", { timeout: 10_000 });
+  await expect(results.locator("tbody tr")).toHaveCount(1);
+
+  const downloadPromise = page.waitForEvent("download");
+  await page.getByRole("button", { name: "Export JSON" }).click();
+  const download = await downloadPromise;
+  expect(download.suggestedFilename()).toMatch(/^load-test-.*\.json$/);
+});
+
+test("load test settings are validated", async ({ page }) => {
+  await page.goto("/PostsAsync/LoadTest");
+  await page.getByLabel("Concurrency").fill("0");
+  await page.getByRole("button", { name: "Run load test" }).click();
+  await expect(page.getByTestId("load-test-form")).toContainText("The field Concurrency must be between 1 and 50.");
+});
@@ -0,0 +1,75 @@
+import { test, expect } from "@playwright/test";
+
+test("a navbar dropdown opens on click and closes on a click elsewhere or Escape", async ({ page }) => {
+  await page.goto("/Home/Index");
+  const toggle = page.getByRole("button", { name: "Sync database" });
+  await expect(toggle).toHaveAttribute("aria-haspopup", "menu");
+  await expect(toggle).toHaveAttribute("aria-expanded", "false");
+
+  await toggle.click();
+  await expect(toggle).toHaveAttribute("aria-expanded", "true");
+  const menu = page.getByRole("menu", { name: "Sync database" });
+  await expect(menu.getByRole("menuitem")).toHaveText(["Posts", "Tags", "Blogs"]);
+
+  await page.getByRole("heading").first().click();
+  await expect(menu).toBeHidden();
+
+  await toggle.click();
+  await page.keyboard.press("Escape");
+  await expect(menu).toBeHidden();
+});
+
+test("the dropdown menus work from the keyboard", async ({ page }) => {
+  await page.goto("/Home/Index");
+  const toggle = page.getByRole("button", { name: "Async database" });
+  await toggle.focus();
+
+  await page.keyboard.press("ArrowDown");
+  const menu = page.getByRole("menu", { name: "Async database" });
+  await expect(menu.getByRole("menuitem", { name: "Posts" })).toBeFocused();
+  await page.keyboard.press("ArrowDown");
+  await expect(menu.getByRole("menuitem", { name: "Tags" })).toBeFocused();
+  await page.keyboard.press("ArrowDown");
+  await expect(menu.getByRole("menuitem", { name: "Posts" })).toBeFocused();
+
+  await page.keyboard.press("Escape");
+  await expect(menu).toBeHidden();
+  await expect(toggle).toBeFocused();
+
+  await page.keyboard.press("ArrowUp");
+  await expect(menu.getByRole("menuitem", { name: "Tags" })).toBeFocused();
+  await page.keyboard.press("Enter");
+  await expect(page).toHaveURL(/\/TagsAsync\/Index$/);
+});
+
+test("the active controller's dropdown and item are highlighted", async ({ page }) => {
+  await page.goto("/PostsAsync/Edit/1");
+  await expect(page.getByTestId("layout-async-dropdown")).toHaveClass(/\bactive\b/);
+  await expect(page.getByTestId("layout-sync-dropdown")).not.toHaveClass(/\bactive\b/);
+
+  await page.goto("/Blogs/Index");
+  await expect(page.getByTestId("layout-sync-dropdown")).toHaveClass(/\bactive\b/);
+  await page.getByRole("button", { name: "Sync database" }).click();
+  await expect(page.getByRole("menuitem", { name: "Blogs" })).toHaveAttribute("aria-current", "page");
+
+  await page.goto("/Home/About");
+  const navbar = page.getByTestId("layout-navbar");
+  await expect(navbar.getByRole("link", { name: "About" }).locator("..")).toHaveClass("active");
+  await expect(navbar.getByRole("link", { name: "Home" }).locator("..")).not.toHaveClass("active");
+});
+
+test("on a narrow screen the navigation collapses behind the toggle", async ({ page }) => {
+  await page.setViewportSize({ width: 400, height: 800 });
+  await page.goto("/Home/Index");
+  const toggle = page.getByRole("button", { name: "Toggle navigation" });
+  const navbar = page.getByTestId("layout-navbar");
+  await expect(navbar.getByRole("link", { name: "About" })).toBeHidden();
+
+  await toggle.click();
+  await expect(toggle).toHaveAttribute("aria-expanded", "true");
+  await navbar.getByRole("link", { name: "About" }).click();
+
+  await expect(page).toHaveURL(/\/Home\/About$/);
+  await expect(toggle).toHaveAttribute("aria-expanded", "false");
+  await expect(navbar.getByRole("link", { name: "About" })).toBeHidden();
+});
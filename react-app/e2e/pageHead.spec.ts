@@ -0,0 +1,37 @@
+import { test, expect } from "@playwright/test";
+
+test("each route titles the page the way the Razor layout does", async ({ page }) => {
+  for (const [path, title] of [
+    ["/Home/Index", "Index - SampleMvcWebApp"],
+    ["/Home/Internals", "Internals - SampleMvcWebApp"],
+    ["/Posts/Index", "Posts - SampleMvcWebApp"],
+    ["/Posts/Edit/1", "Edit - Posts - SampleMvcWebApp"],
+    ["/PostsAsync/Delay", "PostsAsync Delay - SampleMvcWebApp"],
+    ["/Tags/Create", "Create - Tags - SampleMvcWebApp"],
+    ["/No/Such/Page", "Not Found - SampleMvcWebApp"]
+  ]) {
+    await page.goto(path);
+    await expect(page).toHaveTitle(title);
+  }
+});
+
+test("details pages are titled after their row and follow in-app navigation", async ({ page }) => {
+  await page.goto("/Posts/Index");
+  await expect(page).toHaveTitle("Posts - SampleMvcWebApp");
+
+  await page.getByTestId("posts-grid").getByRole("link", { name: "Details" }).first().click();
+  await expect(page).toHaveTitle("Details: GenericServices intro - SampleMvcWebApp");
+  await expect(page.locator('link[rel="canonical"]')).toHaveAttribute("href", /\/Posts\/Details\/1$/);
+  await expect(page.locator('meta[name="description"]')).toHaveAttribute("content", /blog posts/);
+
+  await page.getByRole("link", { name: "Back to List" }).click();
+  await expect(page).toHaveTitle("Posts - SampleMvcWebApp");
+  await expect(page.locator('link[rel="canonical"]')).toHaveAttribute("href", /\/Posts\/Index$/);
+
+  await page.goto("/TagsAsync/Details/2");
+  await expect(page).toHaveTitle("Details: EF - SampleMvcWebApp");
+
+  await page.goto("/Tags/Details/99");
+  await expect(page).toHaveTitle("Not Found - SampleMvcWebApp");
+  await expect(page.locator('link[rel="canonical"]')).toHaveCount(0);
+});
@@ -8,3 +8,29 @@ test("posts index and create form render", async ({ page }) => {
   await page.goto("/Posts/Create");
   await expect(page.getByTestId("posts-form")).toBeVisible();
 });
+
+test("reset restores tags as well as posts", async ({ page }) => {
+  await page.goto("/Tags/Index");
+  await page.getByRole("row", { name: /Architecture/ }).getByRole("link", { name: "Delete" }).click();
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByText("Successfully deleted tag")).toBeVisible();
+
+  await page.getByRole("link", { name: "Posts Page" }).click();
+  await expect(page.getByTestId("posts-grid")).not.toContainText("Architecture");
+
+  await page.getByRole("link", { name: "Reset Blogs data" }).click();
+  await page.getByRole("button", { name: "Reset" }).click();
+  await expect(page.getByText("Successfully reset the blogs data")).toBeVisible();
+  await expect(page.getByTestId("posts-grid")).toContainText("Architecture");
+});
+
+test("opening the reset link only asks for confirmation", async ({ page }) => {
+  await page.goto("/Posts/Delete/1");
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByTestId("posts-grid")).not.toContainText("GenericServices intro");
+
+  await page.getByRole("link", { name: "Reset Blogs data" }).click();
+  await expect(page.getByRole("heading", { name: "Are you sure you want to reset the blogs data?" })).toBeVisible();
+  await page.getByRole("link", { name: "Back to List" }).click();
+  await expect(page.getByTestId("posts-grid")).not.toContainText("GenericServices intro");
+});
@@ -0,0 +1,36 @@
+import { test, expect } from "@playwright/test";
+
+test("posts async index shows a loading state then the grid", async ({ page }) => {
+  await page.goto("/PostsAsync/Index");
+  await expect(page.getByRole("status")).toHaveText("Loading posts...");
+  await expect(page.getByTestId("posts-top-links")).toBeVisible();
+  await expect(page.getByTestId("posts-grid")).toBeVisible();
+});
+
+test("a post created through PostsAsync is listed by Posts", async ({ page }) => {
+  await page.goto("/PostsAsync/Create");
+  await expect(page.getByTestId("posts-form")).toBeVisible();
+  await page.getByLabel("Title").fill("Async created post");
+  await page.getByLabel("Content").fill("Written through the async data path.");
+  await page.getByLabel("Bloggers").selectOption({ label: "Bob" });
+  await page.getByLabel("Tags").fill("Async");
+  await page.getByRole("option", { name: "Async" }).click();
+  await page.getByRole("button", { name: "Create" }).click();
+
+  await expect(page.getByText("Successfully created post")).toBeVisible();
+  await expect(page.getByTestId("posts-grid")).toContainText("Async created post");
+
+  await page.getByRole("link", { name: "Posts", exact: true }).click();
+  await expect(page.getByTestId("posts-grid")).toContainText("Async created post");
+});
+
+test("tags created through Tags are listed by TagsAsync", async ({ page }) => {
+  await page.goto("/Tags/Create");
+  await page.getByLabel("Name").fill("Shared tag");
+  await page.getByLabel("Slug").fill("sharedtag");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByText("Successfully created tag")).toBeVisible();
+
+  await page.getByRole("link", { name: "Tags Async" }).click();
+  await expect(page.getByTestId("tags-grid")).toContainText("sharedtag");
+});
@@ -0,0 +1,23 @@
+import { test, expect } from "@playwright/test";
+
+test("actions match case-insensitively, like RouteConfig", async ({ page }) => {
+  await page.goto("/posts/create");
+  await expect(page.getByTestId("posts-form")).toBeVisible();
+
+  await page.goto("/TAGS/edit/1");
+  await expect(page.getByLabel("Slug")).toHaveValue("architecture");
+});
+
+test("a controller without the action shows a 404 instead of the index", async ({ page }) => {
+  await page.goto("/Posts/NoSuchAction");
+  await expect(page.getByTestId("unknown-action")).toContainText("The Posts controller has no action called 'NoSuchAction'.");
+  await expect(page.getByTestId("posts-grid")).toHaveCount(0);
+
+  await page.getByRole("link", { name: "Back to Posts" }).click();
+  await expect(page.getByTestId("posts-grid")).toBeVisible();
+});
+
+test("a controller URL without an action defaults to Index", async ({ page }) => {
+  await page.goto("/Blogs");
+  await expect(page.getByTestId("blogs-grid")).toBeVisible();
+});
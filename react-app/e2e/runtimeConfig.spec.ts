@@ -0,0 +1,42 @@
+import { test, expect, type Page } from "@playwright/test";
+
+async function serveConfig(page: Page, config: unknown) {
+  await page.route("**/config.json", (route) => route.fulfill({ contentType: "application/json", body: JSON.stringify(config) }));
+}
+
+test("without a config.json the build's own settings apply", async ({ page }) => {
+  await page.goto("/Home/Internals");
+  await expect(page.getByTestId("layout-host-type")).toHaveText("Hosted on local");
+  await expect(page.getByTestId("internals-config-HostType")).toHaveText("local (default)");
+  await expect(page.getByTestId("internals-config-DisabledFeatures")).toContainText("none");
+});
+
+test("a config.json sets the host label and switches screens off", async ({ page }) => {
+  await serveConfig(page, { hostType: "Azure", asyncLatencyMs: 0, features: { blogs: false, tagsAsync: false } });
+
+  await page.goto("/Home/Internals");
+  await expect(page.getByTestId("layout-host-type")).toHaveText("Hosted on Azure");
+  await expect(page.getByTestId("internals-config-HostType")).toHaveText("Azure (config.json)");
+  await expect(page.getByTestId("internals-config-AsyncLatencyMs")).toHaveText("0 (config.json)");
+  await expect(page.getByTestId("internals-config-DisabledFeatures")).toHaveText("blogs, tagsAsync (config.json)");
+
+  await page.getByRole("button", { name: "Sync database" }).click();
+  await expect(page.getByRole("menu", { name: "Sync database" }).getByRole("menuitem")).toHaveText(["Posts", "Tags"]);
+  await page.keyboard.press("Escape");
+  await page.getByRole("button", { name: "Async database" }).click();
+  await expect(page.getByRole("menu", { name: "Async database" }).getByRole("menuitem")).toHaveText(["Posts"]);
+
+  await page.goto("/Blogs/Index");
+  await expect(page.getByTestId("not-found")).toContainText("Nothing on this site answers '/Blogs/Index'.");
+});
+
+test("settings that do not parse are ignored and listed on the Internals page", async ({ page }) => {
+  await serveConfig(page, { hostType: "WebWiz", dataSource: "sql", features: { comments: false } });
+
+  await page.goto("/Home/Internals");
+  await expect(page.getByTestId("layout-host-type")).toHaveText("Hosted on WebWiz");
+  await expect(page.getByTestId("internals-config-DataSource")).toHaveText("memory (default)");
+  const problems = page.getByTestId("internals-config-problems");
+  await expect(problems).toContainText('ignored dataSource "sql"');
+  await expect(problems).toContainText("ignored features.comments");
+});
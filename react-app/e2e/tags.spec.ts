@@ -0,0 +1,27 @@
+import { test, expect } from "@playwright/test";
+
+test("tags index and create form render", async ({ page }) => {
+  await page.goto("/Tags/Index");
+  await expect(page.getByTestId("tags-top-links")).toBeVisible();
+  await expect(page.getByTestId("tags-grid")).toBeVisible();
+
+  await page.goto("/Tags/Create");
+  await expect(page.getByTestId("tags-form")).toBeVisible();
+});
+
+test("tag slug rules are enforced before save", async ({ page }) => {
+  await page.goto("/Tags/Create");
+  await page.getByLabel("Name").fill("New tag");
+  await page.getByLabel("Slug").fill("has space");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByText("The slug must not contain spaces or non-alphanumeric characters.").first()).toBeVisible();
+
+  await page.getByLabel("Slug").fill("ef");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByText("The Slug on tag 'New tag' must be unique and is already being used.").first()).toBeVisible();
+
+  await page.getByLabel("Slug").fill("newtag");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByText("Successfully created tag")).toBeVisible();
+  await expect(page.getByTestId("tags-grid")).toContainText("newtag");
+});
@@ -0,0 +1,31 @@
+import { test, expect } from "@playwright/test";
+
+test("a TempData message is shown once by the next page", async ({ page }) => {
+  await page.goto("/Tags/Create");
+  await page.getByLabel("Name").fill("Flash");
+  await page.getByLabel("Slug").fill("flash");
+  await page.getByRole("button", { name: "Create" }).click();
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Successfully created tag");
+
+  await page.reload();
+  await expect(page.getByTestId("tags-grid")).toContainText("flash");
+  await expect(page.getByTestId("temp-data-messages")).toHaveCount(0);
+});
+
+test("a TempData message waiting for its page survives a reload", async ({ page }) => {
+  await page.goto("/Home/Index");
+  await page.evaluate(() => {
+    sessionStorage.setItem("SampleMvcWebApp.tempData", JSON.stringify({ message: "Carried over", errorMessage: null }));
+  });
+  await page.goto("/Blogs/Index");
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Carried over");
+});
+
+test("messages reach the index of the async screens after their load finishes", async ({ page }) => {
+  await page.goto("/PostsAsync/Reset");
+  await page.getByRole("button", { name: "Reset" }).click();
+  await expect(page.getByTestId("temp-data-messages")).toContainText("Successfully reset the blogs data");
+
+  await page.getByRole("button", { name: "Dismiss message" }).click();
+  await expect(page.getByTestId("temp-data-messages")).toHaveCount(0);
+});
@@ -0,0 +1,44 @@
+import { test, expect } from "@playwright/test";
+
+test("browser rules stop the post before the DTO and EF rules run", async ({ page }) => {
+  await page.goto("/Posts/Create");
+  await page.getByLabel("Title").fill("A");
+  await page.getByRole("button", { name: "Create" }).click();
+
+  await expect(page.getByText("The field Title must be a string or array type with a minimum length of '2'.")).toBeVisible();
+  await expect(page.getByText("The Content field is required.")).toBeVisible();
+  await expect(page.getByText("You must select at least one tag for the post.")).toHaveCount(0);
+  await expect(page.getByTestId("validation-summary")).toHaveCount(0);
+});
+
+test("EF property errors show by the field and top-level errors only in the summary", async ({ page }) => {
+  await page.goto("/Posts/Create");
+  await page.getByLabel("Title").fill("Exciting news!");
+  await page.getByLabel("Content").fill("The farmer counted every sheep.");
+  await page.getByLabel("Bloggers").selectOption({ label: "Alice" });
+  await page.getByLabel("Tags").fill("EF");
+  await page.getByLabel("Tags").press("Enter");
+  await page.getByRole("button", { name: "Create" }).click();
+
+  await expect(page.getByText("Sorry, but you can't get too excited and include a ! in the title.")).toBeVisible();
+  await expect(page.getByTestId("validation-summary")).toContainText("Sorry. Not allowed to end a sentance with 'sheep'.");
+  await expect(page.getByTestId("validation-summary")).not.toContainText("in the title");
+});
+
+test("HTML in a posted value is rejected by MVC request validation", async ({ page }) => {
+  await page.goto("/Tags/Create");
+  await page.getByLabel("Name").fill("<b>bold</b>");
+  await page.getByLabel("Slug").fill("bold");
+  await page.getByRole("button", { name: "Create" }).click();
+
+  await expect(page.getByTestId("validation-summary")).toContainText("A potentially dangerous Request.Form value was detected");
+});
+
+test("reference tables are generated from the same schemas as the checks", async ({ page }) => {
+  await page.goto("/Posts/Create");
+  await expect(page.getByRole("row", { name: /Must have between 2 and 128 characters in it.*Browser,MVC,EF/ })).toBeVisible();
+  await expect(page.getByRole("row", { name: /sentence ending with ' sheep\.'.*At top.*EF/ })).toBeVisible();
+
+  await page.goto("/Tags/Create");
+  await expect(page.getByRole("row", { name: /Must be unique.*SaveChanges/ })).toBeVisible();
+});
@@ -1,22 +1,40 @@
-import { Navigate, Route, Routes } from "react-router-dom";
+import type { ReactElement } from "react";
+import { Navigate, Route, Routes, useLocation } from "react-router-dom";
+import { ErrorBoundary } from "./components/shared/ErrorBoundary";
+import { type FeatureName, isFeatureEnabled } from "./lib/runtimeConfig";
+import { BlogsScreen } from "./pages/blogs/BlogsScreen";
+import { NotFoundScreen } from "./pages/errors/NotFoundScreen";
 import { HomeScreen } from "./pages/home/HomeScreen";
 import { PostsScreen } from "./pages/posts/PostsScreen";
-import { PendingScreen } from "./pages/shared/PendingScreen";
+import { PostsAsyncScreen } from "./pages/postsAsync/PostsAsyncScreen";
+import { TagsScreen } from "./pages/tags/TagsScreen";
+import { TagsAsyncScreen } from "./pages/tagsAsync/TagsAsyncScreen";
+
+/** A screen the runtime config has switched off answers like a URL nothing serves. */
+function feature(name: FeatureName, screen: ReactElement) {
+  return isFeatureEnabled(name) ? screen : <NotFoundScreen />;
+}
 
 export default function App() {
+  const location = useLocation();
+
+  // The last resort: the layout gives each screen's content its own boundary, so this one only
+  // catches what fails outside it, such as the layout itself, and shows the error without it.
   return (
-    <Routes>
-      <Route path="/" element={<Navigate to="/Home/Index" replace />} />
+    <ErrorBoundary name="App" resetKey={location.pathname} frame={(screen) => <div className="container body-content">{screen}</div>}>
+      <Routes>
+        <Route path="/" element={<Navigate to="/Home/Index" replace />} />
 
-      <Route path="/Home/*" element={<HomeScreen />} />
-      <Route path="/Posts/*" element={<PostsScreen />} />
+        <Route path="/Home/*" element={<HomeScreen />} />
+        <Route path="/Posts/*" element={feature("posts", <PostsScreen />)} />
+        <Route path="/Tags/*" element={feature("tags", <TagsScreen />)} />
+        <Route path="/Blogs/*" element={feature("blogs", <BlogsScreen />)} />
 
-      <Route path="/Tags/*" element={<PendingScreen featureLabel="Tags" />} />
-      <Route path="/Blogs/*" element={<PendingScreen featureLabel="Blogs" />} />
-      <Route path="/PostsAsync/*" element={<PendingScreen featureLabel="Posts Async" />} />
-      <Route path="/TagsAsync/*" element={<PendingScreen featureLabel="Tags Async" />} />
+        <Route path="/PostsAsync/*" element={feature("postsAsync", <PostsAsyncScreen />)} />
+        <Route path="/TagsAsync/*" element={feature("tagsAsync", <TagsAsyncScreen />)} />
 
-      <Route path="*" element={<Navigate to="/Home/Index" replace />} />
-    </Routes>
+        <Route path="*" element={<NotFoundScreen />} />
+      </Routes>
+    </ErrorBoundary>
   );
 }
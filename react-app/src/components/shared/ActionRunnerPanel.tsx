@@ -0,0 +1,106 @@
+import type { ActionRunner } from "../../hooks/useActionRunner";
+import type { ProgressMessageType } from "../../lib/actionRunner";
+
+// The bootstrap label classes ActionRunnerUi gives each message type.
+const messageTypeClassLookup: Record<ProgressMessageType, string> = {
+  Verbose: "label label-default",
+  Info: "label label-info",
+  Warning: "label label-warning",
+  Error: "label label-danger",
+  Critical: "label label-danger",
+  Cancelled: "label label-primary",
+  Finished: "label label-primary",
+  Failed: "label label-danger"
+};
+
+interface ActionRunnerPanelProps {
+  runner: ActionRunner;
+  /** Replaces the default 'Action Progress' title. */
+  header?: string;
+}
+
+/**
+ * ActionRunnerUi's modal panel: a progress bar, the action's messages and one button whose
+ * text is the runner's state. Being modal stops anything else starting while an action runs.
+ */
+export function ActionRunnerPanel({ runner, header }: ActionRunnerPanelProps) {
+  const { run, globalMessage, dismissGlobalMessage, respondToStateChangeRequest } = runner;
+
+  return (
+    <>
+      {globalMessage ? (
+        <div className="alert alert-danger" role="alert" data-testid="action-global-message">
+          {globalMessage}{" "}
+          <button type="button" className="btn btn-default btn-xs" onClick={dismissGlobalMessage}>Dismiss message</button>
+        </div>
+      ) : null}
+
+      {run ? (
+        <>
+          <div
+            id="action-panel"
+            className="modal action-panel"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="action-panel-title"
+            data-testid="action-panel"
+          >
+            <div className="modal-dialog">
+              <div className="modal-content">
+                <div className="modal-header">
+                  <h4 className="modal-title" id="action-panel-title">
+                    {run.config ? header || "Action Progress" : "Initialising..."}
+                  </h4>
+                </div>
+                <div className="modal-body">
+                  {run.config && !run.config.noProgressSent ? (
+                    <div id="progressbar" className="progress">
+                      <div
+                        className={`progress-bar ${run.numErrorMessages > 0 ? "progress-bar-danger" : "progress-bar-success"}`}
+                        role="progressbar"
+                        aria-valuenow={run.percentDone}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        style={{ width: `${run.percentDone}%` }}
+                        data-testid="action-progress"
+                      />
+                    </div>
+                  ) : (
+                    <div className="centeredImage"><p>Running ...</p></div>
+                  )}
+
+                  {run.config && !run.config.noMessagesSent ? (
+                    <div id="message-container" className="overflow-auto">
+                      <table id="messages" className="table table-condensed" data-testid="action-messages">
+                        <tbody>
+                          {run.messages.map((message, index) => (
+                            <tr key={index}>
+                              <td><span className={messageTypeClassLookup[message.messageType]}>{message.messageType}</span></td>
+                              <td>{message.messageText}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : null}
+                </div>
+                <div className="modal-footer">
+                  <button
+                    id="action-button"
+                    type="button"
+                    className="btn btn-default"
+                    onClick={respondToStateChangeRequest}
+                    data-testid="action-button"
+                  >
+                    {run.actionState}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="modal-backdrop in" />
+        </>
+      ) : null}
+    </>
+  );
+}
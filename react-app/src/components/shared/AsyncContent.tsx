@@ -0,0 +1,32 @@
+import type { ReactNode } from "react";
+import type { AsyncState } from "../../hooks/useAsyncData";
+
+interface AsyncContentProps<T> {
+  state: AsyncState<T>;
+  loadingText: string;
+  onRetry?: () => void;
+  children: (data: T) => ReactNode;
+}
+
+/** Renders the loading and error states of an async load, and the children once data has arrived. */
+export function AsyncContent<T>({ state, loadingText, onRetry, children }: AsyncContentProps<T>) {
+  if (state.status === "loading") {
+    return <p className="route-note" role="status">{loadingText}</p>;
+  }
+
+  if (state.status === "error") {
+    return (
+      <div className="text-danger" role="alert">
+        <strong>{state.message}</strong>
+        {onRetry && !state.notFound ? (
+          <>
+            {" "}
+            <button type="button" className="btn btn-default btn-xs" onClick={onRetry}>Retry</button>
+          </>
+        ) : null}
+      </div>
+    );
+  }
+
+  return <>{children(state.data)}</>;
+}
@@ -0,0 +1,120 @@
+import { type ReactNode, useEffect, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { getRuntimeConfig } from "../../lib/runtimeConfig";
+import type { SourceExcerpt } from "../../lib/sourceExcerpt";
+
+/** The URL of a legacy source file, and of a range of its lines, under the configured source base. */
+export function sourceUrl(path: string, lines?: [start: number, end: number]) {
+  const url = `${getRuntimeConfig().sourceBaseUrl}/${path}`;
+  return lines ? `${url}#L${lines[0]}-L${lines[1]}` : url;
+}
+
+/** A link to a legacy source file, like the "(see here for code on GitHub)" links in the CodeView views. */
+export function SourceLink({ path, children = "code" }: { path: string; children?: ReactNode }) {
+  return <a href={sourceUrl(path)} target="_blank" rel="noreferrer">{children}</a>;
+}
+
+interface CodeViewProps {
+  title: string;
+  /** The bold summary under the title, if the page has one. */
+  summary?: ReactNode;
+  children: ReactNode;
+}
+
+/** A CodeView page: the explanation of one controller's code, in sections with collapsible panels. */
+export function CodeView({ title, summary, children }: CodeViewProps) {
+  return (
+    <div data-testid="code-view">
+      <h2>{title}</h2>
+      {summary ? <p><strong>{summary}</strong></p> : null}
+      <p>
+        The headers contain links to the code on GitHub for you to look at.
+        For most of you the links to the code will be sufficient, but more information is available by clicking on the panel titles.
+      </p>
+      {children}
+    </div>
+  );
+}
+
+// Line anchors are named after the panel, the file and the line, e.g. "PostsController-PostsController-L52".
+function fileAnchor(panelId: string, excerpt: SourceExcerpt) {
+  const file = excerpt.path.split("/").pop()!.replace(/\.\w+$/, "");
+  return `${panelId}-${file}`;
+}
+
+/** One excerpt with a line number on every line; each number is a link to that line. */
+function SourceExcerptView({ panelId, excerpt }: { panelId: string; excerpt: SourceExcerpt }) {
+  const id = fileAnchor(panelId, excerpt);
+
+  return (
+    <figure className="source-excerpt" data-testid={`${id}-${excerpt.selection}`}>
+      <figcaption>
+        <code>{excerpt.path}</code>, lines {excerpt.startLine}-{excerpt.endLine}{" "}
+        (<a href={sourceUrl(excerpt.path, [excerpt.startLine, excerpt.endLine])} target="_blank" rel="noreferrer">view on GitHub</a>)
+      </figcaption>
+      <pre className={`source-code source-${excerpt.language}`}>
+        <code>
+          {excerpt.lines.map((tokens, index) => {
+            const lineId = `${id}-L${excerpt.startLine + index}`;
+            return (
+              <span key={lineId} id={lineId} className="source-line">
+                <a href={`#${lineId}`} className="source-line-number" aria-label={`Line ${excerpt.startLine + index}`}>
+                  {excerpt.startLine + index}
+                </a>
+                {tokens.map(([kind, text], tokenIndex) =>
+                  kind === "plain" ? text : <span key={tokenIndex} className={`source-${kind}`}>{text}</span>
+                )}
+                {"\n"}
+              </span>
+            );
+          })}
+        </code>
+      </pre>
+    </figure>
+  );
+}
+
+interface CodePanelProps {
+  /** The anchor that opens the panel, e.g. "PostsController" for `#PostsController`. */
+  id: string;
+  title: string;
+  excerpts?: SourceExcerpt[];
+  children?: ReactNode;
+}
+
+/**
+ * A titled panel that opens when its title is clicked, as bootstrap.js's collapse did in the
+ * Razor views. A link to the panel or to one of its lines opens it and scrolls to the target.
+ */
+export function CodePanel({ id, title, excerpts = [], children }: CodePanelProps) {
+  const location = useLocation();
+  const target = decodeURIComponent(location.hash.slice(1));
+  const isTarget = target === id || target.startsWith(`${id}-`);
+  const [isOpen, setIsOpen] = useState(isTarget);
+
+  useEffect(() => {
+    if (!isTarget) return;
+    setIsOpen(true);
+    // Scrolls once the panel has opened and the target has a place on the page.
+    const frame = requestAnimationFrame(() => document.getElementById(target)?.scrollIntoView({ block: "start" }));
+    return () => cancelAnimationFrame(frame);
+  }, [isTarget, target]);
+
+  return (
+    <div className="panel panel-default code-panel" data-testid={`code-panel-${id}`}>
+      <div className="panel-heading">
+        <h4 className="panel-title">
+          <button type="button" className="code-panel-toggle" aria-expanded={isOpen} aria-controls={id} onClick={() => setIsOpen(!isOpen)}>
+            <span className={`glyphicon glyphicon-chevron-${isOpen ? "down" : "right"}`} aria-hidden="true" /> {title}
+          </button>
+        </h4>
+      </div>
+      <div id={id} className={`panel-collapse collapse${isOpen ? " in" : ""}`}>
+        <div className="panel-body">
+          {children}
+          {excerpts.map((excerpt) => <SourceExcerptView key={`${excerpt.path}?${excerpt.selection}`} panelId={id} excerpt={excerpt} />)}
+        </div>
+      </div>
+    </div>
+  );
+}
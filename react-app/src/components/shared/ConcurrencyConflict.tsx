@@ -0,0 +1,121 @@
+import { useState } from "react";
+
+export interface ConflictField<T> {
+  key: keyof T & string;
+  label: string;
+  /** How to show the value, e.g. a blogger's name for their id; defaults to the text of the value. */
+  format?: (value: T[keyof T & string]) => string;
+}
+
+type Choice = "yours" | "theirs";
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Keeps a field the other user changed unless you changed it as well. */
+function defaultChoice<T>(field: ConflictField<T>, base: T, yours: T): Choice {
+  return sameValue(yours[field.key], base[field.key]) ? "theirs" : "yours";
+}
+
+interface ConcurrencyConflictProps<T> {
+  entityName: string;
+  fields: ConflictField<T>[];
+  /** The row as the form loaded it. */
+  base: T;
+  yours: T;
+  theirs: T;
+  /** Saves your values over theirs. */
+  onOverwrite: () => void;
+  /** Puts the chosen mix of values back in the form, to be checked and saved. */
+  onMerge: (merged: T) => void;
+  /** Drops your changes and carries on from their version. */
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shown when a save hits a newer version of the row: each field as you left it and as the
+ * other user saved it, with a choice per field where the two differ.
+ */
+export function ConcurrencyConflict<T>({
+  entityName,
+  fields,
+  base,
+  yours,
+  theirs,
+  onOverwrite,
+  onMerge,
+  onDiscard,
+  disabled = false
+}: ConcurrencyConflictProps<T>) {
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(fields.map((field) => [field.key, defaultChoice(field, base, yours)]))
+  );
+
+  const show = (field: ConflictField<T>, row: T) => (field.format ? field.format(row[field.key]) : String(row[field.key] ?? ""));
+  const differing = fields.filter((field) => !sameValue(yours[field.key], theirs[field.key]));
+
+  const merged = () => {
+    const result = { ...theirs };
+    differing.forEach((field) => {
+      if (choices[field.key] === "yours") result[field.key] = yours[field.key];
+    });
+    return result;
+  };
+
+  return (
+    <div className="panel panel-warning" role="alert" data-testid="concurrency-conflict">
+      <div className="panel-heading">
+        <h4 className="panel-title">Someone else has saved this {entityName} since you started editing it</h4>
+      </div>
+      <div className="panel-body">
+        <p>
+          Compare your changes with theirs. You can overwrite their version with yours, merge the two by choosing a value for
+          each field that differs, or discard your changes and continue from their version.
+        </p>
+        <table className="table table-condensed" data-testid="concurrency-diff">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Yours</th>
+              <th>Theirs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => {
+              const isDifferent = differing.includes(field);
+              return (
+                <tr key={field.key} className={isDifferent ? "warning" : undefined} data-testid={`conflict-${field.key}`}>
+                  <th scope="row">{field.label}</th>
+                  {(["yours", "theirs"] as const).map((side) => (
+                    <td key={side}>
+                      {isDifferent ? (
+                        <label className="radio-inline">
+                          <input
+                            type="radio"
+                            name={`conflict-${field.key}`}
+                            value={side}
+                            checked={choices[field.key] === side}
+                            onChange={() => setChoices((prev) => ({ ...prev, [field.key]: side }))}
+                            aria-label={`Keep ${side} ${field.label}`}
+                          />
+                          {show(field, side === "yours" ? yours : theirs)}
+                        </label>
+                      ) : (
+                        <span className="text-muted">{show(field, side === "yours" ? yours : theirs)}</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <button type="button" className="btn btn-danger" onClick={onOverwrite} disabled={disabled}>Overwrite theirs</button>{" "}
+        <button type="button" className="btn btn-primary" onClick={() => onMerge(merged())} disabled={disabled}>Merge selected</button>{" "}
+        <button type="button" className="btn btn-default" onClick={onDiscard} disabled={disabled}>Discard mine</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { flattenErrors, type ISuccessOrErrors } from "../../services/successOrErrors";
+
+export interface ConfirmFormProps {
+  testId: string;
+  listUrl: string;
+  /** The submit button's text, and its text while the command runs. */
+  submitText: string;
+  busyText: string;
+  /** Shown when the command throws rather than returning its errors. */
+  failureText: string;
+  /** Runs the command. Nothing happens until the user submits the form. */
+  onConfirm: () => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+  /** Called with a successful status, normally to redirect to the list. */
+  onConfirmed: (status: ISuccessOrErrors) => void;
+}
+
+/**
+ * The POST form under a page that asks before a destructive command, whose submit is the only
+ * thing that runs it. A refused command stays on the page with its errors, like ErrorsAsHtml.
+ */
+export function ConfirmForm({ testId, listUrl, submitText, busyText, failureText, onConfirm, onConfirmed }: ConfirmFormProps) {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  return (
+    <form
+      data-testid={testId}
+      onSubmit={async (event) => {
+        event.preventDefault();
+        if (isRunning) return;
+        setIsRunning(true);
+        try {
+          const status = await onConfirm();
+          if (status.isValid) {
+            onConfirmed(status);
+            return;
+          }
+          if (isMounted.current) setErrors(flattenErrors(status.errors));
+        } catch (error) {
+          if (isMounted.current) setErrors([error instanceof Error ? error.message : failureText]);
+        } finally {
+          if (isMounted.current) setIsRunning(false);
+        }
+      }}
+    >
+      {errors.length > 0 ? (
+        <div className="text-danger validation-summary" role="alert" data-testid="validation-summary">
+          <ul>
+            {errors.map((item) => <li key={item}><strong>{item}</strong></li>)}
+          </ul>
+        </div>
+      ) : null}
+      <div className="form-actions no-color">
+        <input type="submit" value={isRunning ? busyText : submitText} className="btn btn-default" disabled={isRunning} /> |{" "}
+        <Link to={listUrl}>Back to List</Link>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,26 @@
+import type { ISuccessOrErrors } from "../../services/successOrErrors";
+import { ConfirmForm } from "./ConfirmForm";
+
+interface DeleteConfirmFormProps {
+  testId: string;
+  listUrl: string;
+  /** Runs the delete. Nothing is deleted until the user submits the form. */
+  onDelete: () => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+  /** Called with a successful status, normally to redirect to the list. */
+  onDeleted: (status: ISuccessOrErrors) => void;
+}
+
+/** The form at the bottom of the legacy Delete views, whose submit is the only thing that deletes. */
+export function DeleteConfirmForm({ testId, listUrl, onDelete, onDeleted }: DeleteConfirmFormProps) {
+  return (
+    <ConfirmForm
+      testId={testId}
+      listUrl={listUrl}
+      submitText="Delete"
+      busyText="Deleting..."
+      failureText="The delete failed."
+      onConfirm={onDelete}
+      onConfirmed={onDeleted}
+    />
+  );
+}
@@ -0,0 +1,54 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { errorMessage, newCorrelationId, reportError } from "../../lib/errorLogger";
+import { ErrorScreen } from "./ErrorScreen";
+
+interface ErrorBoundaryProps {
+  /** Names the boundary in the error report. */
+  name: string;
+  /** A change of key clears the error, so navigating away from a broken screen recovers. */
+  resetKey?: string;
+  /** Wraps the error screen, e.g. in a bare container when the layout itself may be what failed. */
+  frame?: (content: ReactNode) => ReactNode;
+  children: ReactNode;
+}
+
+interface ErrorBoundaryState {
+  failure: { message: string; correlationId: string } | null;
+  resetKey?: string;
+}
+
+/**
+ * Catches render errors below it, like HandleErrorAttribute: shows the Error view with a
+ * correlation id and sends the error, under that id, to the error logger.
+ */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { failure: null, resetKey: this.props.resetKey };
+
+  static getDerivedStateFromError(error: unknown): Partial<ErrorBoundaryState> {
+    return { failure: { message: errorMessage(error), correlationId: newCorrelationId() } };
+  }
+
+  static getDerivedStateFromProps(props: ErrorBoundaryProps, state: ErrorBoundaryState): Partial<ErrorBoundaryState> | null {
+    return props.resetKey === state.resetKey ? null : { failure: null, resetKey: props.resetKey };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    reportError({
+      correlationId: this.state.failure?.correlationId ?? newCorrelationId(),
+      boundary: this.props.name,
+      message: errorMessage(error),
+      error,
+      componentStack: info.componentStack ?? null,
+      url: window.location.pathname + window.location.search,
+      timeUtc: new Date().toISOString()
+    });
+  }
+
+  render() {
+    const { failure } = this.state;
+    if (!failure) return this.props.children;
+
+    const screen = <ErrorScreen message={failure.message} correlationId={failure.correlationId} />;
+    return this.props.frame ? this.props.frame(screen) : screen;
+  }
+}
@@ -0,0 +1,22 @@
+import { usePageHead } from "../../hooks/usePageHead";
+
+interface ErrorScreenProps {
+  message: string;
+  correlationId: string;
+}
+
+/** Views/Shared/Error.cshtml, plus the error and the id it was logged under. */
+export function ErrorScreen({ message, correlationId }: ErrorScreenProps) {
+  usePageHead({ title: "Error" }, "status");
+
+  return (
+    <div data-testid="error-screen">
+      <h1 className="text-danger">Error.</h1>
+      <h2 className="text-danger">An error occurred while processing your request.</h2>
+      <p className="text-danger">{message}</p>
+      <p>
+        If you report this problem, quote the correlation id <code data-testid="error-correlation-id">{correlationId}</code>.
+      </p>
+    </div>
+  );
+}
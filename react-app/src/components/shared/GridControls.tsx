@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { GridPage, GridQuery } from "../../lib/gridQuery";
+
+type HrefFor<S extends string, F extends string> = (change: Partial<GridQuery<S, F>>) => string;
+
+interface SortHeaderProps<S extends string, F extends string> {
+  label: string;
+  sortKey: S;
+  query: GridQuery<S, F>;
+  hrefFor: HrefFor<S, F>;
+}
+
+/** A column header that sorts by its column, and reverses the order when it already does. */
+export function SortHeader<S extends string, F extends string>({ label, sortKey, query, hrefFor }: SortHeaderProps<S, F>) {
+  const isSorted = query.sort === sortKey;
+  const nextDirection = isSorted && query.direction === "asc" ? "desc" : "asc";
+  const ariaSort = isSorted ? (query.direction === "asc" ? "ascending" : "descending") : undefined;
+
+  return (
+    <th aria-sort={ariaSort}>
+      <Link to={hrefFor({ sort: sortKey, direction: nextDirection })} data-testid={`sort-${sortKey}`}>
+        {label}
+        {isSorted ? (
+          <>
+            {" "}
+            <span className={`glyphicon ${query.direction === "asc" ? "glyphicon-triangle-top" : "glyphicon-triangle-bottom"}`} aria-hidden="true" />
+          </>
+        ) : null}
+      </Link>
+    </th>
+  );
+}
+
+interface GridPagerProps<T, S extends string, F extends string> {
+  page: GridPage<T>;
+  query: GridQuery<S, F>;
+  pageSizes: number[];
+  hrefFor: HrefFor<S, F>;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+/** Page links, the rows shown out of the total, and the page-size selector. */
+export function GridPager<T, S extends string, F extends string>({ page, query, pageSizes, hrefFor, onPageSizeChange }: GridPagerProps<T, S, F>) {
+  const first = page.totalRows === 0 ? 0 : (page.page - 1) * query.pageSize + 1;
+  const last = Math.min(page.page * query.pageSize, page.totalRows);
+  const pages = Array.from({ length: page.pageCount }, (_, index) => index + 1);
+
+  return (
+    <div className="clearfix" data-testid="grid-pager">
+      {page.pageCount > 1 ? (
+        <nav aria-label="Pages" className="pull-left">
+          <ul className="pagination">
+            <li className={page.page === 1 ? "disabled" : undefined}>
+              {page.page === 1 ? <span aria-hidden="true">&laquo;</span> : <Link to={hrefFor({ page: page.page - 1 })} aria-label="Previous page">&laquo;</Link>}
+            </li>
+            {pages.map((number) => (
+              <li key={number} className={number === page.page ? "active" : undefined}>
+                <Link to={hrefFor({ page: number })} aria-current={number === page.page ? "page" : undefined}>{number}</Link>
+              </li>
+            ))}
+            <li className={page.page === page.pageCount ? "disabled" : undefined}>
+              {page.page === page.pageCount ? <span aria-hidden="true">&raquo;</span> : <Link to={hrefFor({ page: page.page + 1 })} aria-label="Next page">&raquo;</Link>}
+            </li>
+          </ul>
+        </nav>
+      ) : null}
+      <div className="form-inline pull-right">
+        <span className="route-note">{`Showing ${first}-${last} of ${page.totalRows}`}</span>{" "}
+        <label htmlFor="grid-page-size">Page size</label>{" "}
+        <select
+          id="grid-page-size"
+          className="form-control input-sm"
+          value={query.pageSize}
+          onChange={(event) => onPageSizeChange(Number(event.target.value))}
+        >
+          {pageSizes.map((size) => <option key={size} value={size}>{size}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+interface GridTextFilterProps {
+  id: string;
+  label: string;
+  value: string;
+  onApply: (value: string) => void;
+  clearUrl: string;
+}
+
+/** A single "contains" search box for grids that need nothing more. */
+export function GridTextFilter({ id, label, value, onApply, clearUrl }: GridTextFilterProps) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <form
+      className="form-inline"
+      data-testid={`${id}-form`}
+      onSubmit={(event) => {
+        event.preventDefault();
+        onApply(draft.trim());
+      }}
+    >
+      <label htmlFor={id}>{label}</label>{" "}
+      <input id={id} className="form-control input-sm" value={draft} onChange={(event) => setDraft(event.target.value)} />{" "}
+      <input type="submit" value="Filter" className="btn btn-default btn-sm" />
+      {value ? <>{" "}<Link to={clearUrl}>Clear filters</Link></> : null}
+    </form>
+  );
+}
@@ -0,0 +1,170 @@
+import { type KeyboardEvent, useState } from "react";
+import type { AsyncState } from "../../hooks/useAsyncData";
+import { containsText } from "../../lib/gridQuery";
+import { optionTexts, type OptionItem } from "../../services/uiClasses";
+
+interface ListTypeProps {
+  /** The id the field's label points at. */
+  id: string;
+  /** The option list from the DTO's setup data. Refresh it quietly so the list stays on screen while it reloads. */
+  options: AsyncState<OptionItem[]>;
+  onRetry?: () => void;
+  /** Shown instead of the editor when the list loaded but is empty. */
+  emptyText: string;
+}
+
+/** The loading, failed and empty states both editors show in place of their control. */
+function OptionsUnavailable({ id, options, onRetry, emptyText }: ListTypeProps) {
+  if (options.status === "loading") {
+    return <p id={id} className="form-control-static route-note" role="status">Loading options...</p>;
+  }
+  if (options.status === "error") {
+    return (
+      <div id={id} className="text-danger" role="alert">
+        <strong>{options.message}</strong>
+        {onRetry ? (
+          <>
+            {" "}
+            <button type="button" className="btn btn-default btn-xs" onClick={onRetry}>Retry</button>
+          </>
+        ) : null}
+      </div>
+    );
+  }
+  return <p id={id} className="form-control-static route-note">{emptyText}</p>;
+}
+
+interface DropDownListTypeProps extends ListTypeProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** The first, empty choice. */
+  placeholder: string;
+}
+
+/**
+ * The DropDownListType editor template: a single choice from the DTO's option list. A value
+ * the reloaded list no longer has is kept as a choice, so a failed save never silently drops it.
+ */
+export function DropDownListType({ value, onChange, placeholder, ...list }: DropDownListTypeProps) {
+  if (list.options.status !== "success" || list.options.data.length === 0) return <OptionsUnavailable {...list} />;
+
+  const items = list.options.data;
+  const isMissing = value !== "" && !items.some((item) => item.value === value);
+
+  return (
+    <select id={list.id} className="form-control" value={value} onChange={(event) => onChange(event.target.value)}>
+      <option value="">{placeholder}</option>
+      {isMissing ? <option value={value}>{value} (no longer available)</option> : null}
+      {items.map((item) => <option key={item.value} value={item.value}>{item.text}</option>)}
+    </select>
+  );
+}
+
+interface MultiSelectListTypeProps extends ListTypeProps {
+  value: string[];
+  onChange: (values: string[]) => void;
+  /** Shown in the search box. */
+  placeholder: string;
+}
+
+/**
+ * The MultiSelectListType editor template as a searchable list: typing filters the options,
+ * the arrow keys and Enter pick them, and the choices show as chips that can be removed.
+ * Backspace in an empty search box removes the last chip.
+ */
+export function MultiSelectListType({ value, onChange, placeholder, ...list }: MultiSelectListTypeProps) {
+  const [search, setSearch] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  if (list.options.status !== "success" || list.options.data.length === 0) return <OptionsUnavailable {...list} />;
+
+  const items = list.options.data;
+  const matches = items.filter((item) => containsText(item.text, search));
+  const active = isOpen ? matches[Math.min(activeIndex, matches.length - 1)] : undefined;
+  const listId = `${list.id}-options`;
+  const optionId = (item: OptionItem) => `${list.id}-option-${item.value}`;
+  const texts = optionTexts(items, value);
+  const chips = value.map((chosen, index) => ({ value: chosen, text: texts[index] }));
+
+  const toggle = (chosen: string) => onChange(value.includes(chosen) ? value.filter((item) => item !== chosen) : [...value, chosen]);
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(isOpen ? Math.max(0, Math.min(matches.length - 1, activeIndex + step)) : 0);
+      setIsOpen(true);
+    } else if (event.key === "Enter" && active) {
+      // Enter picks the option instead of submitting the form.
+      event.preventDefault();
+      toggle(active.value);
+    } else if (event.key === "Escape" && isOpen) {
+      event.preventDefault();
+      setIsOpen(false);
+    } else if (event.key === "Backspace" && search === "" && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="multi-select-list">
+      {chips.length > 0 ? (
+        <ul className="list-inline multi-select-chips" aria-label="Chosen">
+          {chips.map((chip) => (
+            <li key={chip.value}>
+              <span className="label label-primary">
+                {chip.text}{" "}
+                <button type="button" className="multi-select-remove" aria-label={`Remove ${chip.text}`} onClick={() => toggle(chip.value)}>
+                  &times;
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <input
+        id={list.id}
+        type="text"
+        className="form-control"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        aria-activedescendant={active ? optionId(active) : undefined}
+        placeholder={placeholder}
+        value={search}
+        onChange={(event) => {
+          setSearch(event.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={onKeyDown}
+      />
+      {isOpen ? (
+        <ul id={listId} className="list-group multi-select-options" role="listbox" aria-multiselectable="true">
+          {matches.length === 0 ? <li className="list-group-item route-note" role="presentation">No options match &quot;{search}&quot;</li> : null}
+          {matches.map((item) => (
+            <li
+              key={item.value}
+              id={optionId(item)}
+              role="option"
+              aria-selected={value.includes(item.value)}
+              className={`list-group-item${item === active ? " active" : ""}`}
+              // Mouse down, not click, so the search box keeps the focus and the list stays open.
+              onMouseDown={(event) => {
+                event.preventDefault();
+                toggle(item.value);
+              }}
+            >
+              <span className={`glyphicon ${value.includes(item.value) ? "glyphicon-check" : "glyphicon-unchecked"}`} aria-hidden="true" /> {item.text}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
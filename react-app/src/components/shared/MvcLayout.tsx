@@ -1,79 +1,95 @@
-import type { PropsWithChildren, ReactNode } from "react";
+import { type PropsWithChildren, type ReactNode, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { actionUrl, type ControllerName } from "../../lib/mvcRoutes";
+import { type FeatureName, getRuntimeConfig, isFeatureEnabled } from "../../lib/runtimeConfig";
+import { ErrorBoundary } from "./ErrorBoundary";
+import { NavDropdown, type NavMenuItem } from "./NavDropdown";
 
 interface MvcLayoutProps {
-  footerHostType?: string;
   lead?: ReactNode;
 }
 
-function isActive(pathname: string, prefix: string) {
-  return pathname.startsWith(prefix);
+/**
+ * True when the path is on the controller, and on the action if one is given. Compares whole
+ * segments, case-insensitively like the routes, so "/PostsAsync" is not taken for "/Posts".
+ */
+function isActive(pathname: string, controller: ControllerName, action?: string) {
+  const [current = "", currentAction = "Index"] = pathname.split("/").filter(Boolean);
+  return current.toLowerCase() === controller.toLowerCase() && (!action || currentAction.toLowerCase() === action.toLowerCase());
 }
 
-export function MvcLayout({ lead, footerHostType = "local" , children }: PropsWithChildren<MvcLayoutProps>) {
+export function MvcLayout({ lead, children }: PropsWithChildren<MvcLayoutProps>) {
   const location = useLocation();
+  // The collapsed menu stays open only on the page it was opened on, so following a link closes it.
+  const [expandedAt, setExpandedAt] = useState<string | null>(null);
+  const isExpanded = expandedAt === location.key;
+  const { pathname } = location;
+
+  const { hostType } = getRuntimeConfig();
+
+  // Screens the runtime config has switched off are left out of the menus.
+  const menuItems = (...items: Array<[text: string, controller: ControllerName, feature: FeatureName]>): NavMenuItem[] =>
+    items
+      .filter(([, , feature]) => isFeatureEnabled(feature))
+      .map(([text, controller]) => ({ text, to: actionUrl(controller, "Index"), isActive: isActive(pathname, controller) }));
+  const syncItems = menuItems(["Posts", "Posts", "posts"], ["Tags", "Tags", "tags"]);
+  const blogItems = menuItems(["Blogs", "Blogs", "blogs"]).map((item) => ({ ...item, dividerBefore: syncItems.length > 0 }));
+  const asyncItems = menuItems(["Posts", "PostsAsync", "postsAsync"], ["Tags", "TagsAsync", "tagsAsync"]);
 
   return (
     <>
-      <div className="navbar navbar-inverse navbar-fixed-top" data-testid="layout-navbar">
+      <nav className="navbar navbar-inverse navbar-fixed-top" aria-label="Main" data-testid="layout-navbar">
         <div className="container">
           <div className="navbar-header">
-            <button type="button" className="navbar-toggle" aria-label="Toggle navigation">
+            <button
+              type="button"
+              className="navbar-toggle"
+              aria-label="Toggle navigation"
+              aria-expanded={isExpanded}
+              aria-controls="layout-navbar-collapse"
+              onClick={() => setExpandedAt(isExpanded ? null : location.key)}
+            >
               <span className="icon-bar" />
               <span className="icon-bar" />
               <span className="icon-bar" />
             </button>
           </div>
 
-          <div className="navbar-collapse collapse">
+          <div id="layout-navbar-collapse" className={`navbar-collapse collapse${isExpanded ? " in" : ""}`}>
             <ul className="nav navbar-nav">
-              <li className={isActive(location.pathname, "/Home") ? "active" : ""}>
-                <Link to="/Home/Index">Home</Link>
+              <li className={isActive(pathname, "Home") && !isActive(pathname, "Home", "About") && !isActive(pathname, "Home", "Contact") ? "active" : ""}>
+                <Link to={actionUrl("Home", "Index")}>Home</Link>
               </li>
 
-              <li className="dropdown" data-testid="layout-sync-dropdown">
-                <a href="#" className="dropdown-toggle" onClick={(e) => e.preventDefault()}>
-                  Sync database <span className="caret" />
-                </a>
-                <ul className="dropdown-menu" role="menu">
-                  <li><Link to="/Posts/Index">Posts</Link></li>
-                  <li><Link to="/Tags/Index">Tags</Link></li>
-                  <li className="divider" />
-                  <li><Link to="/Blogs/Index">Blogs</Link></li>
-                </ul>
-              </li>
+              {syncItems.length + blogItems.length > 0 ? (
+                <NavDropdown text="Sync database" testId="layout-sync-dropdown" items={[...syncItems, ...blogItems]} />
+              ) : null}
 
-              <li className="dropdown" data-testid="layout-async-dropdown">
-                <a href="#" className="dropdown-toggle" onClick={(e) => e.preventDefault()}>
-                  Async database <span className="caret" />
-                </a>
-                <ul className="dropdown-menu" role="menu">
-                  <li><Link to="/PostsAsync/Index">Posts</Link></li>
-                  <li><Link to="/TagsAsync/Index">Tags</Link></li>
-                </ul>
-              </li>
+              {asyncItems.length > 0 ? <NavDropdown text="Async database" testId="layout-async-dropdown" items={asyncItems} /> : null}
 
-              <li className={isActive(location.pathname, "/Home/About") ? "active" : ""}>
-                <Link to="/Home/About">About</Link>
+              <li className={isActive(pathname, "Home", "About") ? "active" : ""}>
+                <Link to={actionUrl("Home", "About")}>About</Link>
               </li>
-              <li className={isActive(location.pathname, "/Home/Contact") ? "active" : ""}>
-                <Link to="/Home/Contact">Contact</Link>
+              <li className={isActive(pathname, "Home", "Contact") ? "active" : ""}>
+                <Link to={actionUrl("Home", "Contact")}>Contact</Link>
               </li>
             </ul>
           </div>
         </div>
-      </div>
+      </nav>
 
       <div className="container body-content">
-        {lead}
-        {children}
+        <ErrorBoundary name={pathname.split("/")[1] || "Home"} resetKey={pathname + location.search}>
+          {lead}
+          {children}
+        </ErrorBoundary>
         <hr />
         <footer className="small text-muted">
           <span>
             An open source project under the <a href="http://opensource.org/licenses/MIT" target="_blank" rel="noreferrer">MIT licence</a>,
             created by <a href="http://www.thereformedprogrammer.net/about-me/" target="_blank" rel="noreferrer">Jon Smith</a>.
           </span>
-          <span className="pull-right">Hosted on {footerHostType}</span>
+          <span className="pull-right" data-testid="layout-host-type">Hosted on {hostType}</span>
         </footer>
       </div>
     </>
@@ -0,0 +1,129 @@
+import { type KeyboardEvent, type MouseEvent, useEffect, useId, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+
+export interface NavMenuItem {
+  text: string;
+  to: string;
+  isActive: boolean;
+  /** Draws a divider above the item. */
+  dividerBefore?: boolean;
+}
+
+interface NavDropdownProps {
+  text: string;
+  items: NavMenuItem[];
+  testId: string;
+}
+
+/**
+ * A navbar dropdown with the behaviour bootstrap.js gave the Razor layout, plus the keyboard
+ * support of a menu button: the arrow keys open it and move through the items, Escape closes it
+ * and returns to the toggle, and a click anywhere else closes it.
+ */
+export function NavDropdown({ text, items, testId }: NavDropdownProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const rootRef = useRef<HTMLLIElement>(null);
+  const toggleRef = useRef<HTMLAnchorElement>(null);
+  const menuId = useId();
+  const toggleId = `${menuId}toggle`;
+  const isActive = items.some((item) => item.isActive);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onMouseDown = (event: globalThis.MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", onMouseDown);
+    return () => document.removeEventListener("mousedown", onMouseDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || focusIndex === null) return;
+    rootRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]')[focusIndex]?.focus();
+  }, [isOpen, focusIndex]);
+
+  const open = (index: number | null) => {
+    setIsOpen(true);
+    setFocusIndex(index);
+  };
+
+  const close = (returnFocus: boolean) => {
+    setIsOpen(false);
+    setFocusIndex(null);
+    if (returnFocus) toggleRef.current?.focus();
+  };
+
+  const onToggleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault();
+    if (isOpen) close(false);
+    else open(null);
+  };
+
+  const onToggleKeyDown = (event: KeyboardEvent<HTMLAnchorElement>) => {
+    if (event.key === "ArrowDown" || event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      open(0);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      open(items.length - 1);
+    } else if (event.key === "Escape" && isOpen) {
+      event.preventDefault();
+      close(true);
+    }
+  };
+
+  const onMenuKeyDown = (event: KeyboardEvent<HTMLUListElement>) => {
+    const current = focusIndex ?? -1;
+    const moves: Record<string, number> = {
+      ArrowDown: (current + 1) % items.length,
+      ArrowUp: (current - 1 + items.length) % items.length,
+      Home: 0,
+      End: items.length - 1
+    };
+    if (event.key in moves) {
+      event.preventDefault();
+      setFocusIndex(moves[event.key]);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close(true);
+    } else if (event.key === "Tab") {
+      close(false);
+    }
+  };
+
+  return (
+    <li ref={rootRef} className={`dropdown${isOpen ? " open" : ""}${isActive ? " active" : ""}`} data-testid={testId}>
+      <a
+        ref={toggleRef}
+        id={toggleId}
+        href="#"
+        className="dropdown-toggle"
+        role="button"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={menuId}
+        onClick={onToggleClick}
+        onKeyDown={onToggleKeyDown}
+      >
+        {text} <span className="caret" aria-hidden="true" />
+      </a>
+      <ul id={menuId} className="dropdown-menu" role="menu" aria-labelledby={toggleId} onKeyDown={onMenuKeyDown}>
+        {items.map((item) => [
+          item.dividerBefore ? <li key={`${item.to}-divider`} className="divider" role="separator" /> : null,
+          <li key={item.to} className={item.isActive ? "active" : ""} role="none">
+            <Link
+              to={item.to}
+              role="menuitem"
+              tabIndex={-1}
+              aria-current={item.isActive ? "page" : undefined}
+              onClick={() => close(false)}
+            >
+              {item.text}
+            </Link>
+          </li>
+        ])}
+      </ul>
+    </li>
+  );
+}
@@ -0,0 +1,44 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { usePageHead } from "../../hooks/usePageHead";
+import { actionUrl, type ControllerName, type MvcRoute } from "../../lib/mvcRoutes";
+
+interface NotFoundProps {
+  /** Follows "HTTP 404." and says what was not found. */
+  children: ReactNode;
+  backUrl: string;
+  backText: string;
+  testId?: string;
+}
+
+/** The 404 page MVC shows, for a URL nothing answers or a row that does not exist. */
+export function NotFound({ children, backUrl, backText, testId = "not-found" }: NotFoundProps) {
+  usePageHead({ title: "Not Found" }, "status");
+
+  return (
+    <>
+      <h2>The resource cannot be found.</h2>
+      <p className="text-danger" data-testid={testId}>
+        HTTP 404. {children}
+      </p>
+      <p><Link to={backUrl}>{backText}</Link></p>
+    </>
+  );
+}
+
+/** The 404 for a controller URL that names no action, or an id that is not a number. */
+export function RouteNotFound<C extends ControllerName>({ route }: { route: Exclude<MvcRoute<C>, { kind: "action" }> }) {
+  const backUrl = actionUrl(route.controller, "Index");
+  if (route.kind === "bad-id") {
+    return (
+      <NotFound backUrl={backUrl} backText={`Back to ${route.controller}`}>
+        &apos;{route.id}&apos; is not a valid id for {route.controller}/{route.action}.
+      </NotFound>
+    );
+  }
+  return (
+    <NotFound backUrl={backUrl} backText={`Back to ${route.controller}`} testId="unknown-action">
+      The {route.controller} controller has no action called &apos;{route.action}&apos;.
+    </NotFound>
+  );
+}
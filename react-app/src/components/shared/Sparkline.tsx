@@ -0,0 +1,23 @@
+interface SparklineProps {
+  values: number[];
+  /** Read out in place of the chart, e.g. "HeapMemoryUsedKbytes history". */
+  label: string;
+  width?: number;
+  height?: number;
+}
+
+/** A small line of recent values, scaled between their own minimum and maximum. */
+export function Sparkline({ values, label, width = 120, height = 24 }: SparklineProps) {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - 1 - ((value - min) / range) * (height - 2)).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg className="sparkline" width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label={label}>
+      {values.length > 1 ? <polyline points={points} /> : null}
+    </svg>
+  );
+}
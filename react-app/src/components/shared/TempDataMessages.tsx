@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { tempData, type TempDataEntry } from "../../lib/tempData";
+import type { ISuccessOrErrors } from "../../services/successOrErrors";
+
+/** How an index page puts back a row deleted through its controller. */
+export interface UndoDeleteHandler {
+  controller: string;
+  run: (id: number) => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+}
+
+interface TempDataMessagesProps {
+  /** A message set by the action that rendered this page, like Posts/Index's "Filtered list". */
+  message?: string | null;
+  undoDelete?: UndoDeleteHandler;
+}
+
+/**
+ * The `@if (TempData["message"] != null)` block at the top of every legacy index view. The
+ * entry is taken on mount, or as soon as one is set while mounted, so it is shown exactly once.
+ */
+export function TempDataMessages({ message: actionMessage = null, undoDelete }: TempDataMessagesProps) {
+  const [entry, setEntry] = useState<TempDataEntry | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const [undoExpired, setUndoExpired] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  useEffect(() => {
+    const read = () => {
+      const next = tempData.take();
+      if (!next) return;
+      setEntry(next);
+      setDismissed(false);
+    };
+    read();
+    return tempData.subscribe(read);
+  }, []);
+
+  const undo = entry?.undo && undoDelete && entry.undo.controller === undoDelete.controller ? entry.undo : null;
+
+  useEffect(() => {
+    setUndoExpired(false);
+    if (!undo) return;
+    const timer = window.setTimeout(() => setUndoExpired(true), Math.max(0, Date.parse(undo.expiresAtUtc) - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [undo]);
+
+  const runUndo = async () => {
+    if (!undo || !undoDelete) return;
+    setIsUndoing(true);
+    try {
+      // The outcome replaces this entry, which the subscription above picks up straight away.
+      tempData.setFromStatus(await undoDelete.run(undo.id));
+    } catch (error) {
+      tempData.setErrorMessage(error instanceof Error ? error.message : "The undo failed.");
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  const message = entry?.message ?? actionMessage;
+  const errorMessage = entry?.errorMessage ?? null;
+  if (dismissed || (!message && !errorMessage)) return null;
+
+  return (
+    <div data-testid="temp-data-messages">
+      {message ? (
+        <div className="text-success">
+          {message}
+          {undo && !undoExpired ? (
+            <>
+              {" "}
+              <button type="button" className="btn btn-default btn-xs" onClick={runUndo} disabled={isUndoing} data-testid="temp-data-undo">
+                {isUndoing ? "Undoing..." : "Undo"}
+              </button>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+      {message ? <br /> : null}
+      {errorMessage && errorMessage.length === 1 ? (
+        <div className="text-danger"><strong>{errorMessage[0]}</strong></div>
+      ) : null}
+      {errorMessage && errorMessage.length > 1 ? (
+        <div className="text-danger">
+          <ul>
+            {errorMessage.map((item) => <li key={item}><strong>{item}</strong></li>)}
+          </ul>
+        </div>
+      ) : null}
+      <p>
+        <button type="button" className="btn btn-default btn-xs" onClick={() => setDismissed(true)}>
+          Dismiss message
+        </button>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useState } from "react";
+import { affectsRow, type DataEntity } from "../../data/dataChanges";
+import { useDataChanges } from "../../hooks/useDataChanges";
+
+interface UpdatedElsewhereNoticeProps {
+  entity: DataEntity;
+  id: number;
+}
+
+/**
+ * A quiet line on an edit form once the row has been saved or deleted in another tab or by
+ * someone else. The form keeps the user's edits; the conflict check deals with them on save.
+ * Key it on the row's LastUpdated so it clears when the form takes on the newer version.
+ */
+export function UpdatedElsewhereNotice({ entity, id }: UpdatedElsewhereNoticeProps) {
+  const [change, setChange] = useState<"update" | "delete" | null>(null);
+
+  useDataChanges((changes) => {
+    if (!affectsRow(changes, entity, id)) return;
+    const deleted = changes.some((item) => item.kind === "delete" && item.entity === entity && item.id === id);
+    setChange(deleted ? "delete" : "update");
+  });
+
+  if (!change) return null;
+
+  return (
+    <p className="text-info" role="status" data-testid="updated-elsewhere">
+      <small>
+        <span className="glyphicon glyphicon-refresh" aria-hidden="true" />{" "}
+        {change === "delete"
+          ? `This ${entity} has been deleted elsewhere since you opened it.`
+          : `This ${entity} has been updated elsewhere since you opened it. Saving will let you compare your changes with theirs.`}
+      </small>
+    </p>
+  );
+}
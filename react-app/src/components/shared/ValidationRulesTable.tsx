@@ -0,0 +1,51 @@
+import type { ValidationRuleRow, WhereChecked } from "../../validation/referenceRules";
+
+const whereCheckedTerms: Record<WhereChecked, string> = {
+  Browser: "in browser using javascript validation library",
+  MVC: "by statement if (!ModelState.IsValid) in Controller actions",
+  DTO: "by the code inside the DetailPostDto class",
+  EF: "by Entity Framework validation phase",
+  SaveChanges: "Special validaton code added to EF's SaveChanges"
+};
+
+/** One legacy "Validation rules" table, rendered from rows generated off the validation schemas. */
+export function ValidationRulesTable({ rows }: { rows: ValidationRuleRow[] }) {
+  return (
+    <table className="table">
+      <thead>
+        <tr>
+          <th>Property</th>
+          <th>Validation rule</th>
+          <th>Where shown?</th>
+          <th>Where Checked*</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={`${row.property}|${row.rule}`}>
+            <td>{row.property}</td>
+            <td>{row.rule}</td>
+            <td>{row.shown}</td>
+            <td>{row.checked.join(",")}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/** The footnote explaining each 'Where Checked' term used by the tables above it. */
+export function WhereCheckedNotes({ rows }: { rows: ValidationRuleRow[] }) {
+  const used = (Object.keys(whereCheckedTerms) as WhereChecked[]).filter((term) =>
+    rows.some((row) => row.checked.includes(term))
+  );
+
+  return (
+    <>
+      <p>Note*: The &apos;Where Checked&apos; terms are</p>
+      <ul>
+        {used.map((term) => <li key={term}>{term}: {whereCheckedTerms[term]}</li>)}
+      </ul>
+    </>
+  );
+}
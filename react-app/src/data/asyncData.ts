@@ -0,0 +1,57 @@
+import { getRuntimeConfig } from "../lib/runtimeConfig";
+import { errorsAsText, type ISuccessOrErrorsWithResult } from "../services/successOrErrors";
+
+/** Raised by the async data path; `notFound` lets screens tell a missing row from a failed call. */
+export class DataAccessError extends Error {
+  readonly notFound: boolean;
+
+  constructor(message: string, notFound = false) {
+    super(message);
+    this.name = "DataAccessError";
+    this.notFound = notFound;
+  }
+}
+
+function abortError() {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** Resolves after `ms`, rejecting with an AbortError if the signal fires first. */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `work` against the shared store after the configured latency, so the async
+ * services see the same records as the sync ones but never return them synchronously.
+ */
+export async function withLatency<T>(work: () => T, signal?: AbortSignal): Promise<T> {
+  await wait(getRuntimeConfig().asyncLatencyMs, signal);
+  return work();
+}
+
+/** Unwraps a detail result for `useAsyncData`, turning an invalid status into a not-found error. */
+export function requireResult<T>(status: ISuccessOrErrorsWithResult<T>): T {
+  if (!status.isValid || status.result === null) {
+    throw new DataAccessError(errorsAsText(status), true);
+  }
+  return status.result;
+}
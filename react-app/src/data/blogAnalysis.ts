@@ -0,0 +1,66 @@
+import type { BlogRow } from "./blogs";
+import type { DatabaseState } from "./database";
+
+export interface TagUsage {
+  name: string;
+  count: number;
+}
+
+export interface BlogAnalysis {
+  blogId: number;
+  name: string;
+  numPosts: number;
+  totalWords: number;
+  averageWordsPerPost: number;
+  longestPostTitle: string | null;
+  firstUpdatedUtc: string | null;
+  lastUpdatedUtc: string | null;
+  tagUsage: TagUsage[];
+}
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Business method behind the Blogs "Analyse" action: summarises one blogger's posts.
+ * Kept free of UI concerns so it can run wherever the post data lives.
+ */
+export function analyseBlog(blog: BlogRow, db: DatabaseState): BlogAnalysis {
+  const posts = db.posts.filter((post) => post.blogId === blog.blogId);
+  const wordCounts = posts.map((post) => countWords(post.content));
+  const totalWords = wordCounts.reduce((sum, value) => sum + value, 0);
+
+  let longestPostTitle: string | null = null;
+  let longestWords = -1;
+  posts.forEach((post, index) => {
+    if (wordCounts[index] > longestWords) {
+      longestWords = wordCounts[index];
+      longestPostTitle = post.title;
+    }
+  });
+
+  const tagNames = new Map(db.tags.map((tag) => [tag.tagId, tag.name]));
+  const postIds = new Set(posts.map((post) => post.postId));
+  const tagCounts = new Map<string, number>();
+  db.postTags.forEach((link) => {
+    const name = tagNames.get(link.tagId);
+    if (!postIds.has(link.postId) || name === undefined) return;
+    tagCounts.set(name, (tagCounts.get(name) ?? 0) + 1);
+  });
+
+  const updates = posts.map((post) => post.lastUpdatedUtc).sort();
+
+  return {
+    blogId: blog.blogId,
+    name: blog.name,
+    numPosts: posts.length,
+    totalWords,
+    averageWordsPerPost: posts.length ? Math.round(totalWords / posts.length) : 0,
+    longestPostTitle,
+    firstUpdatedUtc: updates[0] ?? null,
+    lastUpdatedUtc: updates[updates.length - 1] ?? null,
+    tagUsage: Array.from(tagCounts, ([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+  };
+}
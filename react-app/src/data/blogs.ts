@@ -0,0 +1,21 @@
+import type { DatabaseState } from "./database";
+import type { TrackUpdate } from "./trackUpdate";
+
+/** Like TagRow, this carries TrackUpdate's LastUpdated so edits can detect conflicts. */
+export interface BlogRow extends TrackUpdate {
+  blogId: number;
+  name: string;
+  emailAddress: string;
+}
+
+/** Mirrors ServiceLayer.BlogServices.BlogListDto. */
+export interface BlogListDto extends BlogRow {
+  postsCount: number;
+}
+
+export function toBlogListDtos(db: DatabaseState): BlogListDto[] {
+  return db.blogs.map((blog) => ({
+    ...blog,
+    postsCount: db.posts.filter((post) => post.blogId === blog.blogId).length
+  }));
+}
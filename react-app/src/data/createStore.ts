@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from "react";
+
+type Listener = () => void;
+
+export interface Store<T> {
+  getState: () => T;
+  setState: (updater: (prev: T) => T) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+/**
+ * Minimal external store so feature data outlives the screen that renders it.
+ * Screens read through `useStore`; mutations go through `setState`.
+ */
+export function createStore<T>(initialState: T): Store<T> {
+  let state = initialState;
+  const listeners = new Set<Listener>();
+
+  return {
+    getState: () => state,
+    setState: (updater) => {
+      const next = updater(state);
+      if (Object.is(next, state)) return;
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+export function useStore<T>(store: Store<T>): T {
+  return useSyncExternalStore(store.subscribe, store.getState);
+}
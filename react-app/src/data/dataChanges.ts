@@ -0,0 +1,54 @@
+import type { Store } from "./createStore";
+import type { DatabaseState } from "./database";
+
+export type DataEntity = "post" | "tag" | "blog";
+
+/** One write as other tabs hear about it. A reset replaces every table, so it names no row. */
+export type DataChange =
+  | { kind: "create" | "update" | "delete"; entity: DataEntity; id: number }
+  | { kind: "reset" };
+
+export type DataChangeListener = (changes: DataChange[]) => void;
+
+function diffTable<T extends { lastUpdatedUtc: string }>(entity: DataEntity, before: T[], after: T[], getId: (row: T) => number) {
+  const changes: DataChange[] = [];
+  const previous = new Map(before.map((row) => [getId(row), row]));
+  after.forEach((row) => {
+    const old = previous.get(getId(row));
+    previous.delete(getId(row));
+    if (!old) changes.push({ kind: "create", entity, id: getId(row) });
+    else if (old.lastUpdatedUtc !== row.lastUpdatedUtc) changes.push({ kind: "update", entity, id: getId(row) });
+  });
+  previous.forEach((_row, id) => changes.push({ kind: "delete", entity, id }));
+  return changes;
+}
+
+/**
+ * Works out what a write did from the data before and after it. Every save moves the row's
+ * LastUpdated, so that is all an update needs to be seen; a reset counts itself in the data,
+ * which is how it is told apart from a batch of edits.
+ */
+export function describeChanges(before: DatabaseState, after: DatabaseState): DataChange[] {
+  if (after.resetCount !== before.resetCount) return [{ kind: "reset" }];
+  return [
+    ...diffTable("post", before.posts, after.posts, (row) => row.postId),
+    ...diffTable("tag", before.tags, after.tags, (row) => row.tagId),
+    ...diffTable("blog", before.blogs, after.blogs, (row) => row.blogId)
+  ];
+}
+
+/** Calls `listener` with the changes of every write to the store that changed a row. */
+export function watchChanges(store: Pick<Store<DatabaseState>, "getState" | "subscribe">, listener: DataChangeListener) {
+  let previous = store.getState();
+  return store.subscribe(() => {
+    const next = store.getState();
+    const changes = describeChanges(previous, next);
+    previous = next;
+    if (changes.length > 0) listener(changes);
+  });
+}
+
+/** True when the changes touch the row, including a reset, which touches them all. */
+export function affectsRow(changes: DataChange[], entity: DataEntity, id: number) {
+  return changes.some((change) => change.kind === "reset" || (change.entity === entity && change.id === id));
+}
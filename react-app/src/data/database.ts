@@ -0,0 +1,159 @@
+import type { BlogRow } from "./blogs";
+import { createStore, type Store } from "./createStore";
+import type { Post } from "./posts";
+import type { TagRow } from "./tags";
+
+/** The many-to-many join between posts and tags, like EF's generated PostTag table. */
+export interface PostTagLink {
+  postId: number;
+  tagId: number;
+}
+
+/** The tables whose key is an identity column. */
+export type IdentityTable = "blogs" | "posts" | "tags";
+
+/** Mirrors DataLayer.DataClasses.SampleWebAppDb: one table per entity plus the post-tag link table. */
+export interface DatabaseState {
+  blogs: BlogRow[];
+  posts: Post[];
+  tags: TagRow[];
+  postTags: PostTagLink[];
+  /**
+   * The last id each identity column handed out. Like SQL Server's identity, it only goes up, so
+   * a deleted row's id is never reused and undoing the delete cannot collide with a newer row.
+   */
+  lastIds: Record<IdentityTable, number>;
+  /**
+   * How many times the data has been reset. A reset is told apart from a batch of edits by this
+   * changing, which still works once the data has been copied to another tab or sent as JSON.
+   */
+  resetCount: number;
+}
+
+/** Saved by an older build, before the counters existed. */
+type SavedDatabaseState = Omit<DatabaseState, "lastIds" | "resetCount"> & Partial<Pick<DatabaseState, "lastIds" | "resetCount">>;
+
+export const initialDatabase: DatabaseState = {
+  blogs: [
+    { blogId: 1, name: "Alice", emailAddress: "alice@nospam.com", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" },
+    { blogId: 2, name: "Bob", emailAddress: "bob@nospam.com", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" },
+    { blogId: 3, name: "Carol", emailAddress: "carol@nospam.com", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" }
+  ],
+  posts: [
+    {
+      postId: 1,
+      blogId: 1,
+      title: "GenericServices intro",
+      content: "This post introduces GenericServices patterns for MVC.",
+      lastUpdatedUtc: "2025-01-10T00:00:00.000Z"
+    },
+    {
+      postId: 2,
+      blogId: 2,
+      title: "Validation pipeline",
+      content: "Validation strategy across browser, MVC and EF.",
+      lastUpdatedUtc: "2025-01-12T00:00:00.000Z"
+    }
+  ],
+  tags: [
+    { tagId: 1, name: "Architecture", slug: "architecture", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" },
+    { tagId: 2, name: "EF", slug: "ef", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" },
+    { tagId: 3, name: "DDD", slug: "ddd", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" },
+    { tagId: 4, name: "Validation", slug: "validation", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" },
+    { tagId: 5, name: "Async", slug: "async", lastUpdatedUtc: "2025-01-01T00:00:00.000Z" }
+  ],
+  postTags: [
+    { postId: 1, tagId: 1 },
+    { postId: 1, tagId: 2 },
+    { postId: 2, tagId: 4 },
+    { postId: 2, tagId: 3 }
+  ],
+  lastIds: { blogs: 3, posts: 2, tags: 5 },
+  resetCount: 0
+};
+
+const storageKey = "SampleMvcWebApp.database";
+
+/** Lists every foreign key that points at a missing row; an empty list means the data is consistent. */
+export function checkIntegrity(db: DatabaseState): string[] {
+  const problems: string[] = [];
+  const blogIds = new Set(db.blogs.map((item) => item.blogId));
+  const postIds = new Set(db.posts.map((item) => item.postId));
+  const tagIds = new Set(db.tags.map((item) => item.tagId));
+
+  db.posts.forEach((post) => {
+    if (!blogIds.has(post.blogId)) problems.push(`Post ${post.postId} refers to missing blog ${post.blogId}.`);
+  });
+  db.postTags.forEach((link) => {
+    if (!postIds.has(link.postId)) problems.push(`A post-tag link refers to missing post ${link.postId}.`);
+    if (!tagIds.has(link.tagId)) problems.push(`A post-tag link refers to missing tag ${link.tagId}.`);
+  });
+
+  return problems;
+}
+
+function hasLastUpdated(rows: unknown) {
+  return Array.isArray(rows) && rows.every((row) => typeof (row as { lastUpdatedUtc?: unknown })?.lastUpdatedUtc === "string");
+}
+
+/** Data saved before blogs and tags tracked their updates is treated as malformed. */
+function isDatabaseState(value: unknown): value is SavedDatabaseState {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return ["blogs", "posts", "tags", "postTags"].every((key) => Array.isArray(candidate[key]))
+    && ["blogs", "posts", "tags"].every((key) => hasLastUpdated(candidate[key]));
+}
+
+const maxId = <T>(rows: T[], getId: (row: T) => number) => Math.max(0, ...rows.map(getId));
+
+/** Data saved before the counters existed starts the identities from the highest id in each table. */
+function withCounters(db: SavedDatabaseState): DatabaseState {
+  const saved = db.lastIds;
+  return {
+    ...db,
+    resetCount: db.resetCount ?? 0,
+    lastIds: {
+      blogs: Math.max(saved?.blogs ?? 0, maxId(db.blogs, (item) => item.blogId)),
+      posts: Math.max(saved?.posts ?? 0, maxId(db.posts, (item) => item.postId)),
+      tags: Math.max(saved?.tags ?? 0, maxId(db.tags, (item) => item.tagId))
+    }
+  };
+}
+
+/** Saved data that is malformed or breaks a relation is ignored, so the app falls back to the seed data. */
+function loadPersisted(): DatabaseState | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return isDatabaseState(parsed) && checkIntegrity(parsed as DatabaseState).length === 0 ? withCounters(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+export const databaseStore = createStore<DatabaseState>(initialDatabase);
+
+/**
+ * Loads the data saved by an earlier visit into the store and saves every write from then on.
+ * The services turn it on when the runtime config asks for it, which is only known once
+ * config.json has loaded, so it cannot be decided when this module is imported. Returns the
+ * function that stops saving.
+ */
+export function persistToLocalStorage(store: Store<DatabaseState> = databaseStore): () => void {
+  if (typeof window === "undefined") return () => {};
+  const saved = loadPersisted();
+  if (saved) store.setState(() => saved);
+  return store.subscribe(() => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(store.getState()));
+    } catch {
+      // Storage can be full or disabled; the in-memory data is still correct.
+    }
+  });
+}
+
+/** The id the table's next insert gets; the insert records it in `lastIds`. */
+export function nextId(db: DatabaseState, table: IdentityTable) {
+  return db.lastIds[table] + 1;
+}
@@ -0,0 +1,9 @@
+import type { TrackUpdate } from "./trackUpdate";
+
+/** The Post data class; its tags live in the post-tag link table. */
+export interface Post extends TrackUpdate {
+  postId: number;
+  blogId: number;
+  title: string;
+  content: string;
+}
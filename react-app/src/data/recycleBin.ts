@@ -0,0 +1,42 @@
+/** How long the flash message after a delete offers to undo it. */
+export const undoDeleteWindowMs = 30_000;
+
+export interface RecycleBin<T> {
+  put(id: number, rows: T): void;
+  /** What was deleted under the id, or null once the undo window has passed. */
+  peek(id: number): T | null;
+  /** Like `peek`, but also empties the entry, for when the rows are put back. */
+  take(id: number): T | null;
+}
+
+/**
+ * Keeps the rows a delete removed for the length of the undo window, so the delete can be
+ * reversed without the tables needing a soft-delete flag.
+ */
+export function createRecycleBin<T>(windowMs = undoDeleteWindowMs, now: () => number = Date.now): RecycleBin<T> {
+  const entries = new Map<number, { rows: T; expiresAt: number }>();
+
+  function removeExpired() {
+    const time = now();
+    entries.forEach((entry, id) => {
+      if (entry.expiresAt <= time) entries.delete(id);
+    });
+  }
+
+  return {
+    put: (id, rows) => {
+      removeExpired();
+      entries.set(id, { rows, expiresAt: now() + windowMs });
+    },
+    peek: (id) => {
+      removeExpired();
+      return entries.get(id)?.rows ?? null;
+    },
+    take: (id) => {
+      removeExpired();
+      const entry = entries.get(id);
+      entries.delete(id);
+      return entry ? entry.rows : null;
+    }
+  };
+}
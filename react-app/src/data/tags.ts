@@ -0,0 +1,21 @@
+import type { DatabaseState } from "./database";
+import type { TrackUpdate } from "./trackUpdate";
+
+/** Unlike Post, the legacy Tag did not inherit TrackUpdate; it does here so its edits can detect conflicts too. */
+export interface TagRow extends TrackUpdate {
+  tagId: number;
+  name: string;
+  slug: string;
+}
+
+/** Mirrors ServiceLayer.TagServices.TagListDto. */
+export interface TagListDto extends TagRow {
+  postsCount: number;
+}
+
+export function toTagListDtos(db: DatabaseState): TagListDto[] {
+  return db.tags.map((tag) => ({
+    ...tag,
+    postsCount: db.postTags.filter((link) => link.tagId === tag.tagId).length
+  }));
+}
@@ -0,0 +1,14 @@
+/**
+ * Mirrors DataLayer.DataClasses.TrackUpdate: the time of the last save. It is also the row's
+ * concurrency token, so an edit saves only if the row still has the value the form loaded.
+ */
+export interface TrackUpdate {
+  lastUpdatedUtc: string;
+}
+
+/** The LastUpdated value for a save, always later than the row's previous one so two quick saves never share it. */
+export function nextLastUpdatedUtc(previous?: string) {
+  const now = Date.now();
+  const previousTime = previous ? Date.parse(previous) : Number.NaN;
+  return new Date(Number.isNaN(previousTime) || now > previousTime ? now : previousTime + 1).toISOString();
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type ActionConfig,
+  type ActionEvent,
+  type ActionState,
+  actionStates,
+  decodeActionConfig,
+  isErrorMessageType,
+  isTransientState,
+  type ProgressMessage
+} from "../lib/actionRunner";
+import { ApiError } from "../lib/api-client";
+import { useServices } from "../services/ServicesContext";
+import type { FieldErrorMap } from "../services/successOrErrors";
+
+export interface ActionRun {
+  actionGuid: string | null;
+  /** What the panel's button says, and so what pressing it does. */
+  actionState: ActionState;
+  /** Null until the action's Started event arrives. */
+  config: ActionConfig | null;
+  percentDone: number;
+  messages: ProgressMessage[];
+  numErrorMessages: number;
+  jsonResult: unknown;
+}
+
+export interface ActionRunnerOptions {
+  /** Called when the user closes the panel after the action finished without errors. */
+  onSuccessExit?: (jsonResult: unknown) => void;
+}
+
+export const actionRunnerResources = {
+  pleaseTryLater: "An error occured while talking to the server. Please try again later.",
+  systemError: "There was a system error. Please talk to your administrator.",
+  confirmExitOnRunningSys: "The system is waiting for the server to respond. Do you want to exit anyway? Press OK to exit.",
+  confirmExitOnNonCancellable:
+    "The action is not cancellable and is still running.\n"
+    + "If you exit now the action will still continue,\n"
+    + "but its output lost. Press OK if you really want to exit."
+};
+
+function newRun(): ActionRun {
+  return {
+    actionGuid: null,
+    actionState: actionStates.connectingTransient,
+    config: null,
+    percentDone: 0,
+    messages: [],
+    numErrorMessages: 0,
+    jsonResult: null
+  };
+}
+
+function addMessage(run: ActionRun, message: ProgressMessage | null): ActionRun {
+  if (!message || !message.messageText) return run;
+  return {
+    ...run,
+    messages: [...run.messages, message],
+    numErrorMessages: run.numErrorMessages + (isErrorMessageType(message.messageType) ? 1 : 0)
+  };
+}
+
+/** The state machine ActionRunnerComms drives from the Started, Progress and Stopped events. */
+function applyEvent(run: ActionRun, event: ActionEvent): ActionRun {
+  switch (event.type) {
+    case "started": {
+      const config = decodeActionConfig(event.configFlags);
+      return { ...run, config, actionState: config.cancelNotSupported ? actionStates.runningNoCancel : actionStates.cancel };
+    }
+    case "progress": {
+      const next = addMessage(run, event.message);
+      const percentDone = event.percentDone >= 0 && event.percentDone <= 100 ? event.percentDone : next.percentDone;
+      return { ...next, percentDone };
+    }
+    case "stopped": {
+      const next = { ...addMessage(run, event.message), jsonResult: event.jsonResult };
+      if (event.message.messageType === "Finished") {
+        return {
+          ...next,
+          percentDone: 100,
+          actionState: next.numErrorMessages === 0 ? actionStates.finishedOk : actionStates.finishedErrors
+        };
+      }
+      return { ...next, actionState: event.message.messageType === "Cancelled" ? actionStates.cancelled : actionStates.failed };
+    }
+  }
+}
+
+/**
+ * Runs one long-running server action at a time. `start` returns the parameter errors when
+ * the action refuses to start; otherwise `run` follows the action until the user exits.
+ */
+export function useActionRunner({ onSuccessExit }: ActionRunnerOptions = {}) {
+  const { actions } = useServices();
+  const [run, setRun] = useState<ActionRun | null>(null);
+  const [globalMessage, setGlobalMessage] = useState<string | null>(null);
+  const runRef = useRef<ActionRun | null>(null);
+  const closeChannelRef = useRef<(() => void) | null>(null);
+  const onSuccessExitRef = useRef(onSuccessExit);
+  onSuccessExitRef.current = onSuccessExit;
+
+  const updateRun = useCallback((update: (current: ActionRun) => ActionRun) => {
+    if (!runRef.current) return;
+    runRef.current = update(runRef.current);
+    setRun(runRef.current);
+  }, []);
+
+  const exit = useCallback((successfulEnd: boolean) => {
+    const jsonResult = runRef.current?.jsonResult ?? null;
+    closeChannelRef.current?.();
+    closeChannelRef.current = null;
+    runRef.current = null;
+    setRun(null);
+    if (successfulEnd) onSuccessExitRef.current?.(jsonResult);
+  }, []);
+
+  const start = useCallback(
+    async (actionName: string, params: unknown): Promise<FieldErrorMap> => {
+      if (runRef.current) return {};
+      setGlobalMessage(null);
+      runRef.current = newRun();
+      setRun(runRef.current);
+
+      let actionGuid: string;
+      try {
+        ({ actionGuid } = await actions.start(actionName, params));
+      } catch (error) {
+        runRef.current = null;
+        setRun(null);
+        if (error instanceof ApiError && error.code === "validation") return error.errors;
+        setGlobalMessage(error instanceof ApiError && error.code === "antiforgery" ? error.message : actionRunnerResources.pleaseTryLater);
+        return {};
+      }
+
+      updateRun((current) => ({ ...current, actionGuid, actionState: actionStates.startingTransient }));
+      closeChannelRef.current = actions.openChannel(actionGuid, {
+        onEvent(event) {
+          if (event.actionGuid !== actionGuid) return;
+          updateRun((current) => applyEvent(current, event));
+          if (event.type !== "stopped") return;
+
+          actions.end(actionGuid).catch(() => undefined);
+          const current = runRef.current;
+          if (current?.actionState === actionStates.finishedOk && current.config?.exitOnSuccess) exit(true);
+        },
+        onLinkError(connected) {
+          updateRun((current) => ({ ...current, actionState: connected ? actionStates.failedLink : actionStates.failedConnecting }));
+          setGlobalMessage(actionRunnerResources.systemError);
+        }
+      });
+      return {};
+    },
+    [actions, updateRun, exit]
+  );
+
+  /** What pressing the state button does: cancel, confirm an early exit, or close the panel. */
+  const respondToStateChangeRequest = useCallback(() => {
+    const current = runRef.current;
+    if (!current) return;
+
+    if (current.actionState === actionStates.cancel && current.actionGuid) {
+      updateRun((value) => ({ ...value, actionState: actionStates.cancellingTransient }));
+      actions.cancel(current.actionGuid).catch(() => undefined);
+    } else if (isTransientState(current.actionState)) {
+      // The server may have hung, so the user can abandon the action, but only after confirming.
+      const messageToShow = current.actionState === actionStates.runningNoCancel
+        ? actionRunnerResources.confirmExitOnNonCancellable
+        : actionRunnerResources.confirmExitOnRunningSys;
+      if (window.confirm(messageToShow)) exit(false);
+    } else {
+      exit(current.actionState === actionStates.finishedOk);
+    }
+  }, [actions, updateRun, exit]);
+
+  const isRunning = run !== null && (isTransientState(run.actionState) || run.actionState === actionStates.cancel);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const confirmExit = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", confirmExit);
+    return () => window.removeEventListener("beforeunload", confirmExit);
+  }, [isRunning]);
+
+  useEffect(() => () => closeChannelRef.current?.(), []);
+
+  return {
+    run,
+    isRunning,
+    globalMessage,
+    dismissGlobalMessage: useCallback(() => setGlobalMessage(null), []),
+    start,
+    respondToStateChangeRequest
+  };
+}
+
+export type ActionRunner = ReturnType<typeof useActionRunner>;
@@ -0,0 +1,46 @@
+import { type DependencyList, useCallback, useEffect, useRef, useState } from "react";
+import { DataAccessError, isAbortError } from "../data/asyncData";
+
+export type AsyncState<T> =
+  | { status: "loading" }
+  | { status: "success"; data: T }
+  | { status: "error"; message: string; notFound: boolean };
+
+/**
+ * Loads data through the async data path, cancelling the in-flight call when the
+ * dependencies change or the component unmounts. `reload` re-runs the same load; `refresh`
+ * does too, but keeps showing the current data until the new data arrives.
+ */
+export function useAsyncData<T>(load: (signal: AbortSignal) => Promise<T>, deps: DependencyList) {
+  const [state, setState] = useState<AsyncState<T>>({ status: "loading" });
+  const [attempt, setAttempt] = useState(0);
+  const quiet = useRef(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    if (!quiet.current) setState({ status: "loading" });
+    quiet.current = false;
+
+    load(controller.signal).then(
+      (data) => setState({ status: "success", data }),
+      (error: unknown) => {
+        if (isAbortError(error)) return;
+        setState({
+          status: "error",
+          message: error instanceof Error ? error.message : "The data could not be loaded.",
+          notFound: error instanceof DataAccessError && error.notFound
+        });
+      }
+    );
+
+    return () => controller.abort();
+  }, [...deps, attempt]);
+
+  const reload = useCallback(() => setAttempt((prev) => prev + 1), []);
+  const refresh = useCallback(() => {
+    quiet.current = true;
+    setAttempt((prev) => prev + 1);
+  }, []);
+
+  return { state, reload, refresh };
+}
@@ -0,0 +1,12 @@
+import { useEffect, useRef } from "react";
+import type { DataChangeListener } from "../data/dataChanges";
+import { useServices } from "../services/ServicesContext";
+
+/** Calls `listener` for every write made in another tab or on the server while the component is mounted. */
+export function useDataChanges(listener: DataChangeListener) {
+  const { dataChanges } = useServices();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => dataChanges.subscribe((changes) => listenerRef.current(changes)), [dataChanges]);
+}
@@ -0,0 +1,33 @@
+import { useCallback, useState } from "react";
+import type { TrackUpdate } from "../data/trackUpdate";
+
+/**
+ * What an edit form needs to recover from a save refused as a conflict: the row it loaded,
+ * and the other user's version once a save has reported one.
+ */
+export function useEditConflict<T extends TrackUpdate>(loaded: T | null) {
+  const [base, setBase] = useState<T | null>(loaded);
+  const [theirs, setTheirs] = useState<T | null>(null);
+
+  /** Starts over from a freshly loaded row. */
+  const reset = useCallback((row: T | null) => {
+    setBase(row);
+    setTheirs(null);
+  }, []);
+
+  /**
+   * Carries on from their version: returns `next` with their LastUpdated, so the next save
+   * is checked against the row they saved rather than the one the form first loaded.
+   */
+  const resolve = useCallback(
+    (next: T): T => {
+      if (!theirs) return next;
+      setBase(theirs);
+      setTheirs(null);
+      return { ...next, lastUpdatedUtc: theirs.lastUpdatedUtc };
+    },
+    [theirs]
+  );
+
+  return { base, theirs, report: setTheirs, reset, resolve };
+}
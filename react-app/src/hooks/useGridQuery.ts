@@ -0,0 +1,30 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { type GridQuery, type GridSpec, gridQueryToRoute, parseGridQuery } from "../lib/gridQuery";
+
+/**
+ * A grid's sort, page and filters, kept in the current URL's query string so a view can be
+ * bookmarked or shared. `hrefFor` builds the URL for a change; any change other than the
+ * page itself goes back to the first page.
+ */
+export function useGridQuery<T, S extends string, F extends string>(spec: GridSpec<T, S, F>) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const query = useMemo(() => parseGridQuery(spec, new URLSearchParams(location.search)), [spec, location.search]);
+
+  const hrefFor = useCallback(
+    (change: Partial<GridQuery<S, F>>) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(gridQueryToRoute(spec, { ...query, page: 1, ...change }))) {
+        if (value !== undefined && value !== "") params.set(key, String(value));
+      }
+      const search = params.toString();
+      return search ? `${location.pathname}?${search}` : location.pathname;
+    },
+    [spec, query, location.pathname]
+  );
+
+  const update = useCallback((change: Partial<GridQuery<S, F>>) => navigate(hrefFor(change)), [navigate, hrefFor]);
+
+  return { query, hrefFor, update, listUrl: `${location.pathname}${location.search}` };
+}
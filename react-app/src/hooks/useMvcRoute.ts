@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { useLocation } from "react-router-dom";
+import { type ControllerName, resolveMvcRoute, routeHead } from "../lib/mvcRoutes";
+import { usePageHead } from "./usePageHead";
+
+/**
+ * The current location resolved against one controller's configured actions. The screen's
+ * document title, description and canonical URL follow the route from here.
+ */
+export function useMvcRoute<C extends ControllerName>(controller: C) {
+  const location = useLocation();
+  const route = useMemo(
+    () => resolveMvcRoute(controller, location.pathname, location.search),
+    [controller, location.pathname, location.search]
+  );
+  usePageHead(routeHead(route), "route");
+  return route;
+}
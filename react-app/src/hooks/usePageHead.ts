@@ -0,0 +1,20 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
+import { claimHead, type HeadLevel, type PageHead } from "../lib/documentHead";
+import { type ControllerName, resolveMvcRoute, routeHead } from "../lib/mvcRoutes";
+
+/** Sets the document's title, description and canonical URL while the calling component is mounted. */
+export function usePageHead(head: PageHead, level: HeadLevel = "view") {
+  const { title, description, canonicalPath } = head;
+
+  useEffect(
+    () => claimHead({ title, description, canonicalPath }, level),
+    [title, description, canonicalPath, level]
+  );
+}
+
+/** The current route's head with `{title}` filled in from the row the view shows, e.g. "Details: {title}". */
+export function useRowHead(controller: ControllerName, rowTitle: string | undefined) {
+  const location = useLocation();
+  usePageHead(routeHead(resolveMvcRoute(controller, location.pathname), rowTitle));
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError } from "../data/asyncData";
+
+export interface PollingState<T> {
+  /** The most recent samples, oldest first. */
+  samples: T[];
+  latest: T | null;
+  /** The last failure; cleared by the next successful read. */
+  error: string | null;
+}
+
+/**
+ * Calls `load` now and then every `intervalMs` (never when null), keeping the last
+ * `historySize` results. Later ticks are skipped while the tab is hidden, and a read only starts
+ * after the previous one has finished so a slow server is never asked twice at once.
+ */
+export function usePolling<T>(load: (signal: AbortSignal) => Promise<T>, intervalMs: number | null, historySize = 30) {
+  const [samples, setSamples] = useState<T[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: number | undefined;
+    let first = true;
+
+    const tick = async () => {
+      if (first || !document.hidden) {
+        first = false;
+        try {
+          const sample = await loadRef.current(controller.signal);
+          setSamples((prev) => [...prev, sample].slice(-historySize));
+          setError(null);
+        } catch (failure) {
+          if (isAbortError(failure)) return;
+          setError(failure instanceof Error ? failure.message : "The data could not be loaded.");
+        }
+      }
+      if (intervalMs !== null && !controller.signal.aborted) timer = window.setTimeout(tick, intervalMs);
+    };
+    void tick();
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [intervalMs, historySize, attempt]);
+
+  const refresh = useCallback(() => setAttempt((prev) => prev + 1), []);
+
+  const state: PollingState<T> = { samples, latest: samples.length > 0 ? samples[samples.length - 1] : null, error };
+  return { ...state, refresh };
+}
@@ -0,0 +1,13 @@
+import { useLocation } from "react-router-dom";
+import { localReturnUrl, type RouteQuery } from "../lib/mvcRoutes";
+
+/**
+ * Where "Back to List" and a successful save should go: the list the user came from, if
+ * they came from one. `returnQuery` passes the same list on to the next action's link.
+ */
+export function useReturnUrl(fallback: string) {
+  const location = useLocation();
+  const listUrl = localReturnUrl(new URLSearchParams(location.search).get("returnUrl"), fallback);
+  const returnQuery: RouteQuery = listUrl === fallback ? {} : { returnUrl: listUrl };
+  return { listUrl, returnQuery };
+}
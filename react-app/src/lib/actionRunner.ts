@@ -0,0 +1,175 @@
+import { type ActionHub, createActionHub, testAction } from "../mock-api/actionHub";
+import { ApiError, createApiClient, getApiBaseUrl, type ApiClient } from "./api-client";
+
+/**
+ * The states ActionRunnerComms shows on its button; the text is the state. States ending in
+ * "..." are transient: the runner is waiting on the server, so leaving needs a confirm.
+ */
+export const actionStates = {
+  connectingTransient: "Connecting...",
+  startingTransient: "Starting...",
+  cancellingTransient: "Cancelling...",
+  runningNoCancel: "Running...",
+  cancel: "Cancel",
+  cancelled: "Cancelled",
+  finishedOk: "Finished Ok",
+  finishedErrors: "Finished (errors)",
+  failed: "Failed",
+  failedLink: "Failed (link)",
+  failedConnecting: "Failed (connecting)"
+} as const;
+
+export type ActionState = (typeof actionStates)[keyof typeof actionStates];
+
+const transientSuffix = "...";
+
+export function isTransientState(state: ActionState) {
+  return state.endsWith(transientSuffix);
+}
+
+/** The server's ProgressMessageTypes. */
+export type ProgressMessageType = "Verbose" | "Info" | "Warning" | "Error" | "Critical" | "Cancelled" | "Finished" | "Failed";
+
+const messageTypesThatAreErrors: ProgressMessageType[] = ["Error", "Critical", "Failed"];
+
+export function isErrorMessageType(messageType: ProgressMessageType) {
+  return messageTypesThatAreErrors.includes(messageType);
+}
+
+export interface ProgressMessage {
+  messageType: ProgressMessageType;
+  messageText: string;
+}
+
+/** The flags an action sends in its Started event to say what it supports. */
+export type ActionConfigFlag = "ExitOnSuccess" | "NoProgressSent" | "NoMessagesSent" | "CancelNotSupported";
+
+export interface ActionConfig {
+  exitOnSuccess: boolean;
+  noProgressSent: boolean;
+  noMessagesSent: boolean;
+  cancelNotSupported: boolean;
+}
+
+export function decodeActionConfig(flags: ActionConfigFlag[]): ActionConfig {
+  return {
+    exitOnSuccess: flags.includes("ExitOnSuccess"),
+    noProgressSent: flags.includes("NoProgressSent"),
+    noMessagesSent: flags.includes("NoMessagesSent"),
+    cancelNotSupported: flags.includes("CancelNotSupported")
+  };
+}
+
+/** The ActionHub's Started, Progress and Stopped events, sent as server-sent events of the same names. */
+export type ActionEvent =
+  | { type: "started"; actionGuid: string; configFlags: ActionConfigFlag[] }
+  | { type: "progress"; actionGuid: string; percentDone: number; message: ProgressMessage | null }
+  | { type: "stopped"; actionGuid: string; message: ProgressMessage; jsonResult: unknown };
+
+export const actionEventTypes: ActionEvent["type"][] = ["started", "progress", "stopped"];
+
+export interface StartedAction {
+  actionGuid: string;
+}
+
+export interface ActionChannelHandlers {
+  onEvent(event: ActionEvent): void;
+  /** The link dropped; `connected` says whether any event had arrived before it did. */
+  onLinkError(connected: boolean): void;
+}
+
+/**
+ * The client end of the action hub: start an action with its parameters, then follow its
+ * events on a channel until it stops, and tell the server when the result has been read.
+ */
+export interface ActionRunnerClient {
+  /** Rejects with an `ApiError` carrying the parameter errors when the action refuses to start. */
+  start(actionName: string, params: unknown): Promise<StartedAction>;
+  /** The action starts running when the channel connects. Returns a function that closes it. */
+  openChannel(actionGuid: string, handlers: ActionChannelHandlers): () => void;
+  cancel(actionGuid: string): Promise<void>;
+  /** EndAction: the server can forget the action. */
+  end(actionGuid: string): Promise<void>;
+}
+
+/** The hub in this tab, for when the data is in memory and there is no API to run actions on. */
+export function createActionRunnerClient(hub: ActionHub = createActionHub({ TestAction: testAction })): ActionRunnerClient {
+  const notFound = (message: string) => new ApiError({ status: 404, code: "not-found", message, errors: {} });
+
+  return {
+    async start(actionName, params) {
+      const status = hub.start(actionName, params);
+      if (status.isValid && status.result) return status.result;
+      throw new ApiError({ status: 422, code: "validation", message: "The request did not pass validation.", errors: status.errors });
+    },
+    openChannel(actionGuid, { onEvent, onLinkError }) {
+      let closed = false;
+      // The hub replays and starts inside subscribe; queueing keeps the events arriving after
+      // this returns, in order, as they would over the network.
+      const unsubscribe = hub.subscribe(actionGuid, (event) => {
+        queueMicrotask(() => {
+          if (!closed) onEvent(event);
+        });
+      });
+      if (!unsubscribe) {
+        queueMicrotask(() => {
+          if (!closed) onLinkError(false);
+        });
+      }
+
+      return () => {
+        closed = true;
+        unsubscribe?.();
+      };
+    },
+    async cancel(actionGuid) {
+      if (!hub.cancel(actionGuid)) throw notFound("The action is not running or cannot be cancelled.");
+    },
+    async end(actionGuid) {
+      if (!hub.end(actionGuid)) throw notFound("The action was not found.");
+    }
+  };
+}
+
+/** Runs the actions on the API's hub and follows them over server-sent events. */
+export function createHttpActionRunnerClient(api: ApiClient = createApiClient(), baseUrl = getApiBaseUrl()): ActionRunnerClient {
+  return {
+    start(actionName, params) {
+      return api.post<StartedAction>(`/Actions/Start/${encodeURIComponent(actionName)}`, params);
+    },
+    openChannel(actionGuid, { onEvent, onLinkError }) {
+      const source = new EventSource(`${baseUrl}/Actions/Progress/${encodeURIComponent(actionGuid)}`);
+      let connected = false;
+      let stopped = false;
+
+      for (const type of actionEventTypes) {
+        source.addEventListener(type, (message) => {
+          connected = true;
+          const event = JSON.parse((message as MessageEvent<string>).data) as ActionEvent;
+          if (event.type === "stopped") {
+            stopped = true;
+            source.close();
+          }
+          onEvent(event);
+        });
+      }
+      source.onerror = () => {
+        // EventSource reconnects on its own; the hub has no resume, so any drop ends the run.
+        source.close();
+        if (!stopped) onLinkError(connected);
+      };
+
+      return () => {
+        stopped = true;
+        source.close();
+      };
+    },
+    cancel(actionGuid) {
+      return api.post<void>(`/Actions/Cancel/${encodeURIComponent(actionGuid)}`);
+    },
+    end(actionGuid) {
+      return api.post<void>(`/Actions/End/${encodeURIComponent(actionGuid)}`);
+    }
+  };
+}
+
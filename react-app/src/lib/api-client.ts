@@ -0,0 +1,130 @@
+import type { FieldErrorMap } from "../services/successOrErrors";
+import { getRuntimeConfig } from "./runtimeConfig";
+
+/** Every non-2xx response from the API carries this body. */
+export interface ApiErrorEnvelope {
+  error: {
+    status: number;
+    code: ApiErrorCode;
+    message: string;
+    errors: FieldErrorMap;
+    /** For a `conflict`, the row as the other user saved it. */
+    conflict?: unknown;
+  };
+}
+
+export type ApiErrorCode =
+  | "bad-request"
+  | "not-found"
+  | "method-not-allowed"
+  | "validation"
+  | "conflict"
+  | "antiforgery"
+  | "server-error"
+  | "network";
+
+/** Raised for any failed call; aborted calls reject with the fetch AbortError instead. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly errors: FieldErrorMap;
+  readonly conflict: unknown;
+
+  constructor(envelope: ApiErrorEnvelope["error"]) {
+    super(envelope.message);
+    this.name = "ApiError";
+    this.status = envelope.status;
+    this.code = envelope.code;
+    this.errors = envelope.errors;
+    this.conflict = envelope.conflict ?? null;
+  }
+}
+
+export interface ApiClient {
+  get<T>(path: string, signal?: AbortSignal): Promise<T>;
+  post<T>(path: string, body?: unknown, signal?: AbortSignal): Promise<T>;
+}
+
+function isErrorEnvelope(value: unknown): value is ApiErrorEnvelope {
+  if (!value || typeof value !== "object" || !("error" in value)) return false;
+  const error = (value as { error: unknown }).error;
+  return !!error && typeof error === "object" && "message" in error && "code" in error;
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+export const defaultApiBaseUrl = "/api";
+
+/** The header that carries the anti-forgery token on every POST. */
+export const antiforgeryHeader = "RequestVerificationToken";
+
+export function getApiBaseUrl() {
+  return getRuntimeConfig().apiBaseUrl;
+}
+
+/**
+ * Thin typed wrapper over fetch. Paths are relative to `baseUrl`, bodies are JSON, and
+ * every failure is normalised to an `ApiError` so callers only handle one error shape.
+ * POSTs carry the session's anti-forgery token, which is fetched once and then reused.
+ */
+export function createApiClient(baseUrl = getApiBaseUrl()): ApiClient {
+  let tokenRequest: Promise<string> | null = null;
+
+  function antiforgeryToken() {
+    tokenRequest ??= send<{ token: string }>("GET", "/Antiforgery/Token", undefined).then(
+      (response) => response.token,
+      (error: unknown) => {
+        tokenRequest = null;
+        throw error;
+      }
+    );
+    return tokenRequest;
+  }
+
+  async function send<T>(method: "GET" | "POST", path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (method === "POST") headers[antiforgeryHeader] = await antiforgeryToken();
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        signal,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ApiError({ status: 0, code: "network", message: "The server could not be reached.", errors: {} });
+    }
+
+    const payload = await readJson(response);
+    if (response.ok) return payload as T;
+
+    if (isErrorEnvelope(payload)) {
+      // The session has gone, so the next POST starts a new one rather than failing forever.
+      if (payload.error.code === "antiforgery") tokenRequest = null;
+      throw new ApiError(payload.error);
+    }
+    throw new ApiError({
+      status: response.status,
+      code: response.status === 404 ? "not-found" : "server-error",
+      message: `The server returned ${response.status} ${response.statusText}.`,
+      errors: {}
+    });
+  }
+
+  return {
+    get: (path, signal) => send("GET", path, undefined, signal),
+    post: (path, body, signal) => send("POST", path, body ?? {}, signal)
+  };
+}
@@ -0,0 +1,30 @@
+/** What the browser reports about itself. Each field is null where the browser does not expose it. */
+export interface BrowserMetrics {
+  jsHeapUsedKbytes: number | null;
+  jsHeapLimitKbytes: number | null;
+  hardwareConcurrency: number | null;
+  deviceMemoryGbytes: number | null;
+}
+
+// performance.memory and navigator.deviceMemory are Chromium-only, so neither is in the DOM typings.
+interface ChromiumPerformance {
+  memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number };
+}
+
+interface ChromiumNavigator {
+  deviceMemory?: number;
+}
+
+export function readBrowserMetrics(): BrowserMetrics {
+  if (typeof window === "undefined") {
+    return { jsHeapUsedKbytes: null, jsHeapLimitKbytes: null, hardwareConcurrency: null, deviceMemoryGbytes: null };
+  }
+
+  const memory = (window.performance as ChromiumPerformance).memory;
+  return {
+    jsHeapUsedKbytes: memory ? Math.round(memory.usedJSHeapSize / 1024) : null,
+    jsHeapLimitKbytes: memory ? Math.round(memory.jsHeapSizeLimit / 1024) : null,
+    hardwareConcurrency: window.navigator.hardwareConcurrency || null,
+    deviceMemoryGbytes: (window.navigator as ChromiumNavigator).deviceMemory ?? null
+  };
+}
@@ -0,0 +1,118 @@
+import type { Store } from "../data/createStore";
+import { type DataChange, type DataChangeListener, describeChanges, watchChanges } from "../data/dataChanges";
+import type { DatabaseState } from "../data/database";
+import type { Replica } from "../services/httpServices";
+import { getApiBaseUrl } from "./api-client";
+import { logError } from "./errorLogger";
+
+/** Tells the screens about writes made somewhere else: in another tab, or by anyone on the server. */
+export interface DataChangeFeed {
+  subscribe(listener: DataChangeListener): () => void;
+}
+
+const channelName = "SampleMvcWebApp.dataChanges";
+
+type ChannelMessage =
+  | { type: "changes"; changes: DataChange[]; state: DatabaseState }
+  /** A new tab asking the open ones for the data they already hold. */
+  | { type: "hello"; requestId: string }
+  /** An open tab's answer to a hello, for the tab that sent it only. */
+  | { type: "state"; requestId: string; state: DatabaseState };
+
+function createListeners() {
+  const listeners = new Set<DataChangeListener>();
+  return {
+    notify: (changes: DataChange[]) => {
+      if (changes.length > 0) listeners.forEach((listener) => listener(changes));
+    },
+    subscribe: (listener: DataChangeListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+/**
+ * For the in-browser data: every tab holds its own copy, so each write is posted on a
+ * BroadcastChannel with the data it left behind, and the other tabs take that data as theirs.
+ * A new tab asks for the data once; every open tab answers, but only the first answer is taken,
+ * and none once the new tab has written something itself.
+ */
+export function createBroadcastChangeFeed(store: Store<DatabaseState>): DataChangeFeed {
+  const listeners = createListeners();
+  if (typeof BroadcastChannel === "undefined") return { subscribe: listeners.subscribe };
+
+  const channel = new BroadcastChannel(channelName);
+  const post = (message: ChannelMessage) => channel.postMessage(message);
+  let applying = false;
+  let pendingRequest: string | null = crypto.randomUUID();
+
+  const apply = (state: DatabaseState, changes: DataChange[]) => {
+    applying = true;
+    try {
+      store.setState(() => state);
+    } finally {
+      applying = false;
+    }
+    listeners.notify(changes);
+  };
+
+  watchChanges(store, (changes) => {
+    if (applying) return;
+    pendingRequest = null;
+    post({ type: "changes", changes, state: store.getState() });
+  });
+
+  channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+    const message = event.data;
+    if (message.type === "hello") {
+      post({ type: "state", requestId: message.requestId, state: store.getState() });
+    } else if (message.type === "state") {
+      if (message.requestId !== pendingRequest) return;
+      pendingRequest = null;
+      apply(message.state, describeChanges(store.getState(), message.state));
+    } else {
+      pendingRequest = null;
+      apply(message.state, message.changes);
+    }
+  };
+  post({ type: "hello", requestId: pendingRequest });
+
+  return { subscribe: listeners.subscribe };
+}
+
+/**
+ * For the mock API: the server pushes the changes of every write as server-sent events, and
+ * the replica is reloaded before the screens hear about them. EventSource reconnects on its
+ * own; whatever was missed meanwhile is found by comparing the data before and after.
+ */
+export function createServerChangeFeed(replica: Replica, baseUrl = getApiBaseUrl()): DataChangeFeed {
+  const listeners = createListeners();
+  if (typeof EventSource === "undefined") return { subscribe: listeners.subscribe };
+
+  const source = new EventSource(`${baseUrl}/Data/Changes`);
+  let connected = false;
+
+  const reload = async (changes?: DataChange[]) => {
+    const before = replica.store.getState();
+    try {
+      await replica.refresh();
+    } catch (error) {
+      logError("DataChangeFeed", "Could not reload the data after a change on the server.", error);
+      return;
+    }
+    listeners.notify(changes ?? describeChanges(before, replica.store.getState()));
+  };
+
+  source.addEventListener("open", () => {
+    if (connected) void reload();
+    connected = true;
+  });
+  source.addEventListener("changes", (message) => {
+    void reload(JSON.parse((message as MessageEvent<string>).data) as DataChange[]);
+  });
+
+  return { subscribe: listeners.subscribe };
+}
@@ -0,0 +1,76 @@
+/** What a page puts in `<head>`, like ViewBag.Title plus the meta tags a layout section adds. */
+export interface PageHead {
+  /** The page's own title; the site name is added the way _Layout.cshtml adds it. */
+  title: string;
+  description?: string;
+  /** The canonical path for the page, e.g. "/Posts/Details/1"; made absolute against the current origin. */
+  canonicalPath?: string;
+}
+
+export const siteName = "SampleMvcWebApp";
+
+/** `@ViewBag.Title - SampleMvcWebApp`, as _Layout.cshtml renders the `<title>`. */
+export function documentTitle(title: string) {
+  return `${title} - ${siteName}`;
+}
+
+/**
+ * How specific a head is. A route's head comes from its definition; a view can replace it once
+ * it knows more, e.g. the title of the row it shows; and a 404 or error page replaces both.
+ */
+export type HeadLevel = "route" | "view" | "status";
+
+const levelRank: Record<HeadLevel, number> = { route: 0, view: 1, status: 2 };
+
+interface HeadClaim {
+  head: PageHead;
+  level: HeadLevel;
+}
+
+// Every mounted claim, oldest first. The most specific wins and, among equals, the newest.
+const claims: HeadClaim[] = [];
+
+function setHeadElement(selector: string, create: () => HTMLElement, attribute: string, value: string | undefined) {
+  const existing = document.head.querySelector<HTMLElement>(selector);
+  if (value === undefined) {
+    existing?.remove();
+    return;
+  }
+  const element = existing ?? document.head.appendChild(create());
+  element.setAttribute(attribute, value);
+}
+
+function applyHead() {
+  const current = claims.reduce<HeadClaim | undefined>(
+    (best, claim) => (!best || levelRank[claim.level] >= levelRank[best.level] ? claim : best),
+    undefined
+  );
+  if (!current) return;
+
+  const { title, description, canonicalPath } = current.head;
+  document.title = documentTitle(title);
+  setHeadElement(
+    'meta[name="description"]',
+    () => Object.assign(document.createElement("meta"), { name: "description" }),
+    "content",
+    description
+  );
+  setHeadElement(
+    'link[rel="canonical"]',
+    () => Object.assign(document.createElement("link"), { rel: "canonical" }),
+    "href",
+    canonicalPath === undefined ? undefined : new URL(canonicalPath, window.location.origin).href
+  );
+}
+
+/** Puts `head` in the document until the returned function is called, when the next claim in line takes over. */
+export function claimHead(head: PageHead, level: HeadLevel) {
+  const claim: HeadClaim = { head, level };
+  claims.push(claim);
+  applyHead();
+  return () => {
+    const index = claims.indexOf(claim);
+    if (index >= 0) claims.splice(index, 1);
+    applyHead();
+  };
+}
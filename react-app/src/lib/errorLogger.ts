@@ -0,0 +1,62 @@
+/** What a boundary knows about an error it caught; the correlation id ties the screen to the log entry. */
+export interface ErrorReport {
+  correlationId: string;
+  /** The boundary that caught it, e.g. "App" or the controller of the screen, or the part that failed outside any screen. */
+  boundary: string;
+  message: string;
+  error: unknown;
+  componentStack: string | null;
+  url: string;
+  timeUtc: string;
+}
+
+export type ErrorLogger = (report: ErrorReport) => void;
+
+const consoleLogger: ErrorLogger = (report) => {
+  console.error(`[${report.correlationId}] ${report.boundary} failed at ${report.url}: ${report.message}`, report.error, report.componentStack ?? "");
+};
+
+let currentLogger: ErrorLogger = consoleLogger;
+
+/**
+ * Replaces where errors are reported, e.g. with a logging service, like swapping the ELMAH or
+ * log4net appender. Returns a function that puts the previous logger back.
+ */
+export function setErrorLogger(logger: ErrorLogger) {
+  const previous = currentLogger;
+  currentLogger = logger;
+  return () => {
+    currentLogger = previous;
+  };
+}
+
+/** A short random id; getRandomValues also works on plain-http hosts, unlike randomUUID. */
+export function newCorrelationId() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Hands the report to the current logger. A logger that fails is ignored so the error screen still shows. */
+export function reportError(report: ErrorReport) {
+  try {
+    currentLogger(report);
+  } catch {
+    // Nothing sensible is left to report to.
+  }
+}
+
+/** Reports a failure that no boundary sees, such as a background load, under a fresh correlation id. */
+export function logError(source: string, message: string, error: unknown = null) {
+  reportError({
+    correlationId: newCorrelationId(),
+    boundary: source,
+    message,
+    error,
+    componentStack: null,
+    url: typeof window === "undefined" ? "" : window.location.pathname + window.location.search,
+    timeUtc: new Date().toISOString()
+  });
+}
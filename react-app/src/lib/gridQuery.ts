@@ -0,0 +1,110 @@
+import type { RouteQuery } from "./mvcRoutes";
+
+export type SortDirection = "asc" | "desc";
+
+/** What a grid shows, as read from and written to the URL query string. */
+export interface GridQuery<S extends string = string, F extends string = string> {
+  /** Null keeps the order the service returned. */
+  sort: S | null;
+  direction: SortDirection;
+  /** One-based. */
+  page: number;
+  pageSize: number;
+  filters: Partial<Record<F, string>>;
+}
+
+/**
+ * How one grid sorts and filters its rows. The sort and filter names are also the values
+ * that appear in the URL, so keep them short and stable.
+ */
+export interface GridSpec<T, S extends string = string, F extends string = string> {
+  sortKeys: Record<S, (row: T) => string | number>;
+  filters: Record<F, (row: T, value: string) => boolean>;
+  pageSizes: number[];
+  defaultPageSize: number;
+}
+
+export interface GridPage<T> {
+  rows: T[];
+  totalRows: number;
+  /** The requested page, clamped to the pages that exist. */
+  page: number;
+  pageCount: number;
+}
+
+export const defaultPageSizes = [10, 25, 50, 100];
+
+function readPositiveInteger(value: string | null) {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/** Reads `sort`, `dir`, `page`, `pageSize` and one parameter per filter; anything invalid falls back to the default. */
+export function parseGridQuery<T, S extends string, F extends string>(spec: GridSpec<T, S, F>, params: URLSearchParams): GridQuery<S, F> {
+  const sortRaw = params.get("sort")?.toLowerCase();
+  const sort = (Object.keys(spec.sortKeys) as S[]).find((key) => key.toLowerCase() === sortRaw) ?? null;
+  const pageSize = readPositiveInteger(params.get("pageSize"));
+
+  const filters: Partial<Record<F, string>> = {};
+  for (const name of Object.keys(spec.filters) as F[]) {
+    const value = params.get(name)?.trim();
+    if (value) filters[name] = value;
+  }
+
+  return {
+    sort,
+    direction: params.get("dir")?.toLowerCase() === "desc" ? "desc" : "asc",
+    page: readPositiveInteger(params.get("page")) ?? 1,
+    pageSize: pageSize !== null && spec.pageSizes.includes(pageSize) ? pageSize : spec.defaultPageSize,
+    filters
+  };
+}
+
+/** The query string parameters for a grid query, leaving out the defaults so URLs stay short. */
+export function gridQueryToRoute<T, S extends string, F extends string>(spec: GridSpec<T, S, F>, query: GridQuery<S, F>): RouteQuery {
+  const route: RouteQuery = { ...query.filters };
+  if (query.sort) {
+    route.sort = query.sort;
+    if (query.direction === "desc") route.dir = "desc";
+  }
+  if (query.page > 1) route.page = query.page;
+  if (query.pageSize !== spec.defaultPageSize) route.pageSize = query.pageSize;
+  return route;
+}
+
+function compareValues(a: string | number, b: string | number) {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), "en-US", { sensitivity: "base", numeric: true });
+}
+
+/** Filters, then sorts (stably), then cuts out the requested page. */
+export function applyGridQuery<T, S extends string, F extends string>(spec: GridSpec<T, S, F>, rows: T[], query: GridQuery<S, F>): GridPage<T> {
+  let result = rows;
+  for (const [name, value] of Object.entries(query.filters) as [F, string | undefined][]) {
+    if (value) result = result.filter((row) => spec.filters[name](row, value));
+  }
+
+  if (query.sort) {
+    const key = spec.sortKeys[query.sort];
+    const sign = query.direction === "desc" ? -1 : 1;
+    result = result
+      .map((row, index) => ({ row, index, value: key(row) }))
+      .sort((a, b) => sign * compareValues(a.value, b.value) || a.index - b.index)
+      .map((item) => item.row);
+  }
+
+  const totalRows = result.length;
+  const pageCount = Math.max(1, Math.ceil(totalRows / query.pageSize));
+  const page = Math.min(query.page, pageCount);
+  return {
+    rows: result.slice((page - 1) * query.pageSize, page * query.pageSize),
+    totalRows,
+    page,
+    pageCount
+  };
+}
+
+/** Case-insensitive "contains", the usual text filter. */
+export function containsText(value: string, search: string) {
+  return value.toLowerCase().includes(search.toLowerCase());
+}
@@ -0,0 +1,106 @@
+export interface LoadTestOptions {
+  /** How many requests are kept in flight at once. */
+  concurrency: number;
+  durationMs: number;
+  request: (signal: AbortSignal) => Promise<unknown>;
+  signal?: AbortSignal;
+  /** Called after every completed request with the counts so far. */
+  onProgress?: (completed: number, errors: number) => void;
+}
+
+export interface LatencySummary {
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadTestResult {
+  concurrency: number;
+  durationMs: number;
+  /** From the first request starting to the last one finishing. */
+  elapsedMs: number;
+  requests: number;
+  errors: number;
+  requestsPerSecond: number;
+  latencyMs: LatencySummary;
+  /** One of each distinct error message, so a failing run says why. */
+  errorMessages: string[];
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+/** Nearest-rank percentile over latencies already sorted ascending. */
+function percentile(sorted: number[], fraction: number) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+export function summariseLatencies(latencies: number[]): LatencySummary {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    min: round(sorted[0] ?? 0),
+    mean: round(sorted.length > 0 ? total / sorted.length : 0),
+    p50: round(percentile(sorted, 0.5)),
+    p90: round(percentile(sorted, 0.9)),
+    p95: round(percentile(sorted, 0.95)),
+    p99: round(percentile(sorted, 0.99)),
+    max: round(sorted[sorted.length - 1] ?? 0)
+  };
+}
+
+/**
+ * Keeps `concurrency` requests in flight until `durationMs` has passed, then waits for the
+ * last ones to finish. Latency covers successful and failed requests alike; a request that
+ * is still running when the signal aborts is not counted.
+ */
+export async function runLoadTest({ concurrency, durationMs, request, signal, onProgress }: LoadTestOptions): Promise<LoadTestResult> {
+  const latencies: number[] = [];
+  const errorMessages = new Set<string>();
+  let errors = 0;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort, { once: true });
+
+  const startedAt = performance.now();
+  const stopAt = startedAt + durationMs;
+
+  const worker = async () => {
+    while (performance.now() < stopAt && !controller.signal.aborted) {
+      const requestStart = performance.now();
+      try {
+        await request(controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        errors++;
+        errorMessages.add(error instanceof Error ? error.message : "The request failed.");
+      }
+      latencies.push(performance.now() - requestStart);
+      onProgress?.(latencies.length, errors);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  } finally {
+    signal?.removeEventListener("abort", abort);
+  }
+
+  const elapsedMs = performance.now() - startedAt;
+  return {
+    concurrency,
+    durationMs,
+    elapsedMs: Math.round(elapsedMs),
+    requests: latencies.length,
+    errors,
+    requestsPerSecond: round(elapsedMs > 0 ? (latencies.length * 1000) / elapsedMs : 0),
+    latencyMs: summariseLatencies(latencies),
+    errorMessages: [...errorMessages]
+  };
+}
@@ -0,0 +1,159 @@
+import conversionConfig from "../../conversion-config.json";
+import type { PageHead } from "./documentHead";
+
+/**
+ * The actions each controller exposes, as typed unions. The route table itself is built from
+ * the `routes` map in conversion-config.json, and the two are checked against each other below.
+ */
+const controllerActions = {
+  Home: ["Index", "About", "Contact", "CodeView", "Internals"],
+  Posts: ["Index", "Create", "Edit", "Details", "Delete", "Delay", "LoadTest", "CodeView", "Reset", "NumPosts"],
+  PostsAsync: ["Index", "Create", "Edit", "Details", "Delete", "Delay", "LoadTest", "CodeView", "Reset", "NumPosts"],
+  Tags: ["Index", "Create", "Edit", "Details", "Delete", "CodeView"],
+  TagsAsync: ["Index", "Create", "Edit", "Details", "Delete", "CodeView"],
+  Blogs: ["Index", "Create", "Edit", "Delete", "Analyse", "RunAction", "CodeView"]
+} as const;
+
+export type ControllerName = keyof typeof controllerActions;
+
+export type ActionOf<C extends ControllerName> = (typeof controllerActions)[C][number];
+
+/**
+ * Each action's page title, the ViewBag.Title its view sets. An action not listed is titled
+ * "{action} - {controller}"; `{title}` stands for the row the page shows, and while that is not
+ * known the page takes the default title.
+ */
+const pageTitles: { [C in ControllerName]: Partial<Record<ActionOf<C>, string>> } = {
+  Home: { Index: "Index", About: "About", Contact: "Contact", CodeView: "CodeView", Internals: "Internals" },
+  Posts: { Index: "Posts", Details: "Details: {title}", Delay: "Posts Delay" },
+  PostsAsync: { Index: "PostsAsync", Details: "Details: {title}", Delay: "PostsAsync Delay" },
+  Tags: { Index: "Tags", Details: "Details: {title}" },
+  TagsAsync: { Index: "TagsAsync", Details: "Details: {title}" },
+  Blogs: { Index: "Blogs", Analyse: "Analyse: {title}" }
+};
+
+const controllerDescriptions: Record<ControllerName, string> = {
+  Home: "A basic introduction to the GenericServices Framework's CRUD commands in an MVC web application.",
+  Posts: "List, filter, create, edit and delete blog posts with the GenericServices CRUD commands.",
+  PostsAsync: "List, create, edit and delete blog posts with the async GenericServices CRUD commands.",
+  Tags: "List, create, edit and delete the tags posts are filed under.",
+  TagsAsync: "List, create, edit and delete tags with the async GenericServices CRUD commands.",
+  Blogs: "The bloggers, with a business method that analyses their posts and a long-running action."
+};
+
+/**
+ * What `{controller}/{action}/{id}` resolved to. An unknown action and an id that is not a
+ * number are results of their own, so the screen can show a 404.
+ */
+export type MvcRoute<C extends ControllerName> =
+  | { kind: "action"; controller: C; action: ActionOf<C>; id: number | null; query: URLSearchParams }
+  | { kind: "unknown-action"; controller: C; action: string }
+  | { kind: "bad-id"; controller: C; action: ActionOf<C>; id: string };
+
+interface ControllerRoutes {
+  name: string;
+  /** Lower-cased action name to its canonical casing, for case-insensitive matching. */
+  actions: Map<string, string>;
+}
+
+// Parses patterns such as "/Posts/Edit/{id}" into one entry per controller.
+function buildRouteTable(routes: Record<string, string[]>) {
+  const table = new Map<string, ControllerRoutes>();
+  for (const pattern of Object.values(routes).flat()) {
+    const [controller, action] = pattern.split("/").filter(Boolean);
+    const entry = table.get(controller.toLowerCase()) ?? { name: controller, actions: new Map<string, string>() };
+    entry.actions.set(action.toLowerCase(), action);
+    table.set(controller.toLowerCase(), entry);
+  }
+  return table;
+}
+
+const routeTable = buildRouteTable(conversionConfig.routes);
+
+for (const [controller, actions] of Object.entries(controllerActions)) {
+  const configured = routeTable.get(controller.toLowerCase());
+  const typed = new Set<string>(actions);
+  const missing = actions.filter((action) => !configured?.actions.has(action.toLowerCase()));
+  const untyped = [...(configured?.actions.values() ?? [])].filter((action) => !typed.has(action));
+  if (missing.length > 0 || untyped.length > 0) {
+    throw new Error(
+      `The ${controller} actions are out of step with conversion-config.json (missing: ${missing.join(", ") || "none"}, untyped: ${untyped.join(", ") || "none"}).`
+    );
+  }
+}
+
+function parseId(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+/**
+ * Resolves a path the way RouteConfig's default route does: `{controller}/{action}/{id}` with
+ * Index as the default action and an optional id, matched case-insensitively.
+ */
+export function resolveMvcRoute<C extends ControllerName>(controller: C, pathname: string, search = ""): MvcRoute<C> {
+  const [, actionRaw = "Index", idRaw, ...rest] = pathname.split("/").filter(Boolean);
+  const action = routeTable.get(controller.toLowerCase())?.actions.get(actionRaw.toLowerCase());
+  if (!action || rest.length > 0) {
+    return { kind: "unknown-action", controller, action: actionRaw };
+  }
+
+  const id = parseId(idRaw);
+  if (idRaw && id === null) {
+    return { kind: "bad-id", controller, action: action as ActionOf<C>, id: idRaw };
+  }
+
+  return {
+    kind: "action",
+    controller,
+    action: action as ActionOf<C>,
+    id,
+    query: new URLSearchParams(search)
+  };
+}
+
+/**
+ * The head a route's page starts with, from the definitions above. `rowTitle` fills `{title}`
+ * once the page has loaded its row. A route that names no action gets the 404 page's title.
+ */
+export function routeHead<C extends ControllerName>(route: MvcRoute<C>, rowTitle?: string): PageHead {
+  if (route.kind !== "action") return { title: "Not Found" };
+
+  const { controller, action, id } = route;
+  const fallback = `${action} - ${controller}`;
+  const template: string = pageTitles[controller][action] ?? fallback;
+  const title = !template.includes("{title}") ? template : rowTitle ? template.replace("{title}", rowTitle) : fallback;
+  return {
+    title,
+    description: controllerDescriptions[controller],
+    canonicalPath: actionUrl(controller, action, id)
+  };
+}
+
+export type RouteQuery = Record<string, string | number | undefined>;
+
+/** Builds the URL for an action, like MVC's Url.Action, so links never hand-assemble paths. */
+export function actionUrl<C extends ControllerName>(
+  controller: C,
+  action: ActionOf<C>,
+  id?: number | null,
+  query?: RouteQuery
+) {
+  const path = id === undefined || id === null ? `/${controller}/${action}` : `/${controller}/${action}/${id}`;
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * The `returnUrl` an action was given, if it is a path on this site, like MVC's Url.IsLocalUrl
+ * check; otherwise the fallback. Stops a crafted link from redirecting to another host.
+ */
+export function localReturnUrl(value: string | null | undefined, fallback: string) {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) return fallback;
+  return value;
+}
@@ -0,0 +1,180 @@
+import conversionConfig from "../../conversion-config.json";
+import { logError } from "./errorLogger";
+
+/** "memory" keeps the data in the browser; "http" uses the mock API served by the dev server. */
+export type DataSource = "memory" | "http";
+
+/** Whether the in-browser data survives a page load; the "http" data source keeps it on the server instead. */
+export type DataPersistence = "none" | "localStorage";
+
+/** The migrated screens a deployment can switch off, named as in conversion-config.json's `routes`. */
+export type FeatureName = Exclude<keyof typeof conversionConfig.routes, "home">;
+
+/**
+ * How this deployment runs, in place of the legacy Web.config settings and their Debug,
+ * AzureRelease and WebWizRelease transforms.
+ */
+export interface RuntimeConfig {
+  /** Shown in the footer, like the legacy HostTypeString setting: "LocalHost", "WebWiz", "Azure" or any label. */
+  hostType: string;
+  apiBaseUrl: string;
+  dataSource: DataSource;
+  dataPersistence: DataPersistence;
+  /** The artificial delay of the in-browser async data path. */
+  asyncLatencyMs: number;
+  /** A screen that is switched off answers 404 and leaves the menu. */
+  features: Record<FeatureName, boolean>;
+  /** The CodeView pages link to the legacy sources under this URL. */
+  sourceBaseUrl: string;
+}
+
+export type ConfigSource = "default" | "env" | "config.json";
+
+/** The config in use, with where each setting came from and any values that were ignored. */
+export interface ResolvedRuntimeConfig extends RuntimeConfig {
+  sources: Record<keyof RuntimeConfig, ConfigSource>;
+  problems: string[];
+}
+
+export const featureNames = Object.keys(conversionConfig.routes).filter((name): name is FeatureName => name !== "home");
+
+export const defaultRuntimeConfig: RuntimeConfig = {
+  hostType: "local",
+  apiBaseUrl: conversionConfig.api.baseUrl,
+  dataSource: "memory",
+  dataPersistence: "none",
+  asyncLatencyMs: 250,
+  features: Object.fromEntries(featureNames.map((name) => [name, true])) as Record<FeatureName, boolean>,
+  sourceBaseUrl: "https://github.com/JonPSmith/SampleMvcWebApp/blob/master"
+};
+
+/** A partial config from one source; a value that does not parse is left out and reported. */
+type ConfigLayer = { values: Partial<RuntimeConfig>; problems: string[] };
+
+function parseLayer(raw: Record<string, unknown>, source: ConfigSource): ConfigLayer {
+  const values: Partial<RuntimeConfig> = {};
+  const problems: string[] = [];
+  const reject = (key: string, value: unknown, expected: string) =>
+    problems.push(`${source}: ignored ${key} ${JSON.stringify(value)}; expected ${expected}.`);
+
+  const { hostType, apiBaseUrl, dataSource, dataPersistence, asyncLatencyMs, features, sourceBaseUrl } = raw;
+  if (hostType !== undefined) {
+    if (typeof hostType === "string" && hostType.trim() !== "") values.hostType = hostType.trim();
+    else reject("hostType", hostType, "a non-empty label");
+  }
+  if (apiBaseUrl !== undefined) {
+    if (typeof apiBaseUrl === "string" && apiBaseUrl !== "") values.apiBaseUrl = apiBaseUrl.replace(/\/+$/, "");
+    else reject("apiBaseUrl", apiBaseUrl, "a URL or path");
+  }
+  if (dataSource !== undefined) {
+    if (dataSource === "memory" || dataSource === "http") values.dataSource = dataSource;
+    else reject("dataSource", dataSource, '"memory" or "http"');
+  }
+  if (dataPersistence !== undefined) {
+    if (dataPersistence === "none" || dataPersistence === "localStorage") values.dataPersistence = dataPersistence;
+    else reject("dataPersistence", dataPersistence, '"none" or "localStorage"');
+  }
+  if (asyncLatencyMs !== undefined) {
+    const parsed = typeof asyncLatencyMs === "string" ? Number(asyncLatencyMs) : asyncLatencyMs;
+    if (typeof parsed === "number" && Number.isFinite(parsed) && parsed >= 0) values.asyncLatencyMs = parsed;
+    else reject("asyncLatencyMs", asyncLatencyMs, "a number of milliseconds, 0 or more");
+  }
+  if (features !== undefined) {
+    if (features !== null && typeof features === "object" && !Array.isArray(features)) {
+      const entries = Object.entries(features).filter(([name, enabled]) => {
+        const known = (featureNames as string[]).includes(name) && typeof enabled === "boolean";
+        if (!known) reject(`features.${name}`, enabled, `true or false for one of ${featureNames.join(", ")}`);
+        return known;
+      });
+      values.features = Object.fromEntries(entries) as Record<FeatureName, boolean>;
+    } else {
+      reject("features", features, "an object of feature names to true or false");
+    }
+  }
+  if (sourceBaseUrl !== undefined) {
+    if (typeof sourceBaseUrl === "string" && /^https?:\/\//.test(sourceBaseUrl)) values.sourceBaseUrl = sourceBaseUrl.replace(/\/+$/, "");
+    else reject("sourceBaseUrl", sourceBaseUrl, "an http or https URL");
+  }
+  return { values, problems };
+}
+
+/** VITE_DISABLED_FEATURES lists the screens to switch off, e.g. "blogs,postsAsync". */
+function readEnv(env: ImportMetaEnv | undefined): ConfigLayer {
+  if (!env) return { values: {}, problems: [] };
+  const disabled = env.VITE_DISABLED_FEATURES?.split(",").map((name) => name.trim()).filter(Boolean);
+  return parseLayer(
+    {
+      hostType: env.VITE_HOST_TYPE,
+      apiBaseUrl: env.VITE_API_BASE_URL || undefined,
+      dataSource: env.VITE_DATA_SOURCE || undefined,
+      dataPersistence: env.VITE_DATA_PERSISTENCE || undefined,
+      asyncLatencyMs: env.VITE_ASYNC_LATENCY_MS || undefined,
+      features: disabled ? Object.fromEntries(disabled.map((name) => [name, false])) : undefined,
+      sourceBaseUrl: env.VITE_SOURCE_BASE_URL || undefined
+    },
+    "env"
+  );
+}
+
+/** Applies the layers in order, later ones winning; features are merged one by one. */
+function resolveRuntimeConfig(layers: Array<{ source: ConfigSource; layer: ConfigLayer }>): ResolvedRuntimeConfig {
+  const resolved: ResolvedRuntimeConfig = {
+    ...defaultRuntimeConfig,
+    features: { ...defaultRuntimeConfig.features },
+    sources: { hostType: "default", apiBaseUrl: "default", dataSource: "default", dataPersistence: "default", asyncLatencyMs: "default", features: "default", sourceBaseUrl: "default" },
+    problems: []
+  };
+  for (const { source, layer } of layers) {
+    const { features, ...rest } = layer.values;
+    Object.assign(resolved, rest);
+    (Object.keys(rest) as Array<keyof RuntimeConfig>).forEach((key) => {
+      resolved.sources[key] = source;
+    });
+    if (features && Object.keys(features).length > 0) {
+      Object.assign(resolved.features, features);
+      resolved.sources.features = source;
+    }
+    resolved.problems.push(...layer.problems);
+  }
+  return resolved;
+}
+
+// The mock API imports this module under Node, where there is no import.meta.env.
+const envLayer = readEnv(import.meta.env);
+let current = resolveRuntimeConfig([{ source: "env", layer: envLayer }]);
+
+export function getRuntimeConfig(): ResolvedRuntimeConfig {
+  return current;
+}
+
+export function isFeatureEnabled(feature: FeatureName) {
+  return current.features[feature];
+}
+
+/**
+ * Reads the optional `config.json` served next to the bundle, so one build can be deployed to
+ * several hosts, and puts it over the Vite env settings. A missing file is normal; a broken one
+ * is reported and left out. Call it before the services are created.
+ */
+export async function loadRuntimeConfig(url = "/config.json"): Promise<ResolvedRuntimeConfig> {
+  const layers: Array<{ source: ConfigSource; layer: ConfigLayer }> = [{ source: "env", layer: envLayer }];
+  try {
+    const response = await fetch(url, { cache: "no-store", headers: { Accept: "application/json" } });
+    // The dev server answers a missing file with index.html, so only JSON counts as a config file.
+    if (response.ok && response.headers.get("content-type")?.includes("json")) {
+      const raw: unknown = await response.json();
+      layers.push({
+        source: "config.json",
+        layer: raw !== null && typeof raw === "object" && !Array.isArray(raw)
+          ? parseLayer(raw as Record<string, unknown>, "config.json")
+          : { values: {}, problems: ["config.json: ignored; expected an object of settings."] }
+      });
+    }
+  } catch (error) {
+    layers.push({ source: "config.json", layer: { values: {}, problems: [`config.json: could not be read (${String(error)}).`] } });
+  }
+
+  current = resolveRuntimeConfig(layers);
+  current.problems.forEach((problem) => logError("RuntimeConfig", problem));
+  return current;
+}
@@ -0,0 +1,171 @@
+/**
+ * Excerpts of the legacy sources for the CodeView pages. They are cut out and highlighted at
+ * build time by sourceExcerptsPlugin, so the bundle carries only the lines each page shows.
+ */
+
+export type SourceLanguage = "csharp" | "razor" | "text";
+
+export type TokenKind = "plain" | "keyword" | "type" | "string" | "number" | "comment" | "tag";
+
+export type SourceToken = [kind: TokenKind, text: string];
+
+export interface SourceExcerpt {
+  /** The file's path in the legacy solution, e.g. "SampleWebApp/Controllers/PostsController.cs". */
+  path: string;
+  language: SourceLanguage;
+  /** What was asked for: a member name such as "Edit", or a line range such as "52-60". */
+  selection: string;
+  /** Line numbers in the file, so anchors and GitHub links point at the same lines. */
+  startLine: number;
+  endLine: number;
+  lines: SourceToken[][];
+}
+
+/** Which lines to cut out: every declaration of a member, or a range of lines. */
+export type ExcerptSelector = { member: string } | { lines: [start: number, end: number] };
+
+export function languageOf(path: string): SourceLanguage {
+  if (path.endsWith(".cs")) return "csharp";
+  if (path.endsWith(".cshtml")) return "razor";
+  return "text";
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Braces inside strings, chars and line comments do not count towards the block's depth.
+const stripLiterals = (line: string) => line.replace(/@?"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)'|\/\/.*$/g, "");
+
+/** The index of the line that closes the block opened at or after `start`. */
+function blockEnd(lines: string[], start: number) {
+  let depth = 0;
+  let opened = false;
+  for (let index = start; index < lines.length; index++) {
+    for (const char of stripLiterals(lines[index])) {
+      if (char === "{") {
+        depth++;
+        opened = true;
+      } else if (char === "}") {
+        depth--;
+      }
+    }
+    if (opened && depth <= 0) return index;
+    // An expression-bodied member or a field ends on its own line.
+    if (!opened && /[;]\s*$/.test(lines[index])) return index;
+  }
+  throw new Error(`The block starting on line ${start + 1} is never closed.`);
+}
+
+/** Every declaration of the member, with the attributes and doc comments above it, as one span of lines. */
+function memberRange(lines: string[], member: string): [number, number] {
+  const declaration = new RegExp(`\\b(public|protected|private|internal)\\b[^;=]*?\\b${escapeRegExp(member)}\\b\\s*(\\(|<|:|\\{|$)`);
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (!declaration.test(line) || ranges.some(([, end]) => index <= end)) return;
+    let start = index;
+    while (start > 0 && /^\s*(\[|\/\/\/)/.test(lines[start - 1])) start--;
+    ranges.push([start, blockEnd(lines, index)]);
+  });
+  if (ranges.length === 0) throw new Error(`No declaration of '${member}' was found.`);
+  return [ranges[0][0], ranges[ranges.length - 1][1]];
+}
+
+function dedent(lines: string[]) {
+  const indents = lines.filter((line) => line.trim() !== "").map((line) => /^\s*/.exec(line)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common));
+}
+
+const csharpKeywords = new Set(
+  (
+    "abstract as async await base bool break case catch class const continue decimal default delegate do double else enum " +
+    "false finally float for foreach get if in int interface internal is long namespace new null object out override params " +
+    "private protected public readonly ref return sealed set static string struct switch this throw true try typeof using " +
+    "var virtual void while yield"
+  ).split(" ")
+);
+
+const csharpToken = /(\/\/.*$)|(\/\*)|(@?"(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)')|(\b\d+(?:\.\d+)?[fFdDmMlL]?\b)|([A-Za-z_]\w*)|(\s+|.)/y;
+const razorToken = /(@\*|<!--)|(<\/?[A-Za-z][\w.:-]*|\/?>)|("[^"]*"?)|(@[A-Za-z_]\w*)|([A-Za-z_]\w*|\s+|.)/y;
+
+function wordKind(word: string): TokenKind {
+  if (csharpKeywords.has(word)) return "keyword";
+  return /^[A-Z]/.test(word) ? "type" : "plain";
+}
+
+/**
+ * Splits each line into highlighted tokens. A block comment that spans lines is carried over,
+ * which is all the state C# and Razor need for a readable result.
+ */
+export function highlightLines(lines: string[], language: SourceLanguage): SourceToken[][] {
+  let commentEnd: string | null = null;
+
+  return lines.map((line) => {
+    const tokens: SourceToken[] = [];
+    const push = (kind: TokenKind, text: string) => {
+      const last = tokens[tokens.length - 1];
+      if (last && last[0] === kind) last[1] += text;
+      else if (text) tokens.push([kind, text]);
+    };
+
+    let position = 0;
+    while (position < line.length) {
+      if (commentEnd) {
+        const end = line.indexOf(commentEnd, position);
+        const stop = end < 0 ? line.length : end + commentEnd.length;
+        push("comment", line.slice(position, stop));
+        if (end >= 0) commentEnd = null;
+        position = stop;
+        continue;
+      }
+      if (language === "text") {
+        push("plain", line.slice(position));
+        break;
+      }
+
+      const pattern = language === "csharp" ? csharpToken : razorToken;
+      pattern.lastIndex = position;
+      const match = pattern.exec(line)!;
+      position = pattern.lastIndex;
+      const [text, first, second, third, fourth, word] = match;
+
+      if (language === "csharp") {
+        if (first) push("comment", text);
+        else if (second) {
+          commentEnd = "*/";
+          push("comment", text);
+        } else if (third) push("string", text);
+        else if (fourth) push("number", text);
+        else if (word) push(wordKind(word), text);
+        else push("plain", text);
+      } else {
+        if (first) {
+          commentEnd = first === "@*" ? "*@" : "-->";
+          push("comment", text);
+        } else if (second) push("tag", text);
+        else if (third) push("string", text);
+        else if (fourth) push("keyword", text);
+        else push("plain", text);
+      }
+    }
+    return tokens;
+  });
+}
+
+/** Cuts the selected lines out of a source file and highlights them. */
+export function createExcerpt(path: string, source: string, selector: ExcerptSelector): SourceExcerpt {
+  const lines = source.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const [start, end] = "member" in selector ? memberRange(lines, selector.member) : [selector.lines[0] - 1, selector.lines[1] - 1];
+  if (start < 0 || end >= lines.length || start > end) {
+    throw new Error(`Lines ${start + 1}-${end + 1} are outside ${path}, which has ${lines.length} lines.`);
+  }
+
+  const language = languageOf(path);
+  return {
+    path,
+    language,
+    selection: "member" in selector ? selector.member : `${start + 1}-${end + 1}`,
+    startLine: start + 1,
+    endLine: end + 1,
+    lines: highlightLines(dedent(lines.slice(start, end + 1)), language)
+  };
+}
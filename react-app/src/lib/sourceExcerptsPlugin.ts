@@ -0,0 +1,41 @@
+import { readFileSync } from "node:fs";
+import { resolve, sep } from "node:path";
+import type { Plugin } from "vite";
+import { createExcerpt, type ExcerptSelector } from "./sourceExcerpt";
+
+const prefix = "legacy-source:";
+const resolvedPrefix = `\0${prefix}`;
+
+function parseSelector(id: string, query: URLSearchParams): ExcerptSelector {
+  const member = query.get("member");
+  const lines = query.get("lines");
+  if (member) return { member };
+  const range = /^(\d+)-(\d+)$/.exec(lines ?? "");
+  if (range) return { lines: [Number(range[1]), Number(range[2])] };
+  throw new Error(`${id} needs ?member=Name or ?lines=start-end.`);
+}
+
+/**
+ * Serves `legacy-source:<path>?member=Edit` and `legacy-source:<path>?lines=52-60` imports: the
+ * lines are read from the legacy solution and highlighted when the bundle is built, and the
+ * source file is watched so the dev server picks up edits to it.
+ */
+export function sourceExcerptsPlugin(legacyRoot: string): Plugin {
+  return {
+    name: "sample-mvc-source-excerpts",
+    resolveId(id) {
+      return id.startsWith(prefix) ? `\0${id}` : null;
+    },
+    load(id) {
+      if (!id.startsWith(resolvedPrefix)) return null;
+
+      const [path, search = ""] = id.slice(resolvedPrefix.length).split("?");
+      const file = resolve(legacyRoot, path);
+      if (!file.startsWith(resolve(legacyRoot) + sep)) throw new Error(`${path} is outside the legacy sources.`);
+
+      this.addWatchFile(file);
+      const excerpt = createExcerpt(path, readFileSync(file, "utf8"), parseSelector(id.slice(1), new URLSearchParams(search)));
+      return `export default ${JSON.stringify(excerpt)};`;
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { createStore } from "../data/createStore";
+import { undoDeleteWindowMs } from "../data/recycleBin";
+import { flattenErrors, type ISuccessOrErrors } from "../services/successOrErrors";
+
+/** Lets the message after a delete offer to undo it, on the same controller's index, until it expires. */
+export interface TempDataUndo {
+  controller: string;
+  id: number;
+  expiresAtUtc: string;
+}
+
+/**
+ * The two TempData keys the legacy controllers set before redirecting: "message" for the
+ * success text and "errorMessage" for ErrorsAsHtml, kept here as a list of error lines.
+ * `undo` has no legacy counterpart.
+ */
+export interface TempDataEntry {
+  message: string | null;
+  errorMessage: string[] | null;
+  undo?: TempDataUndo | null;
+}
+
+function isTempDataUndo(value: unknown): value is TempDataUndo {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.controller === "string" && typeof candidate.id === "number" && typeof candidate.expiresAtUtc === "string";
+}
+
+const storageKey = "SampleMvcWebApp.tempData";
+
+function isTempDataEntry(value: unknown): value is TempDataEntry {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return (candidate.message === null || typeof candidate.message === "string")
+    && (candidate.errorMessage === null || Array.isArray(candidate.errorMessage))
+    && (candidate.undo === undefined || candidate.undo === null || isTempDataUndo(candidate.undo));
+}
+
+// TempData lives in the session, so a message waiting for the next page also survives a reload.
+function loadPersisted(): TempDataEntry | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.sessionStorage.getItem(storageKey);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return isTempDataEntry(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const tempDataStore = createStore<TempDataEntry | null>(loadPersisted());
+
+if (typeof window !== "undefined") {
+  tempDataStore.subscribe(() => {
+    try {
+      const entry = tempDataStore.getState();
+      if (entry) window.sessionStorage.setItem(storageKey, JSON.stringify(entry));
+      else window.sessionStorage.removeItem(storageKey);
+    } catch {
+      // Storage can be full or disabled; the message still reaches the next page in memory.
+    }
+  });
+}
+
+function put(entry: TempDataEntry) {
+  tempDataStore.setState(() => entry);
+}
+
+export const tempData = {
+  setMessage(message: string | null) {
+    put({ message, errorMessage: null });
+  },
+  /** One error shows as a single line; several show as a list, like ErrorsAsHtml. */
+  setErrorMessage(errors: string | string[]) {
+    put({ message: null, errorMessage: Array.isArray(errors) ? errors : [errors] });
+  },
+  /** What every controller action does with a service response before redirecting to Index. */
+  setFromStatus(status: ISuccessOrErrors) {
+    if (status.isValid) this.setMessage(status.successMessage);
+    else this.setErrorMessage(flattenErrors(status.errors));
+  },
+  /** The outcome of a delete; a successful one can be undone from the next page for a short while. */
+  setFromDelete(status: ISuccessOrErrors, controller: string, id: number) {
+    if (!status.isValid) {
+      this.setFromStatus(status);
+      return;
+    }
+    const expiresAtUtc = new Date(Date.now() + undoDeleteWindowMs).toISOString();
+    put({ message: status.successMessage, errorMessage: null, undo: { controller, id, expiresAtUtc } });
+  },
+  /** Reads and removes the entry, so each message is shown by exactly one page. */
+  take(): TempDataEntry | null {
+    const entry = tempDataStore.getState();
+    if (entry) tempDataStore.setState(() => null);
+    return entry;
+  },
+  subscribe: tempDataStore.subscribe
+};
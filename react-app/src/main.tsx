@@ -2,12 +2,19 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import App from "./App";
+import { loadRuntimeConfig } from "./lib/runtimeConfig";
+import { ServicesProvider } from "./services/ServicesContext";
 import "./styles/base.css";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <BrowserRouter>
-      <App />
-    </BrowserRouter>
-  </React.StrictMode>
-);
+// The services read the runtime config when they are created, so it is loaded first.
+void loadRuntimeConfig().then(() => {
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <BrowserRouter>
+        <ServicesProvider>
+          <App />
+        </ServicesProvider>
+      </BrowserRouter>
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,210 @@
+import { isAbortError, wait } from "../data/asyncData";
+import type { ActionConfigFlag, ActionEvent, ProgressMessage } from "../lib/actionRunner";
+import {
+  errorsAsText,
+  failure,
+  type FieldErrorMap,
+  type ISuccessOrErrorsWithResult,
+  successWithResult
+} from "../services/successOrErrors";
+
+export interface ActionContext {
+  /** Aborted when the user cancels; pass it to anything that waits. */
+  signal: AbortSignal;
+  report(percentDone: number, message?: ProgressMessage): void;
+}
+
+/** A long-running server action, the stand-in for GenericActions' IActionComms classes. */
+export interface ServerAction<P> {
+  parseParams(params: unknown): ISuccessOrErrorsWithResult<P>;
+  configFlags(params: P): ActionConfigFlag[];
+  run(params: P, context: ActionContext): Promise<ISuccessOrErrorsWithResult<unknown>>;
+}
+
+type ActionListener = (event: ActionEvent) => void;
+
+interface RunningAction {
+  actionGuid: string;
+  createdAt: number;
+  status: "waiting" | "running" | "stopped";
+  /** Every event sent so far, replayed to a channel that connects late. */
+  events: ActionEvent[];
+  listeners: Set<ActionListener>;
+  cancelSupported: boolean;
+  controller: AbortController;
+  start(): void;
+}
+
+/** Actions that were never connected to, or never ended, are dropped after this long. */
+const staleAfterMs = 10 * 60 * 1000;
+
+/**
+ * The ActionHub: starts actions by name, streams their events to whoever is listening and
+ * honours Cancel/End from the client. An action only runs once its channel has connected.
+ */
+export function createActionHub(actions: Record<string, ServerAction<unknown>>) {
+  const running = new Map<string, RunningAction>();
+
+  function removeStale() {
+    const cutoff = Date.now() - staleAfterMs;
+    for (const [actionGuid, entry] of running) {
+      if (entry.status !== "running" && entry.createdAt < cutoff) running.delete(actionGuid);
+    }
+  }
+
+  function start(actionName: string, rawParams: unknown): ISuccessOrErrorsWithResult<{ actionGuid: string }> {
+    const action = Object.entries(actions).find(([name]) => name.toLowerCase() === actionName.toLowerCase())?.[1];
+    if (!action) return failure({ "": [`There is no action called '${actionName}'.`] });
+
+    const parsed = action.parseParams(rawParams);
+    if (!parsed.isValid) return failure(parsed.errors);
+    const params = parsed.result;
+
+    removeStale();
+    const actionGuid = crypto.randomUUID();
+    const flags = action.configFlags(params);
+
+    const entry: RunningAction = {
+      actionGuid,
+      createdAt: Date.now(),
+      status: "waiting",
+      events: [],
+      listeners: new Set(),
+      cancelSupported: !flags.includes("CancelNotSupported"),
+      controller: new AbortController(),
+      start() {
+        entry.status = "running";
+        void runAction(entry, action, params, flags);
+      }
+    };
+    running.set(actionGuid, entry);
+    return successWithResult({ actionGuid });
+  }
+
+  function send(entry: RunningAction, event: ActionEvent) {
+    entry.events.push(event);
+    for (const listener of entry.listeners) listener(event);
+  }
+
+  async function runAction(entry: RunningAction, action: ServerAction<unknown>, params: unknown, flags: ActionConfigFlag[]) {
+    const { actionGuid, controller } = entry;
+    send(entry, { type: "started", actionGuid, configFlags: flags });
+
+    let stopMessage: ProgressMessage;
+    let jsonResult: unknown = null;
+    try {
+      const status = await action.run(params, {
+        signal: controller.signal,
+        report(percentDone, message) {
+          send(entry, { type: "progress", actionGuid, percentDone, message: message ?? null });
+        }
+      });
+      if (status.isValid) {
+        jsonResult = status.result;
+        stopMessage = { messageType: "Finished", messageText: status.successMessage || "Finished." };
+      } else {
+        stopMessage = { messageType: "Failed", messageText: errorsAsText(status) };
+      }
+    } catch (error) {
+      stopMessage = isAbortError(error)
+        ? { messageType: "Cancelled", messageText: "Cancelled by user." }
+        : { messageType: "Failed", messageText: error instanceof Error ? error.message : "The action failed." };
+    }
+
+    entry.status = "stopped";
+    entry.createdAt = Date.now();
+    send(entry, { type: "stopped", actionGuid, message: stopMessage, jsonResult });
+  }
+
+  return {
+    start,
+    /** Returns null for an unknown action; otherwise replays what was sent and follows the rest. */
+    subscribe(actionGuid: string, listener: ActionListener) {
+      const entry = running.get(actionGuid);
+      if (!entry) return null;
+
+      for (const event of entry.events) listener(event);
+      entry.listeners.add(listener);
+      if (entry.status === "waiting") entry.start();
+
+      return () => {
+        entry.listeners.delete(listener);
+      };
+    },
+    /** False when the action is unknown or does not support cancelling. */
+    cancel(actionGuid: string) {
+      const entry = running.get(actionGuid);
+      if (!entry || !entry.cancelSupported) return false;
+      entry.controller.abort();
+      return true;
+    },
+    end(actionGuid: string) {
+      return running.delete(actionGuid);
+    }
+  };
+}
+
+export type ActionHub = ReturnType<typeof createActionHub>;
+
+export type TestActionMode = "Normal" | "WarningsAndErrors" | "Fail" | "NotCancellable";
+
+export interface TestActionParams {
+  numIterations: number;
+  msBetweenIterations: number;
+  mode: TestActionMode;
+}
+
+const testActionModes: TestActionMode[] = ["Normal", "WarningsAndErrors", "Fail", "NotCancellable"];
+
+function readInteger(value: unknown, field: string, min: number, max: number, errors: FieldErrorMap) {
+  const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+    errors[field] = [`The field ${field} must be between ${min} and ${max}.`];
+    return min;
+  }
+  return parsed;
+}
+
+/**
+ * The CommsTestAction used to exercise the runner: it counts through its iterations, and
+ * the mode decides whether it sends warnings and errors, fails half way or refuses cancel.
+ */
+export const testAction: ServerAction<TestActionParams> = {
+  parseParams(params) {
+    const source = params && typeof params === "object" ? (params as Record<string, unknown>) : {};
+    const errors: FieldErrorMap = {};
+    const numIterations = readInteger(source.numIterations, "NumIterations", 1, 100, errors);
+    const msBetweenIterations = readInteger(source.msBetweenIterations, "MsBetweenIterations", 0, 5000, errors);
+    const mode = testActionModes.find((item) => item === source.mode);
+    if (!mode) errors.Mode = ["The Mode field is not a valid test mode."];
+
+    if (Object.keys(errors).length > 0) return failure(errors);
+    return successWithResult({ numIterations, msBetweenIterations, mode: mode! });
+  },
+  configFlags(params) {
+    return params.mode === "NotCancellable" ? ["CancelNotSupported"] : [];
+  },
+  async run({ numIterations, msBetweenIterations, mode }, { signal, report }) {
+    report(0, { messageType: "Info", messageText: `Received NumIterations = ${numIterations}, MsBetweenIterations = ${msBetweenIterations}.` });
+    // A non-cancellable action never sees the abort, like an action that ignores its token.
+    const waitSignal = mode === "NotCancellable" ? undefined : signal;
+
+    for (let iteration = 1; iteration <= numIterations; iteration++) {
+      await wait(msBetweenIterations, waitSignal);
+      if (mode === "Fail" && iteration > numIterations / 2) {
+        throw new Error(`The action failed on purpose at iteration ${iteration}.`);
+      }
+
+      const percentDone = Math.round((iteration * 100) / numIterations);
+      let message: ProgressMessage = { messageType: "Info", messageText: `Iteration ${iteration} of ${numIterations} done.` };
+      if (mode === "WarningsAndErrors" && iteration % 5 === 0) {
+        message = { messageType: "Error", messageText: `Iteration ${iteration} reported an error.` };
+      } else if (mode === "WarningsAndErrors" && iteration % 3 === 0) {
+        message = { messageType: "Warning", messageText: `Iteration ${iteration} reported a warning.` };
+      }
+      report(percentDone, message);
+    }
+
+    return successWithResult({ iterationsRun: numIterations }, `Successfully ran ${numIterations} iterations.`);
+  }
+};
@@ -0,0 +1,47 @@
+/** Like ASP.NET session state, a session that sees no requests for this long is dropped. */
+export const sessionIdleTimeoutMs = 20 * 60 * 1000;
+
+export interface IssuedToken {
+  sessionId: string;
+  token: string;
+}
+
+export interface Antiforgery {
+  /** Returns the session's token, starting a new session when the id is missing or has expired. */
+  issue(sessionId: string | null): IssuedToken;
+  /** True when the session exists and the token is the one issued to it; a valid request keeps the session alive. */
+  validate(sessionId: string | null, token: string | null): boolean;
+}
+
+/**
+ * Stands in for `[ValidateAntiForgeryToken]`: the session id travels in a cookie and the token
+ * in a request header, and a POST is only accepted when the two belong together.
+ */
+export function createAntiforgery(idleTimeoutMs = sessionIdleTimeoutMs, now: () => number = Date.now): Antiforgery {
+  const sessions = new Map<string, { token: string; lastSeen: number }>();
+
+  function findLive(sessionId: string | null) {
+    const time = now();
+    sessions.forEach((session, id) => {
+      if (time - session.lastSeen > idleTimeoutMs) sessions.delete(id);
+    });
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) session.lastSeen = time;
+    return session;
+  }
+
+  return {
+    issue: (sessionId) => {
+      const session = findLive(sessionId);
+      if (session && sessionId) return { sessionId, token: session.token };
+
+      const issued = { sessionId: crypto.randomUUID(), token: crypto.randomUUID() };
+      sessions.set(issued.sessionId, { token: issued.token, lastSeen: now() });
+      return issued;
+    },
+    validate: (sessionId, token) => {
+      const session = findLive(sessionId);
+      return !!session && !!token && session.token === token;
+    }
+  };
+}
@@ -0,0 +1,226 @@
+import { wait } from "../data/asyncData";
+import type { BlogRow } from "../data/blogs";
+import { createStore, type Store } from "../data/createStore";
+import { type DataChangeListener, watchChanges } from "../data/dataChanges";
+import { type DatabaseState, initialDatabase } from "../data/database";
+import type { TagRow } from "../data/tags";
+import type { ApiErrorCode, ApiErrorEnvelope } from "../lib/api-client";
+import { createBlogServices } from "../services/blogServices";
+import { createSerialDelay, delayActionMs } from "../services/delayServices";
+import type { InternalsInfo } from "../services/internalsServices";
+import { createPostServices, type DetailPostDto } from "../services/postServices";
+import {
+  errorsAsText,
+  type FieldErrorMap,
+  type ISuccessOrConflict,
+  type ISuccessOrErrorsWithResult
+} from "../services/successOrErrors";
+import { createTagServices } from "../services/tagServices";
+import { createActionHub, testAction } from "./actionHub";
+import { createAntiforgery } from "./antiforgery";
+
+export interface MockApiRequest {
+  method: string;
+  /** The path below the API base, e.g. `/Posts/Details/1`. */
+  path: string;
+  body: unknown;
+  /** From the session cookie. */
+  sessionId?: string | null;
+  /** From the `RequestVerificationToken` header. */
+  antiforgeryToken?: string | null;
+  /** Aborted when the client goes away before it has been answered. */
+  signal?: AbortSignal;
+}
+
+export interface MockApiResponse {
+  status: number;
+  body: unknown;
+  /** Set when the response starts a session, for the transport to store in the cookie. */
+  sessionId?: string;
+}
+
+export interface MockApiOptions {
+  store?: Store<DatabaseState>;
+  getInternals?: () => InternalsInfo;
+}
+
+/** `key` is the raw last segment, for routes keyed by a name or guid rather than a numeric id. */
+type ActionHandler = (
+  id: number | null,
+  body: unknown,
+  key: string | undefined,
+  request: MockApiRequest
+) => MockApiResponse | Promise<MockApiResponse>;
+
+type ControllerRoutes = Record<string, { GET?: ActionHandler; POST?: ActionHandler }>;
+
+function ok(body: unknown): MockApiResponse {
+  return { status: 200, body };
+}
+
+function errorResponse(status: number, code: ApiErrorCode, message: string, errors: FieldErrorMap = {}): MockApiResponse {
+  const body: ApiErrorEnvelope = { error: { status, code, message, errors } };
+  return { status, body };
+}
+
+/** A failed command is a validation problem, reported with its errors in the envelope, or a concurrency conflict. */
+function fromStatus<T>(status: ISuccessOrConflict<T>): MockApiResponse {
+  if (status.isValid) return ok(status);
+  if (status.conflict) {
+    const body: ApiErrorEnvelope = {
+      error: { status: 409, code: "conflict", message: errorsAsText(status), errors: status.errors, conflict: status.conflict }
+    };
+    return { status: 409, body };
+  }
+  return errorResponse(422, "validation", "The request did not pass validation.", status.errors);
+}
+
+/** A failed lookup means the row is missing. */
+function fromResult<T>(status: ISuccessOrErrorsWithResult<T>): MockApiResponse {
+  if (status.isValid) return ok(status.result);
+  return errorResponse(404, "not-found", errorsAsText(status));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function withBody<T>(handle: (dto: T) => MockApiResponse): ActionHandler {
+  return (_id, body) => (isObject(body) ? handle(body as T) : errorResponse(400, "bad-request", "The request body must be a JSON object."));
+}
+
+function withId(handle: (id: number) => MockApiResponse): ActionHandler {
+  return (id) => (id === null ? errorResponse(400, "bad-request", "The request must include an id.") : handle(id));
+}
+
+function withKey(handle: (key: string, body: unknown) => MockApiResponse): ActionHandler {
+  return (_id, body, key) => (key ? handle(key, body) : errorResponse(400, "bad-request", "The request must include a name or guid."));
+}
+
+function parseId(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+const antiforgeryFailureMessage = "Your session has expired or this page is out of date. Reload the page and try again.";
+
+
+/**
+ * An in-process stand-in for the legacy controllers: `/{Controller}/{Action}/{id}` over
+ * JSON, backed by the same services the screens use but with its own copy of the data.
+ */
+export function createMockApi({ store = createStore(initialDatabase), getInternals }: MockApiOptions = {}) {
+  const posts = createPostServices(store);
+  const tags = createTagServices(store);
+  const blogs = createBlogServices(store);
+  const actionHub = createActionHub({ TestAction: testAction });
+  const antiforgery = createAntiforgery();
+  const sleep = createSerialDelay();
+
+  const controllers: Record<string, ControllerRoutes> = {
+    antiforgery: {
+      token: {
+        GET: (_id, _body, _key, request) => {
+          const { sessionId, token } = antiforgery.issue(request.sessionId ?? null);
+          return { ...ok({ token }), sessionId };
+        }
+      }
+    },
+    data: {
+      snapshot: { GET: () => ok(store.getState()) }
+    },
+    home: {
+      internals: {
+        GET: () => (getInternals ? ok(getInternals()) : errorResponse(404, "not-found", "Internals are not available."))
+      }
+    },
+    posts: {
+      index: { GET: () => ok(posts.getAll()) },
+      details: { GET: withId((id) => fromResult(posts.getDetail(id))) },
+      setup: { GET: () => ok(posts.getSetup()) },
+      create: { GET: () => ok(posts.getDto()), POST: withBody<DetailPostDto>((dto) => fromStatus(posts.create(dto))) },
+      edit: { GET: withId((id) => fromResult(posts.getOriginal(id))), POST: withBody<DetailPostDto>((dto) => fromStatus(posts.update(dto))) },
+      delete: { POST: (id) => fromStatus(posts.delete(id)) },
+      undodelete: { POST: withId((id) => fromStatus(posts.undoDelete(id))) },
+      reset: { POST: () => fromStatus(posts.resetBlogs()) },
+      numposts: { GET: () => ok({ count: posts.count() }) },
+      // Sync Delay requests take turns, as if each held the one request thread; nothing
+      // blocks the event loop, so the dev server, HMR and every other call stay responsive.
+      // A request the client has abandoned gives up its turn rather than holding up the queue.
+      delay: {
+        GET: async (_id, _body, _key, request) => {
+          await sleep(delayActionMs, request.signal);
+          return ok({ delayMs: delayActionMs });
+        }
+      }
+    },
+    postsasync: {
+      delay: {
+        GET: async (_id, _body, _key, request) => {
+          await wait(delayActionMs, request.signal);
+          return ok({ delayMs: delayActionMs });
+        }
+      }
+    },
+    tags: {
+      index: { GET: () => ok(tags.getAll()) },
+      details: { GET: withId((id) => fromResult(tags.getDetail(id))) },
+      create: { GET: () => ok(tags.getDto()), POST: withBody<TagRow>((dto) => fromStatus(tags.create(dto))) },
+      edit: { GET: withId((id) => fromResult(tags.getOriginal(id))), POST: withBody<TagRow>((dto) => fromStatus(tags.update(dto))) },
+      delete: { POST: (id) => fromStatus(tags.delete(id)) },
+      undodelete: { POST: withId((id) => fromStatus(tags.undoDelete(id))) }
+    },
+    blogs: {
+      index: { GET: () => ok(blogs.getAll()) },
+      details: { GET: withId((id) => fromResult(blogs.getDetail(id))) },
+      create: { GET: () => ok(blogs.getDto()), POST: withBody<BlogRow>((dto) => fromStatus(blogs.create(dto))) },
+      edit: { GET: withId((id) => fromResult(blogs.getOriginal(id))), POST: withBody<BlogRow>((dto) => fromStatus(blogs.update(dto))) },
+      delete: { POST: (id) => fromStatus(blogs.delete(id)) },
+      undodelete: { POST: withId((id) => fromStatus(blogs.undoDelete(id))) },
+      analyse: { GET: withId((id) => fromResult(blogs.analyse(id))) }
+    },
+    // Progress is a server-sent event stream, so the plugin serves it from `actionHub` directly.
+    actions: {
+      start: {
+        POST: withKey((name, body) => {
+          const status = actionHub.start(name, body);
+          return status.isValid ? ok(status.result) : fromStatus(status);
+        })
+      },
+      cancel: {
+        POST: withKey((guid) => (actionHub.cancel(guid) ? ok({}) : errorResponse(404, "not-found", "The action is not running or cannot be cancelled.")))
+      },
+      end: { POST: withKey((guid) => (actionHub.end(guid) ? ok({}) : errorResponse(404, "not-found", "The action was not found."))) }
+    }
+  };
+
+  async function handle(request: MockApiRequest): Promise<MockApiResponse> {
+    const { method, path, body } = request;
+    const [controllerRaw, actionRaw = "Index", idRaw] = path.split("?")[0].split("/").filter(Boolean);
+    const routes = controllerRaw ? controllers[controllerRaw.toLowerCase()] : undefined;
+    const action = routes?.[actionRaw.toLowerCase()];
+    if (!action) return errorResponse(404, "not-found", `No API action matches '${path}'.`);
+
+    const handler = method === "GET" || method === "POST" ? action[method] : undefined;
+    if (!handler) return errorResponse(405, "method-not-allowed", `${method} is not supported by '${path}'.`);
+
+    // Every legacy POST action has [ValidateAntiForgeryToken].
+    if (method === "POST" && !antiforgery.validate(request.sessionId ?? null, request.antiforgeryToken ?? null)) {
+      return errorResponse(400, "antiforgery", antiforgeryFailureMessage);
+    }
+
+    try {
+      return await handler(parseId(idRaw), body, idRaw && decodeURIComponent(idRaw), request);
+    } catch (error) {
+      return errorResponse(500, "server-error", error instanceof Error ? error.message : "The server failed to handle the request.");
+    }
+  }
+
+  /** Every write's changes, for the plugin to push to the open tabs. */
+  const subscribeToChanges = (listener: DataChangeListener) => watchChanges(store, listener);
+
+  return { handle, store, actionHub, subscribeToChanges };
+}
+
+export type MockApi = ReturnType<typeof createMockApi>;
@@ -0,0 +1,153 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import { antiforgeryHeader, defaultApiBaseUrl } from "../lib/api-client";
+import type { ActionHub } from "./actionHub";
+import { createMockApi, type MockApi } from "./mockApi";
+import { createRuntimeMetrics } from "./runtimeMetrics";
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  if (response.headersSent) {
+    response.end();
+    return;
+  }
+  response.statusCode = status;
+  response.setHeader("Content-Type", "application/json; charset=utf-8");
+  response.setHeader("Cache-Control", "no-store");
+  response.end(JSON.stringify(body));
+}
+
+function sendError(response: ServerResponse, status: number, code: "bad-request" | "server-error", message: string) {
+  sendJson(response, status, { error: { status, code, message, errors: {} } });
+}
+
+const progressPath = /^\/actions\/progress\/([^/?]+)/i;
+const changesPath = /^\/data\/changes\/?(\?|$)/i;
+
+const sessionCookie = "SampleMvcWebApp.Session";
+
+function readCookie(request: IncomingMessage, name: string) {
+  for (const part of (request.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+function readHeader(request: IncomingMessage, name: string) {
+  const value = request.headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/** The ActionHub's SignalR channel as server-sent events; the action starts once this connects. */
+function streamActionEvents(actionHub: ActionHub, actionGuid: string, request: IncomingMessage, response: ServerResponse) {
+  const openStream = () => {
+    if (response.headersSent) return;
+    response.writeHead(200, { "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-store", Connection: "keep-alive" });
+    response.flushHeaders();
+  };
+
+  // Subscribing replays the events already sent, so the stream may open inside this call.
+  const unsubscribe = actionHub.subscribe(actionGuid, (event) => {
+    openStream();
+    response.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === "stopped") response.end();
+  });
+  if (!unsubscribe) {
+    sendJson(response, 404, { error: { status: 404, code: "not-found", message: "The action was not found.", errors: {} } });
+    return;
+  }
+  openStream();
+  request.on("close", unsubscribe);
+}
+
+/** Pushes the changes of every write until the tab goes away. */
+function streamDataChanges(api: MockApi, request: IncomingMessage, response: ServerResponse) {
+  response.writeHead(200, { "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-store", Connection: "keep-alive" });
+  response.flushHeaders();
+  const unsubscribe = api.subscribeToChanges((changes) => {
+    response.write(`event: changes\ndata: ${JSON.stringify(changes)}\n\n`);
+  });
+  request.on("close", unsubscribe);
+}
+
+/** Serves the mock API from the Vite dev and preview servers, so it runs offline with `npm run dev`. */
+export function mockApiPlugin(basePath = defaultApiBaseUrl): Plugin {
+  const api = createMockApi({ getInternals: createRuntimeMetrics() });
+
+  const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+    const method = request.method ?? "GET";
+    const progress = method === "GET" ? progressPath.exec(request.url ?? "") : null;
+    if (progress) {
+      streamActionEvents(api.actionHub, decodeURIComponent(progress[1]), request, response);
+      return;
+    }
+    if (method === "GET" && changesPath.test(request.url ?? "")) {
+      streamDataChanges(api, request, response);
+      return;
+    }
+
+    let body: unknown = null;
+
+    if (method === "POST") {
+      let raw: string;
+      try {
+        raw = await readBody(request);
+      } catch {
+        sendError(response, 400, "bad-request", "The request body could not be read.");
+        return;
+      }
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        sendError(response, 400, "bad-request", "The request body is not valid JSON.");
+        return;
+      }
+    }
+
+    const abandoned = new AbortController();
+    request.on("close", () => {
+      if (!response.writableEnded) abandoned.abort();
+    });
+
+    const result = await api.handle({
+      method,
+      path: request.url ?? "/",
+      body,
+      sessionId: readCookie(request, sessionCookie),
+      antiforgeryToken: readHeader(request, antiforgeryHeader),
+      signal: abandoned.signal
+    });
+    if (result.sessionId) {
+      response.setHeader("Set-Cookie", `${sessionCookie}=${encodeURIComponent(result.sessionId)}; Path=/; HttpOnly; SameSite=Strict`);
+    }
+    sendJson(response, result.status, result.body);
+  };
+
+  // Connect does not await middleware, so a rejection here would go unhandled and the request hang.
+  const middleware = (request: IncomingMessage, response: ServerResponse) => {
+    handleRequest(request, response).catch((error: unknown) => {
+      // A client that has gone, such as a cancelled load test, has no one left to answer.
+      if (response.destroyed) return;
+      sendError(response, 500, "server-error", error instanceof Error ? error.message : "The server failed to handle the request.");
+    });
+  };
+
+  return {
+    name: "sample-mvc-mock-api",
+    configureServer(server) {
+      server.middlewares.use(basePath, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(basePath, middleware);
+    }
+  };
+}
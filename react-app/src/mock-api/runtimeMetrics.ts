@@ -0,0 +1,36 @@
+import { availableParallelism, freemem } from "node:os";
+import { monitorEventLoopDelay } from "node:perf_hooks";
+import type { InternalsInfo } from "../services/internalsServices";
+
+const defaultThreadPoolSize = 4;
+const loopDelayResolutionMs = 20;
+
+/**
+ * Reads InternalsInfo from this process. Node has no managed thread pool to count, so
+ * WorkerThreads is libuv's pool size and AvailableThreads the CPUs the process may use.
+ * Returns a reader because event-loop lag is measured between one read and the next.
+ */
+export function createRuntimeMetrics() {
+  const loopDelay = monitorEventLoopDelay({ resolution: loopDelayResolutionMs });
+  loopDelay.enable();
+
+  return function readInternals(): InternalsInfo {
+    // The histogram is in nanoseconds, includes the sampling timer's own interval, and is
+    // empty until the first sample has been taken.
+    const meanDelayMs = loopDelay.count > 0 ? loopDelay.mean / 1e6 : loopDelayResolutionMs;
+    const eventLoopLagMs = Math.max(0, Math.round((meanDelayMs - loopDelayResolutionMs) * 100) / 100);
+    loopDelay.reset();
+    const memory = process.memoryUsage();
+
+    return {
+      workerThreads: Number(process.env.UV_THREADPOOL_SIZE) || defaultThreadPoolSize,
+      availableThreads: availableParallelism(),
+      availableMbytes: Math.round(freemem() / (1024 * 1024)),
+      heapMemoryUsedKbytes: Math.round(memory.heapUsed / 1024),
+      rssKbytes: Math.round(memory.rss / 1024),
+      eventLoopLagMs,
+      activeHandles: process.getActiveResourcesInfo().length,
+      sampledAtUtc: new Date().toISOString()
+    };
+  };
+}
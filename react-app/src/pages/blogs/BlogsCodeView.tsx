@@ -0,0 +1,64 @@
+import { Link } from "react-router-dom";
+import { CodePanel, CodeView, SourceLink } from "../../components/shared/CodeView";
+import { actionUrl } from "../../lib/mvcRoutes";
+import blogListDto from "legacy-source:ServiceLayer/BlogServices/BlogListDto.cs?member=BlogListDto";
+import blogsControllerDelete from "legacy-source:SampleWebApp/Controllers/BlogsController.cs?member=Delete";
+import blogsControllerEdit from "legacy-source:SampleWebApp/Controllers/BlogsController.cs?member=Edit";
+import blogsControllerIndex from "legacy-source:SampleWebApp/Controllers/BlogsController.cs?member=Index";
+
+/** The legacy site had no Blogs CodeView; this one follows the Tags page, as the two controllers work the same way. */
+export function BlogsCodeView() {
+  return (
+    <CodeView
+      title="Blogs: An explanation of Blogs code"
+      summary={
+        <>
+          This is a summary of the main parts used to list, create, edit and delete Blog entries directly, and of the
+          business method behind the Analyse link.
+        </>
+      }
+    >
+      <h3>The Blogs Controller</h3>
+      <p>
+        The <code>BlogsController</code> (see here for <SourceLink path="SampleWebApp/Controllers/BlogsController.cs">code on GitHub</SourceLink>)
+        uses the GenericService&apos;s database commands that work directly on the <abbr title="Entity Framework">EF</abbr> data class,
+        in the same way as the <Link to={actionUrl("Tags", "CodeView")}>TagsController</Link>.
+      </p>
+      <CodePanel id="BlogsController" title="BlogsController Database Actions" excerpts={[blogsControllerIndex, blogsControllerEdit, blogsControllerDelete]}>
+        <dl>
+          <dt>Index Action - List of Blogs</dt>
+          <dd>
+            The list is shaped by the <code>BlogListDto</code> so that the number of posts each blogger has written is counted by the database.
+          </dd>
+          <dt>Edit and Create work on the Blog data class</dt>
+          <dd>
+            The Edit action reads the original <code>Blog</code> to show in the form and <code>UpdateService</code> saves it.
+            Errors found by <abbr title="Entity Framework">EF</abbr> come back in the status and are copied into the ModelState.
+          </dd>
+          <dt>Delete has one stage</dt>
+          <dd>The Blog is deleted straight away and the result is shown as a message on the list.</dd>
+        </dl>
+      </CodePanel>
+
+      <h3>The BlogListDto DTO</h3>
+      <p>
+        The <code>BlogListDto</code> (<SourceLink path="ServiceLayer/BlogServices/BlogListDto.cs" />) only supports the List service,
+        which is all it needs to do.
+      </p>
+      <CodePanel id="BlogListDto" title="BlogListDto DTO" excerpts={[blogListDto]}>
+        <p>
+          <code>PostsCount</code> is filled in by an AutoMapper aggregate, so the count becomes part of the SQL request rather than
+          loading every post. <code>SupportedFunctions</code> returns <code>CrudFunctions.List</code>, so the DTO cannot be used to
+          create or update a Blog by mistake.
+        </p>
+      </CodePanel>
+
+      <h3>Calling a business method</h3>
+      <p>
+        The Analyse link on the list calls a business method that summarises one blogger&apos;s posts: their number, words and tags.
+        The method is kept free of UI concerns, and the Blogs page shows its result or the error it returns.
+        The <Link to={actionUrl("Blogs", "RunAction")}>long-running action</Link> shows how a task that takes longer reports its progress.
+      </p>
+    </CodeView>
+  );
+}
@@ -0,0 +1,543 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ActionRunnerPanel } from "../../components/shared/ActionRunnerPanel";
+import { ConcurrencyConflict, type ConflictField } from "../../components/shared/ConcurrencyConflict";
+import { DeleteConfirmForm } from "../../components/shared/DeleteConfirmForm";
+import { GridPager, GridTextFilter, SortHeader } from "../../components/shared/GridControls";
+import { MvcLayout } from "../../components/shared/MvcLayout";
+import { NotFound, RouteNotFound } from "../../components/shared/NotFound";
+import { TempDataMessages, type UndoDeleteHandler } from "../../components/shared/TempDataMessages";
+import { UpdatedElsewhereNotice } from "../../components/shared/UpdatedElsewhereNotice";
+import type { BlogAnalysis } from "../../data/blogAnalysis";
+import type { BlogListDto, BlogRow } from "../../data/blogs";
+import { useActionRunner } from "../../hooks/useActionRunner";
+import { useEditConflict } from "../../hooks/useEditConflict";
+import { useGridQuery } from "../../hooks/useGridQuery";
+import { useMvcRoute } from "../../hooks/useMvcRoute";
+import { useRowHead } from "../../hooks/usePageHead";
+import { useReturnUrl } from "../../hooks/useReturnUrl";
+import { applyGridQuery, containsText, defaultPageSizes, type GridSpec } from "../../lib/gridQuery";
+import { actionUrl, type ActionOf } from "../../lib/mvcRoutes";
+import { tempData } from "../../lib/tempData";
+import { useDataVersion, useServices } from "../../services/ServicesContext";
+import type { FieldErrorMap, ISuccessOrConflict, ISuccessOrErrors } from "../../services/successOrErrors";
+import { validateBlogInBrowser } from "../../validation/blogValidation";
+import { hasErrors, modelLevelErrors } from "../../validation/validationErrors";
+import { BlogsCodeView } from "./BlogsCodeView";
+
+type BlogFormModel = BlogRow;
+
+function toShortDateString(value: string) {
+  return new Date(value).toLocaleDateString("en-US");
+}
+
+function createInitialForm(blog?: BlogRow): BlogFormModel {
+  if (!blog) {
+    return { blogId: 0, name: "", emailAddress: "", lastUpdatedUtc: "" };
+  }
+
+  return { blogId: blog.blogId, name: blog.name, emailAddress: blog.emailAddress, lastUpdatedUtc: blog.lastUpdatedUtc };
+}
+
+function resolveFormMode(action: ActionOf<"Blogs"> | null): "create" | "edit" | null {
+  if (action === "Create") return "create";
+  if (action === "Edit") return "edit";
+  return null;
+}
+
+export function BlogsScreen() {
+  const route = useMvcRoute("Blogs");
+  const action = route.kind === "action" ? route.action : null;
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl("Blogs", "Index"));
+
+  const { blogs: blogService } = useServices();
+  const dataVersion = useDataVersion();
+
+  const routeId = route.kind === "action" ? route.id : null;
+
+  const currentRow = useMemo(() => {
+    if (!routeId) return null;
+    return blogService.getOriginal(routeId).result;
+  }, [blogService, dataVersion, routeId]);
+
+  const blogList = useMemo(() => blogService.getAll(), [blogService, dataVersion]);
+  const analysis = useMemo(
+    () => (action === "Analyse" && routeId ? blogService.analyse(routeId).result : null),
+    [blogService, dataVersion, action, routeId]
+  );
+
+  return (
+    <MvcLayout>
+      {route.kind !== "action" ? <RouteNotFound route={route} /> : null}
+      {action === "Index" ? (
+        <BlogsIndex blogs={blogList} undoDelete={{ controller: "Blogs", run: (id) => blogService.undoDelete(id) }} />
+      ) : null}
+
+      {resolveFormMode(action) ? (
+        <BlogsForm
+          mode={resolveFormMode(action)!}
+          currentRow={currentRow}
+          onSave={async (payload) => {
+            const status = await (payload.blogId > 0 ? blogService.update(payload) : blogService.create(payload));
+            if (status.isValid) {
+              tempData.setFromStatus(status);
+              navigate(listUrl);
+            }
+            return status;
+          }}
+        />
+      ) : null}
+
+      {action === "Delete" ? <BlogsDelete row={currentRow} onDelete={(id) => blogService.delete(id)} /> : null}
+      {action === "Analyse" ? <BlogsAnalyse analysis={analysis} /> : null}
+      {action === "RunAction" ? <BlogsRunAction /> : null}
+      {action === "CodeView" ? <BlogsCodeView /> : null}
+    </MvcLayout>
+  );
+}
+
+interface BlogsIndexProps {
+  blogs: BlogListDto[];
+  undoDelete: UndoDeleteHandler;
+}
+
+const blogsGridSpec: GridSpec<BlogListDto, "name" | "emailAddress" | "postsCount", "search"> = {
+  sortKeys: {
+    name: (row) => row.name,
+    emailAddress: (row) => row.emailAddress,
+    postsCount: (row) => row.postsCount
+  },
+  filters: {
+    search: (row, value) => containsText(row.name, value) || containsText(row.emailAddress, value)
+  },
+  pageSizes: defaultPageSizes,
+  defaultPageSize: 25
+};
+
+function BlogsIndex({ blogs, undoDelete }: BlogsIndexProps) {
+  const grid = useGridQuery(blogsGridSpec);
+  const page = useMemo(() => applyGridQuery(blogsGridSpec, blogs, grid.query), [blogs, grid.query]);
+  const returnQuery = grid.listUrl === actionUrl("Blogs", "Index") ? {} : { returnUrl: grid.listUrl };
+
+  return (
+    <>
+      <h2>Blogs</h2>
+
+      <TempDataMessages undoDelete={undoDelete} />
+
+      <p>
+        Below you will see a table of Blogs which can be manipulated, and analysed.
+      </p>
+      <p>
+        The point of this page is to provide a simple demonstration of calling a business method - click the Analyse link to trigger this.
+      </p>
+      <hr />
+
+      <div data-testid="blogs-top-links">
+        <span>
+          <Link to={actionUrl("Blogs", "Create")}>Create New Blogger</Link> | <Link to={actionUrl("Posts", "Index")}>Posts</Link> | <Link to={actionUrl("Blogs", "RunAction")}>Run a long-running action</Link>
+        </span>
+        <span className="pull-right"><strong><Link to={actionUrl("Blogs", "CodeView")}>Explanation of the code</Link></strong></span>
+      </div>
+
+      <GridTextFilter
+        id="blogs-filter"
+        label="Name or email contains"
+        value={grid.query.filters.search ?? ""}
+        onApply={(search) => grid.update({ filters: { search: search || undefined } })}
+        clearUrl={grid.hrefFor({ filters: {} })}
+      />
+
+      <table className="table" data-testid="blogs-grid">
+        <thead>
+          <tr>
+            <th />
+            <SortHeader label="Name" sortKey="name" query={grid.query} hrefFor={grid.hrefFor} />
+            <SortHeader label="EmailAddress" sortKey="emailAddress" query={grid.query} hrefFor={grid.hrefFor} />
+            <SortHeader label="Num Posts this Author" sortKey="postsCount" query={grid.query} hrefFor={grid.hrefFor} />
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {page.rows.map((item) => (
+            <tr key={item.blogId}>
+              <td><input type="hidden" value={item.blogId} name="item.BlogId" /></td>
+              <td>{item.name}</td>
+              <td>{item.emailAddress}</td>
+              <td>{item.postsCount}</td>
+              <td>
+                <Link to={actionUrl("Blogs", "Edit", item.blogId, returnQuery)}>Edit</Link> | <Link to={actionUrl("Blogs", "Delete", item.blogId, returnQuery)}>Delete</Link> | <Link to={actionUrl("Posts", "Index", item.blogId)}>List Posts</Link> | <Link to={actionUrl("Blogs", "Analyse", item.blogId, returnQuery)}>Analyse</Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <GridPager page={page} query={grid.query} pageSizes={blogsGridSpec.pageSizes} hrefFor={grid.hrefFor} onPageSizeChange={(pageSize) => grid.update({ pageSize })} />
+    </>
+  );
+}
+
+interface BlogsFormProps {
+  mode: "create" | "edit";
+  currentRow: BlogRow | null;
+  /** Returns the save status; a conflict carries the blog as the other user saved it. */
+  onSave: (payload: BlogFormModel) => ISuccessOrConflict<BlogFormModel> | Promise<ISuccessOrConflict<BlogFormModel>>;
+}
+
+const blogConflictFields: ConflictField<BlogFormModel>[] = [
+  { key: "name", label: "Name" },
+  { key: "emailAddress", label: "EmailAddress" }
+];
+
+function BlogsForm({ mode, currentRow, onSave }: BlogsFormProps) {
+  const loadedRow = mode === "edit" ? currentRow : null;
+  const [model, setModel] = useState<BlogFormModel>(() => createInitialForm(loadedRow ?? undefined));
+  const [errors, setErrors] = useState<FieldErrorMap>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const conflict = useEditConflict(loadedRow);
+
+  // Only a different blog restarts the form; a newer copy of the same one is left to the conflict check.
+  useEffect(() => {
+    setModel(createInitialForm(loadedRow ?? undefined));
+    setErrors({});
+    conflict.reset(loadedRow);
+  }, [mode, loadedRow?.blogId]);
+
+  const { listUrl } = useReturnUrl(actionUrl("Blogs", "Index"));
+  const submitLabel = mode === "create" ? "Create" : "Save";
+
+  const summaryErrors = modelLevelErrors(errors);
+
+  const save = async (next: BlogFormModel) => {
+    const browserErrors = validateBlogInBrowser(next);
+    if (hasErrors(browserErrors)) {
+      setErrors(browserErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const status = await onSave(next);
+      if (status.conflict) conflict.report(status.conflict);
+      setErrors(status.conflict ? {} : status.errors);
+    } catch (error) {
+      setErrors({ "": [error instanceof Error ? error.message : "The blog could not be saved."] });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (mode === "edit" && !currentRow) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Blog not found.</NotFound>;
+  }
+
+  return (
+    <>
+      {loadedRow ? <UpdatedElsewhereNotice key={model.lastUpdatedUtc} entity="blog" id={loadedRow.blogId} /> : null}
+      {conflict.theirs && conflict.base ? (
+        <ConcurrencyConflict
+          key={conflict.theirs.lastUpdatedUtc}
+          entityName="blog"
+          fields={blogConflictFields}
+          base={conflict.base}
+          yours={model}
+          theirs={conflict.theirs}
+          disabled={isSaving}
+          onOverwrite={() => {
+            const next = conflict.resolve(model);
+            setModel(next);
+            void save(next);
+          }}
+          onMerge={(merged) => setModel(conflict.resolve(merged))}
+          onDiscard={() => setModel(createInitialForm(conflict.resolve(conflict.theirs!)))}
+        />
+      ) : null}
+
+      <form
+        data-testid="blogs-form"
+        aria-busy={isSaving}
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (isSaving) return;
+          void save(model);
+        }}
+      >
+        <div className="form-horizontal">
+          <h4>Blog</h4>
+          <hr />
+
+          {summaryErrors.length > 0 ? (
+            <div className="text-danger validation-summary" data-testid="validation-summary">
+              <ul>
+                {summaryErrors.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          ) : null}
+
+          {mode === "edit" ? (
+            <>
+              <input type="hidden" value={model.blogId} name="BlogId" />
+              <input type="hidden" value={model.lastUpdatedUtc} name="LastUpdatedUtc" />
+            </>
+          ) : null}
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="blog-name">Name</label>
+            <div className="col-md-10">
+              <input
+                id="blog-name"
+                className="form-control"
+                value={model.name}
+                onChange={(event) => setModel((prev) => ({ ...prev, name: event.target.value }))}
+              />
+              {(errors.Name || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="blog-email">EmailAddress</label>
+            <div className="col-md-10">
+              <input
+                id="blog-email"
+                type="email"
+                className="form-control"
+                value={model.emailAddress}
+                onChange={(event) => setModel((prev) => ({ ...prev, emailAddress: event.target.value }))}
+              />
+              {(errors.EmailAddress || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <div className="col-md-offset-2 col-md-10">
+              <input type="submit" value={isSaving ? "Saving..." : submitLabel} className="btn btn-default" disabled={isSaving} />
+            </div>
+          </div>
+        </div>
+      </form>
+
+      <div>
+        <Link to={listUrl}>Back to List</Link>
+      </div>
+    </>
+  );
+}
+
+interface BlogsDeleteProps {
+  row: BlogRow | null;
+  onDelete: (blogId: number) => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+}
+
+/** A blogger who still has posts is refused on submit, and the reason is shown here. */
+function BlogsDelete({ row, onDelete }: BlogsDeleteProps) {
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl("Blogs", "Index"));
+
+  if (!row) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Blog not found. It may already have been deleted.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>Delete</h2>
+      <h3>Are you sure you want to delete this?</h3>
+      <div>
+        <h4>Blog</h4>
+        <hr />
+        <dl className="dl-horizontal">
+          <dt>Name</dt>
+          <dd>{row.name}</dd>
+
+          <dt>EmailAddress</dt>
+          <dd>{row.emailAddress}</dd>
+        </dl>
+      </div>
+      <DeleteConfirmForm
+        testId="blogs-delete-form"
+        listUrl={listUrl}
+        onDelete={() => onDelete(row.blogId)}
+        onDeleted={(status) => {
+          tempData.setFromDelete(status, "Blogs", row.blogId);
+          navigate(listUrl);
+        }}
+      />
+    </>
+  );
+}
+
+interface BlogsAnalyseProps {
+  analysis: BlogAnalysis | null;
+}
+
+function BlogsAnalyse({ analysis }: BlogsAnalyseProps) {
+  const { listUrl } = useReturnUrl(actionUrl("Blogs", "Index"));
+  useRowHead("Blogs", analysis?.name);
+
+  if (!analysis) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Blog not found.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>Analyse</h2>
+      <div data-testid="blogs-analysis">
+        <h4>Analysis of {analysis.name}&apos;s posts</h4>
+        <hr />
+        <dl className="dl-horizontal">
+          <dt>NumPosts</dt>
+          <dd>{analysis.numPosts}</dd>
+
+          <dt>TotalWords</dt>
+          <dd>{analysis.totalWords}</dd>
+
+          <dt>AverageWords</dt>
+          <dd>{analysis.averageWordsPerPost}</dd>
+
+          <dt>LongestPost</dt>
+          <dd>{analysis.longestPostTitle ?? "-"}</dd>
+
+          <dt>First updated</dt>
+          <dd>{analysis.firstUpdatedUtc ? toShortDateString(analysis.firstUpdatedUtc) : "-"}</dd>
+
+          <dt>Last updated</dt>
+          <dd>{analysis.lastUpdatedUtc ? toShortDateString(analysis.lastUpdatedUtc) : "-"}</dd>
+
+          <dt>TagsUsed</dt>
+          <dd>
+            {analysis.tagUsage.length > 0
+              ? analysis.tagUsage.map((item) => `${item.name} (${item.count})`).join(", ")
+              : "-"}
+          </dd>
+        </dl>
+      </div>
+      <p>
+        <Link to={actionUrl("Posts", "Index", analysis.blogId)}>List Posts</Link> | <Link to={listUrl}>Back to List</Link>
+      </p>
+    </>
+  );
+}
+
+const testActionModes = [
+  { value: "Normal", text: "Normal: info messages only" },
+  { value: "WarningsAndErrors", text: "Sends warnings and errors" },
+  { value: "Fail", text: "Fails half way through" },
+  { value: "NotCancellable", text: "Does not support cancel" }
+] as const;
+
+interface TestActionFormModel {
+  numIterations: string;
+  msBetweenIterations: string;
+  mode: (typeof testActionModes)[number]["value"];
+}
+
+function BlogsRunAction() {
+  const navigate = useNavigate();
+  const runner = useActionRunner({
+    onSuccessExit: (jsonResult) => {
+      const { iterationsRun } = jsonResult as { iterationsRun: number };
+      tempData.setMessage(`The test action finished all ${iterationsRun} iterations.`);
+      navigate(actionUrl("Blogs", "Index"));
+    }
+  });
+  const [model, setModel] = useState<TestActionFormModel>({ numIterations: "10", msBetweenIterations: "500", mode: "Normal" });
+  const [errors, setErrors] = useState<FieldErrorMap>({});
+
+  const summaryErrors = modelLevelErrors(errors);
+
+  return (
+    <>
+      <h2>Run a long-running action</h2>
+      <p>
+        This demonstrates the ActionRunner: an action that takes a while runs on the server and sends its progress back,
+        which is shown in a panel with a progress bar and the messages the action sends. The button at the bottom of the
+        panel cancels the action while it runs, and closes the panel once it has finished.
+      </p>
+      <p>
+        The action below is a test action which does nothing but count. Choose how many iterations it runs, how long each
+        one takes, and whether it should send warnings and errors, fail, or refuse to be cancelled.
+      </p>
+      <hr />
+
+      <ActionRunnerPanel runner={runner} header="Test action progress" />
+
+      <form
+        data-testid="blogs-run-action-form"
+        onSubmit={async (event) => {
+          event.preventDefault();
+          setErrors(await runner.start("TestAction", {
+            numIterations: Number(model.numIterations),
+            msBetweenIterations: Number(model.msBetweenIterations),
+            mode: model.mode
+          }));
+        }}
+      >
+        <div className="form-horizontal">
+          <h4>Test action</h4>
+          <hr />
+
+          {summaryErrors.length > 0 ? (
+            <div className="text-danger validation-summary" data-testid="validation-summary">
+              <ul>
+                {summaryErrors.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          ) : null}
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="action-iterations">NumIterations</label>
+            <div className="col-md-10">
+              <input
+                id="action-iterations"
+                type="number"
+                className="form-control"
+                value={model.numIterations}
+                onChange={(event) => setModel((prev) => ({ ...prev, numIterations: event.target.value }))}
+              />
+              {(errors.NumIterations || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="action-delay">MsBetweenIterations</label>
+            <div className="col-md-10">
+              <input
+                id="action-delay"
+                type="number"
+                className="form-control"
+                value={model.msBetweenIterations}
+                onChange={(event) => setModel((prev) => ({ ...prev, msBetweenIterations: event.target.value }))}
+              />
+              {(errors.MsBetweenIterations || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="action-mode">Mode</label>
+            <div className="col-md-10">
+              <select
+                id="action-mode"
+                className="form-control"
+                value={model.mode}
+                onChange={(event) => setModel((prev) => ({ ...prev, mode: event.target.value as TestActionFormModel["mode"] }))}
+              >
+                {testActionModes.map((item) => <option key={item.value} value={item.value}>{item.text}</option>)}
+              </select>
+              {(errors.Mode || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <div className="col-md-offset-2 col-md-10">
+              <input type="submit" value="Run action" className="btn btn-default" disabled={runner.run !== null} />
+            </div>
+          </div>
+        </div>
+      </form>
+
+      <div>
+        <Link to={actionUrl("Blogs", "Index")}>Back to List</Link>
+      </div>
+    </>
+  );
+}
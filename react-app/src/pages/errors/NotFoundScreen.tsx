@@ -0,0 +1,17 @@
+import { useLocation } from "react-router-dom";
+import { MvcLayout } from "../../components/shared/MvcLayout";
+import { NotFound } from "../../components/shared/NotFound";
+import { actionUrl } from "../../lib/mvcRoutes";
+
+/** Any URL no controller answers, instead of quietly going to the home page. */
+export function NotFoundScreen() {
+  const location = useLocation();
+
+  return (
+    <MvcLayout>
+      <NotFound backUrl={actionUrl("Home", "Index")} backText="Back to Home">
+        Nothing on this site answers &apos;{location.pathname}&apos;.
+      </NotFound>
+    </MvcLayout>
+  );
+}
@@ -0,0 +1,49 @@
+import { Link } from "react-router-dom";
+import { CodePanel, CodeView, SourceLink } from "../../components/shared/CodeView";
+import { actionUrl } from "../../lib/mvcRoutes";
+import diModelBinder from "legacy-source:SampleWebApp/Infrastructure/DiModelBinder.cs?member=CreateModel";
+import applicationStart from "legacy-source:SampleWebApp/Global.asax.cs?member=Application_Start";
+
+/** Views/Home/CodeView.cshtml. */
+export function HomeCodeView() {
+  return (
+    <CodeView title="Introduction to GenericServices">
+      <p>
+        GenericServices is a .NET class library which helps a developer build a
+        <a href="http://martinfowler.com/eaaCatalog/serviceLayer.html" target="_blank" rel="noreferrer"> service layer</a>,
+        i.e. a layer that acts as a facard/adapter between your business/data service layers and your User Interface or HTTP service.
+      </p>
+      <p>
+        Some ASP.NET MVC specific features which build on the GenericService are also included.
+        For instance the best way to call GenericService commands in a Controller and handling long-running tasks.
+      </p>
+      <hr />
+      <h3>Summary of the features covered by this example web site</h3>
+      <h4>1. Simple, but robust database services</h4>
+      <p>
+        The aim of the GenericServices framework is to handle all of the standard database cases, and include extension points for when special handling is required.
+        Examples of their use on this web site are:
+      </p>
+      <ul>
+        <li>See normal, synchronous access using a DTO for shaping in the <Link to={actionUrl("Posts", "CodeView")}>Posts</Link> Controller</li>
+        <li>See EF6 async access using a DTO for shaping in the <Link to={actionUrl("PostsAsync", "CodeView")}>PostsAsync</Link> Controller</li>
+        <li>See normal, synchronous access directly via data class in the <Link to={actionUrl("Tags", "CodeView")}>Tags</Link> Controller</li>
+        <li>See EF6 async access directly via data class in the <Link to={actionUrl("TagsAsync", "CodeView")}>TagsAsync</Link> Controller</li>
+        <li>See a list shaped by a DTO and direct edits of the data class in the <Link to={actionUrl("Blogs", "CodeView")}>Blogs</Link> Controller</li>
+      </ul>
+      <h4>2. Services injected into the actions</h4>
+      <p>
+        The SampleMvcWebApp uses the <a href="https://github.com/autofac/Autofac/wiki/Getting-Started" target="_blank" rel="noreferrer">AutoFac</a>
+        {" "}dependency injection framework to insert calls to the various GenericServices services
+        (see <SourceLink path="SampleWebApp/Global.asax.cs">Global.asax.cs</SourceLink> and <SourceLink path="SampleWebApp/Infrastructure/DiModelBinder.cs">DiModelBinder.cs</SourceLink>).
+      </p>
+      <CodePanel id="DIused" title="How the services reach the actions" excerpts={[applicationStart, diModelBinder]}>
+        <p>
+          At startup the default model binder is replaced by the <code>DiModelBinder</code>. When an action has an interface as a
+          parameter, such as <code>IListService</code>, the binder asks the DI container for it instead of reading it from the request.
+          The <Link to={`${actionUrl("Posts", "CodeView")}#DIused`}>Posts Explanation</Link> shows how the services are registered.
+        </p>
+      </CodePanel>
+    </CodeView>
+  );
+}
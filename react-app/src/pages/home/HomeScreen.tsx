@@ -1,17 +1,29 @@
-import { Link } from "react-router-dom";
+import { Fragment } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { MvcLayout } from "../../components/shared/MvcLayout";
-import { useHomeMode } from "../../hooks/useHomeMode";
+import { RouteNotFound } from "../../components/shared/NotFound";
+import { Sparkline } from "../../components/shared/Sparkline";
+import { useMvcRoute } from "../../hooks/useMvcRoute";
+import { usePolling } from "../../hooks/usePolling";
+import { readBrowserMetrics } from "../../lib/browserMetrics";
+import { actionUrl } from "../../lib/mvcRoutes";
+import { type ConfigSource, featureNames, getRuntimeConfig } from "../../lib/runtimeConfig";
+import type { InternalsInfo } from "../../services/internalsServices";
+import { useServices } from "../../services/ServicesContext";
+import { HomeCodeView } from "./HomeCodeView";
 
 export function HomeScreen() {
-  const { mode } = useHomeMode();
+  const route = useMvcRoute("Home");
+  const action = route.kind === "action" ? route.action : null;
 
   return (
     <MvcLayout>
-      {mode === "index" ? <HomeIndex /> : null}
-      {mode === "about" ? <HomeAbout /> : null}
-      {mode === "contact" ? <HomeContact /> : null}
-      {mode === "codeview" ? <HomeCodeView /> : null}
-      {mode === "internals" ? <HomeInternals /> : null}
+      {route.kind !== "action" ? <RouteNotFound route={route} /> : null}
+      {action === "Index" ? <HomeIndex /> : null}
+      {action === "About" ? <HomeAbout /> : null}
+      {action === "Contact" ? <HomeContact /> : null}
+      {action === "CodeView" ? <HomeCodeView /> : null}
+      {action === "Internals" ? <HomeInternals query={route.kind === "action" ? route.query : null} /> : null}
     </MvcLayout>
   );
 }
@@ -59,10 +71,10 @@ function HomeIndex() {
       <ul data-testid="home-index-inline-links">
         <li>
           You dive right in by clicking one of the menu links at the top of this page. Try Sync database -&gt;
-          <Link to="/Posts/Index"> Posts</Link> as a start.
+          <Link to={actionUrl("Posts", "Index")}> Posts</Link> as a start.
         </li>
         <li>
-          Go to <Link to="/Home/CodeView">this page</Link> for more detail on what code features are shown on this site.
+          Go to <Link to={actionUrl("Home", "CodeView")}>this page</Link> for more detail on what code features are shown on this site.
         </li>
         <li>
           You can look at the the GenericServices&apos;s
@@ -97,7 +109,7 @@ function HomeIndex() {
       <h3 className="text-info">The pages contain explanations</h3>
       <h4 className="text-muted">As well as showing the framework in action it includes links to explanations of the code.</h4>
       <p>
-        On most pages you will see a <Link to="/Home/CodeView">Explanation of the code</Link> link. It is normally on the right hand side above the data.
+        On most pages you will see a <Link to={actionUrl("Home", "CodeView")}>Explanation of the code</Link> link. It is normally on the right hand side above the data.
         <br />
         This takes you to a page that a) has links to the actual source on GitHub and b) tries to explain how it all hangs together.
       </p>
@@ -112,14 +124,14 @@ function HomeAbout() {
       <h2>About this site</h2>
       <h3>About this site</h3>
       <p>
-        You should have seen on the <Link to="/Home/Index">Home Page</Link> a brief introduction to the site.
+        You should have seen on the <Link to={actionUrl("Home", "Index")}>Home Page</Link> a brief introduction to the site.
         The site is here as a testing bed/demonstration of the
         <a href="https://github.com/JonPSmith/GenericServices" target="_blank" rel="noreferrer"> GenericServices library</a>
         and a number of software patterns specific to ASP.NET MVC. All the work here is open source under the
         <a href="http://opensource.org/licenses/MIT" target="_blank" rel="noreferrer"> MIT licence</a>.
       </p>
       <p>
-        The <Link to="/Home/CodeView">Introduction to GenericServices</Link> page goes into more detail about GenericServices library and some of the
+        The <Link to={actionUrl("Home", "CodeView")}>Introduction to GenericServices</Link> page goes into more detail about GenericServices library and some of the
         items demonstrated on this web site. I also suggest you look at GenericServices&apos;s
         <a href="https://github.com/JonPSmith/GenericServices/blob/master/README.md" target="_blank" rel="noreferrer"> read.me</a> file which gives more information.
       </p>
@@ -146,7 +158,7 @@ function HomeAbout() {
       <p>The last article in particular provides a good architectural overview of a MVC web site built Entity Framework and GenericServices.</p>
       <br />
       <p>
-        <Link to="/Home/Index" data-testid="about-back-home-link">Back to Home</Link>
+        <Link to={actionUrl("Home", "Index")} data-testid="about-back-home-link">Back to Home</Link>
       </p>
     </>
   );
@@ -175,58 +187,146 @@ function HomeContact() {
   );
 }
 
-function HomeCodeView() {
+const refreshOptions = [
+  { seconds: 0, text: "Off" },
+  { seconds: 2, text: "2 seconds" },
+  { seconds: 5, text: "5 seconds" },
+  { seconds: 10, text: "10 seconds" },
+  { seconds: 30, text: "30 seconds" }
+];
+
+const defaultRefreshSeconds = 5;
+
+function readRefreshSeconds(query: URLSearchParams | null) {
+  const requested = Number(query?.get("refresh") ?? defaultRefreshSeconds);
+  return refreshOptions.some((item) => item.seconds === requested) ? requested : defaultRefreshSeconds;
+}
+
+function displayMetric(value: number | null, unit = "") {
+  return value === null ? "Not available in this browser" : `${value}${unit}`;
+}
+
+/** The runtime config in use, with where each setting came from, as the Web.config transforms once decided. */
+function RuntimeConfigSummary() {
+  const config = getRuntimeConfig();
+  const settings: Array<[name: string, value: string, source: ConfigSource]> = [
+    ["HostType", config.hostType, config.sources.hostType],
+    ["ApiBaseUrl", config.apiBaseUrl, config.sources.apiBaseUrl],
+    ["DataSource", config.dataSource, config.sources.dataSource],
+    ["DataPersistence", config.dataPersistence, config.sources.dataPersistence],
+    ["AsyncLatencyMs", String(config.asyncLatencyMs), config.sources.asyncLatencyMs],
+    ["DisabledFeatures", featureNames.filter((name) => !config.features[name]).join(", ") || "none", config.sources.features],
+    ["SourceBaseUrl", config.sourceBaseUrl, config.sources.sourceBaseUrl]
+  ];
+
   return (
     <>
-      <h2>Introduction to GenericServices</h2>
-      <p>
-        GenericServices is a .NET class library which helps a developer build a
-        <a href="http://martinfowler.com/eaaCatalog/serviceLayer.html" target="_blank" rel="noreferrer"> service layer</a>,
-        i.e. a layer that acts as a facard/adapter between your business/data service layers and your User Interface or HTTP service.
-      </p>
-      <p>
-        Some ASP.NET MVC specific features which build on the GenericService are also included.
-        For instance the best way to call GenericService commands in a Controller and handling long-running tasks.
-      </p>
+      <h4>Configuration</h4>
       <hr />
-      <h3>Summary of the features covered by this example web site</h3>
-      <h4>1. Simple, but robust database services</h4>
-      <p>
-        See normal synchronous and async access using DTO and data class routes in Posts, PostsAsync, Tags, and TagsAsync.
-      </p>
+      <dl className="dl-horizontal" data-testid="internals-config">
+        {settings.map(([name, value, source]) => (
+          <Fragment key={name}>
+            <dt>{name}</dt>
+            <dd data-testid={`internals-config-${name}`}>
+              {value} <span className="route-note">({source})</span>
+            </dd>
+          </Fragment>
+        ))}
+      </dl>
+      {config.problems.length > 0 ? (
+        <ul className="text-warning" data-testid="internals-config-problems">
+          {config.problems.map((problem) => <li key={problem}>{problem}</li>)}
+        </ul>
+      ) : null}
+    </>
+  );
+}
+
+interface MetricProps {
+  name: string;
+  value: number | undefined;
+  history?: number[];
+}
+
+function Metric({ name, value, history }: MetricProps) {
+  return (
+    <>
+      <dt>{name}</dt>
+      <dd data-testid={`internals-${name}`}>
+        {value ?? "-"}
+        {history && history.length > 1 ? <Sparkline values={history} label={`${name} history`} /> : null}
+      </dd>
     </>
   );
 }
 
-function HomeInternals() {
-  const internals = {
-    workerThreads: 24,
-    availableThreads: 32000,
-    availableMbytes: 1536,
-    heapMemoryUsedKbytes: 248192
-  };
+interface HomeInternalsProps {
+  /** `?refresh=` sets the auto-refresh interval in seconds; 0 turns it off. */
+  query: URLSearchParams | null;
+}
+
+function HomeInternals({ query }: HomeInternalsProps) {
+  const navigate = useNavigate();
+  const { internals: internalsService } = useServices();
+  const refreshSeconds = readRefreshSeconds(query);
+
+  const { samples, latest: internals, error, refresh } = usePolling(
+    (signal) => internalsService.read(signal),
+    refreshSeconds > 0 ? refreshSeconds * 1000 : null
+  );
+  const history = (read: (info: InternalsInfo) => number) => samples.map(read);
+  const browser = readBrowserMetrics();
 
   return (
     <>
       <div>
         <h4>InternalsInfo</h4>
         <hr />
-        <dl className="dl-horizontal">
-          <dt>WorkerThreads</dt>
-          <dd>{internals.workerThreads}</dd>
+        <form className="form-inline" data-testid="internals-refresh" onSubmit={(event) => event.preventDefault()}>
+          <label htmlFor="internals-refresh-interval">Refresh every</label>{" "}
+          <select
+            id="internals-refresh-interval"
+            className="form-control input-sm"
+            value={refreshSeconds}
+            onChange={(event) => navigate(actionUrl("Home", "Internals", null, { refresh: event.target.value }), { replace: true })}
+          >
+            {refreshOptions.map((item) => <option key={item.seconds} value={item.seconds}>{item.text}</option>)}
+          </select>{" "}
+          <button type="button" className="btn btn-default btn-sm" onClick={refresh}>Refresh now</button>
+          {internals ? <span className="route-note"> Last read {new Date(internals.sampledAtUtc).toLocaleTimeString("en-US")}</span> : null}
+        </form>
+        {error ? <div className="text-danger" data-testid="internals-error">{error}</div> : null}
 
-          <dt>AvailableThreads</dt>
-          <dd>{internals.availableThreads}</dd>
+        <dl className="dl-horizontal" data-testid="internals-server">
+          <Metric name="WorkerThreads" value={internals?.workerThreads} />
+          <Metric name="AvailableThreads" value={internals?.availableThreads} />
+          <Metric name="AvailableMbytes" value={internals?.availableMbytes} history={history((info) => info.availableMbytes)} />
+          <Metric name="HeapMemoryUsedKbytes" value={internals?.heapMemoryUsedKbytes} history={history((info) => info.heapMemoryUsedKbytes)} />
+          <Metric name="RssKbytes" value={internals?.rssKbytes} history={history((info) => info.rssKbytes)} />
+          <Metric name="EventLoopLagMs" value={internals?.eventLoopLagMs} history={history((info) => info.eventLoopLagMs)} />
+          <Metric name="ActiveHandles" value={internals?.activeHandles} history={history((info) => info.activeHandles)} />
+        </dl>
 
-          <dt>AvailableMbytes</dt>
-          <dd>{internals.availableMbytes}</dd>
+        <h4>Browser</h4>
+        <hr />
+        <dl className="dl-horizontal" data-testid="internals-browser">
+          <dt>JsHeapUsedKbytes</dt>
+          <dd>{displayMetric(browser.jsHeapUsedKbytes)}</dd>
 
-          <dt>HeapMemoryUsedKbytes</dt>
-          <dd>{internals.heapMemoryUsedKbytes}</dd>
+          <dt>JsHeapLimitKbytes</dt>
+          <dd>{displayMetric(browser.jsHeapLimitKbytes)}</dd>
+
+          <dt>HardwareConcurrency</dt>
+          <dd>{displayMetric(browser.hardwareConcurrency)}</dd>
+
+          <dt>DeviceMemoryGbytes</dt>
+          <dd>{displayMetric(browser.deviceMemoryGbytes)}</dd>
         </dl>
+
+        <RuntimeConfigSummary />
       </div>
       <p>
-        <Link to="/Home/Index" data-testid="internals-back-link">Back to List</Link>
+        <Link to={actionUrl("Home", "Index")} data-testid="internals-back-link">Back to List</Link>
       </p>
     </>
   );
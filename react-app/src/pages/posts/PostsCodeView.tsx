@@ -0,0 +1,118 @@
+import { Link } from "react-router-dom";
+import { CodePanel, CodeView, SourceLink } from "../../components/shared/CodeView";
+import { actionUrl } from "../../lib/mvcRoutes";
+import detailPostDtoSetup from "legacy-source:ServiceLayer/PostServices/DetailPostDto.cs?member=SetupSecondaryData";
+import detailPostDtoSupported from "legacy-source:ServiceLayer/PostServices/DetailPostDto.cs?member=SupportedFunctions";
+import detailPostDtoUpdate from "legacy-source:ServiceLayer/PostServices/DetailPostDto.cs?member=UpdateDataFromDto";
+import postsControllerEdit from "legacy-source:SampleWebApp/Controllers/PostsController.cs?member=Edit";
+import postsControllerIndex from "legacy-source:SampleWebApp/Controllers/PostsController.cs?member=Index";
+import serviceLayerModule from "legacy-source:ServiceLayer/Startup/ServiceLayerModule.cs?member=Load";
+
+const genericServicesUrl = "https://github.com/JonPSmith/GenericServices/blob/master/GenericServices";
+
+/** Views/Posts/CodeView.cshtml. */
+export function PostsCodeView() {
+  return (
+    <CodeView
+      title="Posts: An explanation of Post code"
+      summary={
+        <>
+          This is a summary of the main parts used to list, detail, create, edit and delete Post entries via a DTO.
+          This type of services that needs a DTO are used when the data class has dependent foreign keys that
+          need to be manipulated before the data class can be written to the database.
+        </>
+      }
+    >
+      <h3>The Posts Controller</h3>
+      <p>
+        The <code>PostsController</code> (see here for <SourceLink path="SampleWebApp/Controllers/PostsController.cs">code on GitHub</SourceLink>)
+        uses the GenericService&apos;s DTO version of the database commands, which are injected into each action as a parameter.
+        The PostsController has <code>List</code>, <code>Detail</code>, <code>Create</code>, <code>Update</code> and <code>Delete</code> actions on the Post data class.
+      </p>
+      <CodePanel id="PostsController" title="PostsController Database Actions" excerpts={[postsControllerIndex, postsControllerEdit]}>
+        <dl>
+          <dt>Index Action - List of Posts</dt>
+          <dd>
+            The service is injected by DI into the action as a parameter, and its one command, <code>.GetAll&lt;T&gt;()</code>,
+            returns an <code>IQueryable&lt;T&gt;</code> of the <code>SimplePostDto</code>, which is filtered by blog and turned into a List to show in the view.
+          </dd>
+          <dt>One stage actions List, Detail and Delete</dt>
+          <dd>List, Detail and Delete have only one stage as there is no setup needed.</dd>
+          <dt>Two stage actions like Edit and Create</dt>
+          <dd>
+            The setup service gets the data to show in the form; when the form is submitted <code>UpdateService</code> or <code>CreateService</code> saves it.
+            If the posted data is not valid, <code>service.ResetDto(dto)</code> refills the lists before the form is shown again, and errors
+            found by <abbr title="Entity Framework">EF</abbr> come back in the status and are copied into the ModelState.
+          </dd>
+        </dl>
+      </CodePanel>
+
+      <h3>The GenericService methods</h3>
+      <p>
+        In the Controller the <a href={`${genericServicesUrl}/Services/Concrete/ListService.cs`} target="_blank" rel="noreferrer">ListService</a>,
+        {" "}<a href={`${genericServicesUrl}/Services/Concrete/DetailService.cs`} target="_blank" rel="noreferrer">DetailService</a>,
+        {" "}<a href={`${genericServicesUrl}/Services/Concrete/UpdateService.cs`} target="_blank" rel="noreferrer">UpdateService</a>,
+        {" "}<a href={`${genericServicesUrl}/Services/Concrete/CreateService.cs`} target="_blank" rel="noreferrer">CreateService</a> and
+        {" "}<a href={`${genericServicesUrl}/Services/Concrete/DeleteService.cs`} target="_blank" rel="noreferrer">DeleteService</a> are called.
+      </p>
+      <CodePanel id="GenericService" title="GenericService methods">
+        <dl>
+          <dt>Basic, one stage services, i.e. ListService and DetailService</dt>
+          <dd>These services have only one stage, i.e. the production of data. Therefore they are nice and simple.</dd>
+          <dt>The CreateService and the UpdateService need two stages</dt>
+          <dd>
+            A CreateSetupService, with its <code>GetDto&lt;T&gt;()</code> method, and an UpdateSetupService, with its
+            {" "}<code>GetOriginal(params object[] keys)</code> method, provide the initial data to display to the user.
+          </dd>
+          <dt>The ListService returns IQueryable</dt>
+          <dd>
+            The SQL command has not been created yet, so LINQ commands like <code>.Take(n)</code> or <code>.Skip(m)</code> for paging,
+            or further filters, become part of the SQL request.
+          </dd>
+        </dl>
+      </CodePanel>
+
+      <h3>The DetailPostDto DTO</h3>
+      <p>
+        The <code>DetailPostDto</code> (<SourceLink path="ServiceLayer/PostServices/DetailPostDto.cs" />) is at the heart of how the Create and Edit
+        actions allow the user to set or change a Post&apos;s author or tags. It inherits the abstract class
+        {" "}<code>EfGenericDto</code> (<a href={`${genericServicesUrl}/Core/EfGenericDto.cs`} target="_blank" rel="noreferrer">code</a>) and overrides a
+        few methods to handle the Post&apos;s <code>BlogId</code> and <code>Tag</code> collection.
+      </p>
+      <CodePanel id="DetailPostDto" title="DetailPostDto DTO Actions" excerpts={[detailPostDtoSupported, detailPostDtoSetup, detailPostDtoUpdate]}>
+        <dl>
+          <dt>Adding UI controls for changing a Post&apos;s author and tags</dt>
+          <dd>
+            The DTO adds a <SourceLink path="ServiceLayer/UiClasses/DropDownListType.cs">DropDownListType</SourceLink> called <code>Bloggers</code> and a
+            {" "}<SourceLink path="ServiceLayer/UiClasses/MultiSelectListType.cs">MultiSelectListType</SourceLink> called <code>UserChosenTags</code>,
+            which the <Link to={actionUrl("Posts", "Create")}>Create</Link> and Edit views show with editor templates of the same names.
+          </dd>
+          <dt>Filling in the UI lists prior to display</dt>
+          <dd><code>SetupSecondaryData</code> makes sure the two lists are filled before the Create or Edit view is shown.</dd>
+          <dt>Updating the Author (BlogId) and Tags</dt>
+          <dd>
+            <code>UpdateDataFromDto</code> reads the user&apos;s choices from the two lists and sets <code>BlogId</code> and <code>Tags</code>
+            before the properties are copied back to the <code>Post</code> class.
+          </dd>
+          <dt>Other interesting stuff</dt>
+          <dd>
+            <code>SupportedFunctions</code> says which services the DTO can support. Only properties with a public setter are copied to the data,
+            which is how <code>LastUpdated</code> is left to <abbr title="Entity Framework">EF</abbr>.
+          </dd>
+        </dl>
+      </CodePanel>
+
+      <h3 id="di-section">How DI is used in SampleMvcWebApp</h3>
+      <p>
+        Services are injected into each Controller action as a parameter by a <SourceLink path="SampleWebApp/Infrastructure/DiModelBinder.cs">DiModelBinder</SourceLink>,
+        using <a href="https://github.com/autofac/Autofac/wiki/Open-Generics" target="_blank" rel="noreferrer">AutoFac&apos;s generic binding</a> to register all the possible service options.
+      </p>
+      <CodePanel id="DIused" title="How the services are registered" excerpts={[serviceLayerModule]}>
+        <p>
+          The <code>ServiceLayerModule</code> registers the DataLayer, every class in the service layer and the whole GenericServices assembly
+          against the interfaces they implement, so an action can ask for any <code>IxxxService</code>.
+        </p>
+      </CodePanel>
+    </CodeView>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { actionUrl } from "../../lib/mvcRoutes";
+import { type LoadTestResult, runLoadTest } from "../../lib/loadTest";
+import type { DelayVariant } from "../../services/delayServices";
+import { useServices } from "../../services/ServicesContext";
+import type { FieldErrorMap } from "../../services/successOrErrors";
+import { postsController, type PostsVariant } from "./PostsViews";
+
+const targets: Record<DelayVariant, string> = {
+  sync: "Posts/Delay (sync, one at a time)",
+  async: "PostsAsync/Delay (async, frees the server)"
+};
+
+interface LoadTestFormModel {
+  target: DelayVariant;
+  concurrency: string;
+  durationSeconds: string;
+}
+
+interface LoadTestRun extends LoadTestResult {
+  target: string;
+  startedAtUtc: string;
+}
+
+function readRange(value: string, field: string, min: number, max: number, errors: FieldErrorMap) {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+    errors[field] = [`The field ${field} must be between ${min} and ${max}.`];
+  }
+  return parsed;
+}
+
+function downloadJson(fileName: string, value: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Fires concurrent requests at the Delay actions for a set time, to compare how many
+ * requests a second the server handles when the delay blocks it and when it does not.
+ */
+export function PostsLoadTest({ variant }: { variant: PostsVariant }) {
+  const { delay } = useServices();
+  const [model, setModel] = useState<LoadTestFormModel>({ target: variant, concurrency: "6", durationSeconds: "10" });
+  const [errors, setErrors] = useState<FieldErrorMap>({});
+  const [progress, setProgress] = useState<{ completed: number; errors: number } | null>(null);
+  const [runs, setRuns] = useState<LoadTestRun[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isRunning = progress !== null;
+
+  return (
+    <>
+      <h2>{variant === "async" ? "PostsAsync Load Test" : "Posts Load Test"}</h2>
+      <p>
+        This keeps a number of requests to one of the Delay actions in flight for a set time, then reports how many the server
+        handled. Each Delay request takes 500ms: the sync version holds the server&apos;s one request thread while it waits, like
+        Thread.Sleep, so concurrent requests queue behind it, while the async version releases it, like <code>await Task.Delay</code>.
+        Run both with the same settings to compare their throughput.
+      </p>
+      <p className="route-note">
+        Browsers open at most six connections to one HTTP/1.1 server, so with more than six concurrent requests the extra ones
+        queue in the browser and that wait shows up in their latency.
+      </p>
+      <hr />
+
+      <form
+        data-testid="load-test-form"
+        onSubmit={async (event) => {
+          event.preventDefault();
+          if (isRunning) return;
+          const formErrors: FieldErrorMap = {};
+          const concurrency = readRange(model.concurrency, "Concurrency", 1, 50, formErrors);
+          const durationSeconds = readRange(model.durationSeconds, "DurationSeconds", 1, 120, formErrors);
+          setErrors(formErrors);
+          if (Object.keys(formErrors).length > 0) return;
+
+          const controller = new AbortController();
+          controllerRef.current = controller;
+          const startedAtUtc = new Date().toISOString();
+          setProgress({ completed: 0, errors: 0 });
+          try {
+            const result = await runLoadTest({
+              concurrency,
+              durationMs: durationSeconds * 1000,
+              request: (signal) => delay.delay(model.target, signal),
+              signal: controller.signal,
+              onProgress: (completed, errorCount) => setProgress({ completed, errors: errorCount })
+            });
+            if (!controller.signal.aborted || result.requests > 0) {
+              setRuns((prev) => [...prev, { target: targets[model.target], startedAtUtc, ...result }]);
+            }
+          } finally {
+            controllerRef.current = null;
+            setProgress(null);
+          }
+        }}
+      >
+        <div className="form-horizontal">
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="load-test-target">Target</label>
+            <div className="col-md-10">
+              <select
+                id="load-test-target"
+                className="form-control"
+                value={model.target}
+                disabled={isRunning}
+                onChange={(event) => setModel((prev) => ({ ...prev, target: event.target.value as DelayVariant }))}
+              >
+                <option value="sync">{targets.sync}</option>
+                <option value="async">{targets.async}</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="load-test-concurrency">Concurrency</label>
+            <div className="col-md-10">
+              <input
+                id="load-test-concurrency"
+                type="number"
+                className="form-control"
+                value={model.concurrency}
+                disabled={isRunning}
+                onChange={(event) => setModel((prev) => ({ ...prev, concurrency: event.target.value }))}
+              />
+              {(errors.Concurrency || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="load-test-duration">DurationSeconds</label>
+            <div className="col-md-10">
+              <input
+                id="load-test-duration"
+                type="number"
+                className="form-control"
+                value={model.durationSeconds}
+                disabled={isRunning}
+                onChange={(event) => setModel((prev) => ({ ...prev, durationSeconds: event.target.value }))}
+              />
+              {(errors.DurationSeconds || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <div className="col-md-offset-2 col-md-10">
+              {isRunning ? (
+                <>
+                  <button type="button" className="btn btn-default" onClick={() => controllerRef.current?.abort()}>Stop</button>
+                  <span className="route-note" role="status">
+                    {" "}Running... {progress.completed} requests done, {progress.errors} errors.
+                  </span>
+                </>
+              ) : (
+                <input type="submit" value="Run load test" className="btn btn-default" />
+              )}
+            </div>
+          </div>
+        </div>
+      </form>
+
+      {runs.length > 0 ? (
+        <>
+          <h4>Results</h4>
+          <table className="table table-condensed" data-testid="load-test-results">
+            <thead>
+              <tr>
+                <th>Target</th>
+                <th>Concurrency</th>
+                <th>Seconds</th>
+                <th>Requests</th>
+                <th>Errors</th>
+                <th>Requests/sec</th>
+                <th>Min ms</th>
+                <th>Mean ms</th>
+                <th>p50 ms</th>
+                <th>p90 ms</th>
+                <th>p95 ms</th>
+                <th>p99 ms</th>
+                <th>Max ms</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.startedAtUtc}>
+                  <td>{run.target}</td>
+                  <td>{run.concurrency}</td>
+                  <td>{(run.elapsedMs / 1000).toFixed(1)}</td>
+                  <td>{run.requests}</td>
+                  <td title={run.errorMessages.join("\n") || undefined}>{run.errors}</td>
+                  <td>{run.requestsPerSecond}</td>
+                  <td>{run.latencyMs.min}</td>
+                  <td>{run.latencyMs.mean}</td>
+                  <td>{run.latencyMs.p50}</td>
+                  <td>{run.latencyMs.p90}</td>
+                  <td>{run.latencyMs.p95}</td>
+                  <td>{run.latencyMs.p99}</td>
+                  <td>{run.latencyMs.max}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p>
+            <button
+              type="button"
+              className="btn btn-default btn-sm"
+              onClick={() => downloadJson(`load-test-${new Date().toISOString().replace(/[:.]/g, "-")}.json`, {
+                exportedAtUtc: new Date().toISOString(),
+                userAgent: navigator.userAgent,
+                runs
+              })}
+            >
+              Export JSON
+            </button>{" "}
+            <button type="button" className="btn btn-default btn-sm" onClick={() => setRuns([])} disabled={isRunning}>
+              Clear results
+            </button>
+          </p>
+        </>
+      ) : null}
+
+      <div><Link to={actionUrl(postsController(variant), "Index")}>Back to List</Link></div>
+    </>
+  );
+}
@@ -0,0 +1,617 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { AsyncContent } from "../../components/shared/AsyncContent";
+import { ConcurrencyConflict, type ConflictField } from "../../components/shared/ConcurrencyConflict";
+import { ConfirmForm } from "../../components/shared/ConfirmForm";
+import { DeleteConfirmForm } from "../../components/shared/DeleteConfirmForm";
+import { GridPager, SortHeader } from "../../components/shared/GridControls";
+import { DropDownListType, MultiSelectListType } from "../../components/shared/ListTypeEditors";
+import { NotFound } from "../../components/shared/NotFound";
+import { TempDataMessages, type UndoDeleteHandler } from "../../components/shared/TempDataMessages";
+import { UpdatedElsewhereNotice } from "../../components/shared/UpdatedElsewhereNotice";
+import { ValidationRulesTable, WhereCheckedNotes } from "../../components/shared/ValidationRulesTable";
+import { type AsyncState, useAsyncData } from "../../hooks/useAsyncData";
+import { useEditConflict } from "../../hooks/useEditConflict";
+import { useGridQuery } from "../../hooks/useGridQuery";
+import { useRowHead } from "../../hooks/usePageHead";
+import { useReturnUrl } from "../../hooks/useReturnUrl";
+import { applyGridQuery, containsText, defaultPageSizes, type GridSpec } from "../../lib/gridQuery";
+import type { DetailPostDto, PostSetup, SimplePostDto } from "../../services/postServices";
+import { actionUrl } from "../../lib/mvcRoutes";
+import { tempData } from "../../lib/tempData";
+import { useServices } from "../../services/ServicesContext";
+import type { FieldErrorMap, ISuccessOrConflict, ISuccessOrErrors } from "../../services/successOrErrors";
+import { optionTexts, type OptionItem } from "../../services/uiClasses";
+import { postValidationRules, validatePostInBrowser } from "../../validation/postValidation";
+import { hasErrors, modelLevelErrors } from "../../validation/validationErrors";
+
+/** Posts and PostsAsync render the same views; only wording, links and the data path differ. */
+export type PostsVariant = "sync" | "async";
+
+type PostFormModel = DetailPostDto;
+
+export function postsController(variant: PostsVariant) {
+  return variant === "async" ? "PostsAsync" : "Posts";
+}
+
+function headingSuffix(variant: PostsVariant) {
+  return variant === "async" ? " (Async)" : "";
+}
+
+export function toShortDateString(value: string) {
+  return new Date(value).toLocaleDateString("en-US");
+}
+
+function createInitialForm(post?: DetailPostDto): PostFormModel {
+  if (!post) {
+    return {
+      postId: 0,
+      title: "",
+      content: "",
+      bloggerName: "",
+      tagNames: "",
+      lastUpdatedUtc: "",
+      bloggers: "",
+      userChosenTags: []
+    };
+  }
+
+  return { ...post, userChosenTags: [...post.userChosenTags] };
+}
+
+type PostSortKey = "bloggerName" | "title" | "lastUpdated";
+type PostFilter = "blogger" | "tag" | "title";
+
+function splitTagNames(tagNames: string) {
+  return tagNames.split(",").map((name) => name.trim()).filter(Boolean);
+}
+
+export const postsGridSpec: GridSpec<SimplePostDto, PostSortKey, PostFilter> = {
+  sortKeys: {
+    bloggerName: (row) => row.bloggerName,
+    title: (row) => row.title,
+    lastUpdated: (row) => Date.parse(row.lastUpdatedUtc)
+  },
+  filters: {
+    blogger: (row, value) => String(row.blogId) === value,
+    tag: (row, value) => splitTagNames(row.tagNames).some((name) => name.toLowerCase() === value.toLowerCase()),
+    title: (row, value) => containsText(row.title, value)
+  },
+  pageSizes: defaultPageSizes,
+  defaultPageSize: 25
+};
+
+interface PostsGridFilterProps {
+  posts: SimplePostDto[];
+  filters: Partial<Record<PostFilter, string>>;
+  onApply: (filters: Partial<Record<PostFilter, string>>) => void;
+  clearUrl: string;
+}
+
+/** The blogger and tag choices come from the posts being listed, so every choice finds something. */
+function PostsGridFilter({ posts, filters, onApply, clearUrl }: PostsGridFilterProps) {
+  const [draft, setDraft] = useState(filters);
+  useEffect(() => setDraft(filters), [filters]);
+
+  const bloggers = useMemo(
+    () => [...new Map(posts.map((item) => [item.blogId, item.bloggerName])).entries()].sort((a, b) => a[1].localeCompare(b[1])),
+    [posts]
+  );
+  const tagNames = useMemo(() => [...new Set(posts.flatMap((item) => splitTagNames(item.tagNames)))].sort(), [posts]);
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <form
+      className="form-inline"
+      data-testid="posts-filter"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onApply(draft);
+      }}
+    >
+      <label htmlFor="posts-filter-blogger">Blogger</label>{" "}
+      <select
+        id="posts-filter-blogger"
+        className="form-control input-sm"
+        value={draft.blogger ?? ""}
+        onChange={(event) => setDraft((prev) => ({ ...prev, blogger: event.target.value || undefined }))}
+      >
+        <option value="">All</option>
+        {bloggers.map(([blogId, name]) => <option key={blogId} value={blogId}>{name}</option>)}
+      </select>{" "}
+      <label htmlFor="posts-filter-tag">Tag</label>{" "}
+      <select
+        id="posts-filter-tag"
+        className="form-control input-sm"
+        value={draft.tag ?? ""}
+        onChange={(event) => setDraft((prev) => ({ ...prev, tag: event.target.value || undefined }))}
+      >
+        <option value="">All</option>
+        {tagNames.map((name) => <option key={name} value={name}>{name}</option>)}
+      </select>{" "}
+      <label htmlFor="posts-filter-title">Title contains</label>{" "}
+      <input
+        id="posts-filter-title"
+        className="form-control input-sm"
+        value={draft.title ?? ""}
+        onChange={(event) => setDraft((prev) => ({ ...prev, title: event.target.value || undefined }))}
+      />{" "}
+      <input type="submit" value="Filter" className="btn btn-default btn-sm" />
+      {hasFilters ? <>{" "}<Link to={clearUrl}>Clear filters</Link></> : null}
+    </form>
+  );
+}
+
+interface PostsIndexProps {
+  variant: PostsVariant;
+  posts: SimplePostDto[];
+  /** Set by the Index action itself, e.g. "Filtered list"; redirect messages come through TempData. */
+  message?: string | null;
+  undoDelete?: UndoDeleteHandler;
+}
+
+export function PostsIndex({ variant, posts, message, undoDelete }: PostsIndexProps) {
+  const controller = postsController(variant);
+  const grid = useGridQuery(postsGridSpec);
+  const page = useMemo(() => applyGridQuery(postsGridSpec, posts, grid.query), [posts, grid.query]);
+  // Edit, Details and Delete come back to this exact view of the list.
+  const returnQuery = grid.listUrl === actionUrl(controller, "Index") ? {} : { returnUrl: grid.listUrl };
+
+  return (
+    <>
+      <h2>{variant === "async" ? "Posts (async)" : "Posts"}</h2>
+
+      <TempDataMessages message={message} undoDelete={undoDelete} />
+
+      {variant === "async" ? (
+        <p>
+          This is a demonstration of <a href="https://github.com/JonPSmith/GenericServices" target="_blank" rel="noreferrer">GenericServices&apos;</a>
+          database CRUD (Create, Read, Update/Edit and Delete) services done asynchronously, i.e. using
+          <a href="http://www.asp.net/mvc/tutorials/getting-started-with-ef-using-mvc" target="_blank" rel="noreferrer"> Entity Framework 6&apos;s</a> Async commands.
+          Async commands are designed to free up the current thread while something outside the web server is running, in this case a database access.
+          This should make the site able to handle more users, but the individual action takes a little bit longer.
+          (See <Link to={actionUrl("Posts", "Index")}>Posts</Link> for normal versions of the same commands).
+        </p>
+      ) : (
+        <p>
+          This is a demonstration of <a href="https://github.com/JonPSmith/GenericServices" target="_blank" rel="noreferrer">GenericServices&apos;</a>
+          database CRUD (Create, Read, Update/Edit and Delete) services done synchronously, i.e no wait states to improve web site capacity.
+          (See <Link to={actionUrl("PostsAsync", "Index")}>Posts Async</Link> for async versions of the same commands).
+        </p>
+      )}
+      <p>
+        Below you will see a table of posts which can be manipulated. We have chosen a POST as an example as it has the following attributes:
+      </p>
+      <ul>
+        <li>When we list them we want &apos;shape&apos; what the user sees, i.e. we leave out the post content but include the blogger Name and Tags.</li>
+        <li>The create and edit commands are non-trivial because Posts links to other tables, like author and the tags.</li>
+      </ul>
+      <hr />
+
+      <div data-testid="posts-top-links">
+        {variant === "async" ? (
+          <span>
+            <Link to={actionUrl("PostsAsync", "Create")}>Create New Post</Link> | <Link to={actionUrl("TagsAsync", "Index")}>Go to TagsAsync Page</Link> | <Link to={actionUrl("PostsAsync", "Reset")}>Reset blogs data</Link>
+          </span>
+        ) : (
+          <span>
+            <Link to={actionUrl("Posts", "Create")}>Create New Post</Link> | <Link to={actionUrl("Tags", "Index")}>Tags Page</Link> | <Link to={actionUrl("Blogs", "Index")}>Blogs Page</Link> | <Link to={actionUrl("Posts", "Reset")}>Reset Blogs data</Link>
+          </span>
+        )}
+        <span className="pull-right"><strong><Link to={actionUrl(controller, "CodeView")}>Explanation of the code</Link></strong></span>
+      </div>
+
+      <PostsGridFilter posts={posts} filters={grid.query.filters} onApply={(filters) => grid.update({ filters })} clearUrl={grid.hrefFor({ filters: {} })} />
+
+      <table className="table" data-testid="posts-grid">
+        <thead>
+          <tr>
+            <SortHeader label="BloggerName" sortKey="bloggerName" query={grid.query} hrefFor={grid.hrefFor} />
+            <SortHeader label="Title" sortKey="title" query={grid.query} hrefFor={grid.hrefFor} />
+            <SortHeader label="Last updated" sortKey="lastUpdated" query={grid.query} hrefFor={grid.hrefFor} />
+            <th>TagNames</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {page.rows.map((item) => (
+            <tr key={item.postId}>
+              <td>{item.bloggerName}</td>
+              <td>{item.title}</td>
+              <td>{toShortDateString(item.lastUpdatedUtc)}</td>
+              <td>{item.tagNames}</td>
+              <td>
+                <Link to={actionUrl(controller, "Edit", item.postId, returnQuery)}>Edit</Link> | <Link to={actionUrl(controller, "Details", item.postId, returnQuery)}>Details</Link> | <Link to={actionUrl(controller, "Delete", item.postId, returnQuery)}>Delete</Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <GridPager page={page} query={grid.query} pageSizes={postsGridSpec.pageSizes} hrefFor={grid.hrefFor} onPageSizeChange={(pageSize) => grid.update({ pageSize })} />
+
+      <span>
+        <Link to={actionUrl(controller, "Delay")}>{variant === "async" ? "Delay for 500ms (async)" : "Delay for 500ms (Sync)"}</Link>
+        &nbsp;Useful for checking capacity of web server (<Link to={actionUrl(controller, "LoadTest")}>run a load test</Link>)
+      </span>
+    </>
+  );
+}
+
+interface PostsFormProps {
+  variant: PostsVariant;
+  mode: "create" | "edit";
+  currentRow: DetailPostDto | null;
+  /** The blogger and tag lists; the async form loads them, the sync form has them at once. */
+  options: AsyncState<PostSetup>;
+  onRetryOptions?: () => void;
+  /** Returns the save status; a conflict carries the post as the other user saved it. */
+  onSave: (payload: PostFormModel) => ISuccessOrConflict<PostFormModel> | Promise<ISuccessOrConflict<PostFormModel>>;
+  /** Called whenever the server redisplays the form with errors, like the controller's ResetDto call. */
+  onValidationFailed?: () => void;
+}
+
+/** One of the setup lists, in the loading state the editors show. */
+function optionList(options: AsyncState<PostSetup>, pick: (setup: PostSetup) => OptionItem[]): AsyncState<OptionItem[]> {
+  return options.status === "success" ? { status: "success", data: pick(options.data) } : options;
+}
+
+function postConflictFields(options: AsyncState<PostSetup>): ConflictField<PostFormModel>[] {
+  const setup = options.status === "success" ? options.data : { bloggers: [], tags: [] };
+  return [
+    { key: "title", label: "Title" },
+    { key: "content", label: "Content" },
+    { key: "bloggers", label: "Bloggers", format: (value) => optionTexts(setup.bloggers, [String(value)]).join(", ") },
+    { key: "userChosenTags", label: "Tags", format: (value) => optionTexts(setup.tags, value as string[]).join(", ") }
+  ];
+}
+
+export function PostsForm({ variant, mode, currentRow, options, onRetryOptions, onSave, onValidationFailed }: PostsFormProps) {
+  const loadedRow = mode === "edit" ? currentRow : null;
+  const [model, setModel] = useState<PostFormModel>(() => createInitialForm(loadedRow ?? undefined));
+  const [errors, setErrors] = useState<FieldErrorMap>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const conflict = useEditConflict(loadedRow);
+
+  // Only a different post restarts the form; a newer copy of the same one is left to the conflict check.
+  useEffect(() => {
+    setModel(createInitialForm(loadedRow ?? undefined));
+    setErrors({});
+    conflict.reset(loadedRow);
+  }, [mode, loadedRow?.postId]);
+
+  const controller = postsController(variant);
+  const { listUrl } = useReturnUrl(actionUrl(controller, "Index"));
+  const title = `${mode === "create" ? "Create" : "Edit"}${headingSuffix(variant)}`;
+  const submitLabel = mode === "create" ? "Create" : "Save";
+  const dtoName = variant === "async" ? "DetailPostDtoAsync" : "DetailPostDto";
+
+  const summaryErrors = modelLevelErrors(errors);
+
+  const save = async (next: PostFormModel) => {
+    // Browser errors stop the post, so the controller never gets to call ResetDto.
+    const browserErrors = validatePostInBrowser(next);
+    if (hasErrors(browserErrors)) {
+      setErrors(browserErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const status = await onSave(next);
+      if (status.conflict) {
+        setErrors({});
+        conflict.report(status.conflict);
+        return;
+      }
+      setErrors(status.errors);
+      if (hasErrors(status.errors)) onValidationFailed?.();
+    } catch (error) {
+      setErrors({ "": [error instanceof Error ? error.message : "The post could not be saved."] });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (mode === "edit" && !currentRow) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Post not found.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>{title}</h2>
+
+      {loadedRow ? <UpdatedElsewhereNotice key={model.lastUpdatedUtc} entity="post" id={loadedRow.postId} /> : null}
+      {conflict.theirs && conflict.base ? (
+        <ConcurrencyConflict
+          key={conflict.theirs.lastUpdatedUtc}
+          entityName="post"
+          fields={postConflictFields(options)}
+          base={conflict.base}
+          yours={model}
+          theirs={conflict.theirs}
+          disabled={isSaving}
+          onOverwrite={() => {
+            const next = conflict.resolve(model);
+            setModel(next);
+            void save(next);
+          }}
+          onMerge={(merged) => setModel(conflict.resolve(merged))}
+          onDiscard={() => setModel(createInitialForm(conflict.resolve(conflict.theirs!)))}
+        />
+      ) : null}
+
+      <form
+        data-testid="posts-form"
+        aria-busy={isSaving}
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (isSaving) return;
+          void save(model);
+        }}
+      >
+        <div className="form-horizontal">
+          <h4>{mode === "create" ? "Post" : dtoName}</h4>
+          <hr />
+
+          {summaryErrors.length > 0 ? (
+            <div className="text-danger validation-summary" data-testid="validation-summary">
+              <ul>
+                {summaryErrors.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          ) : null}
+
+          {mode === "edit" ? (
+            <>
+              <input type="hidden" value={model.postId} name="PostId" />
+              <input type="hidden" value={model.lastUpdatedUtc} name="LastUpdatedUtc" />
+            </>
+          ) : null}
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="post-title">Title</label>
+            <div className="col-md-10">
+              <input
+                id="post-title"
+                className="form-control"
+                value={model.title}
+                onChange={(event) => setModel((prev) => ({ ...prev, title: event.target.value }))}
+              />
+              {(errors.Title || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="post-content">Content</label>
+            <div className="col-md-10">
+              <textarea
+                id="post-content"
+                className="form-control"
+                value={model.content}
+                onChange={(event) => setModel((prev) => ({ ...prev, content: event.target.value }))}
+              />
+              {(errors.Content || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="post-blogger">Bloggers</label>
+            <div className="col-md-10">
+              <DropDownListType
+                id="post-blogger"
+                options={optionList(options, (setup) => setup.bloggers)}
+                onRetry={onRetryOptions}
+                emptyText="There are no bloggers yet. Create a blog first."
+                placeholder="-- Select blogger --"
+                value={model.bloggers}
+                onChange={(bloggers) => setModel((prev) => ({ ...prev, bloggers }))}
+              />
+              {(errors.Bloggers || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="post-tags">Tags</label>
+            <div className="col-md-10">
+              <MultiSelectListType
+                id="post-tags"
+                options={optionList(options, (setup) => setup.tags)}
+                onRetry={onRetryOptions}
+                emptyText="There are no tags yet. Create a tag first."
+                placeholder="Search tags"
+                value={model.userChosenTags}
+                onChange={(userChosenTags) => setModel((prev) => ({ ...prev, userChosenTags }))}
+              />
+              {(errors.UserChosenTags || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <div className="col-md-offset-2 col-md-10">
+              <input type="submit" value={isSaving ? "Saving..." : submitLabel} className="btn btn-default" disabled={isSaving} />
+            </div>
+          </div>
+        </div>
+      </form>
+
+      <div>
+        <Link to={listUrl}>Back to List</Link>
+      </div>
+      <hr />
+      <PostValidationReference />
+    </>
+  );
+}
+
+interface PostsDetailsProps {
+  variant: PostsVariant;
+  row: DetailPostDto | null;
+}
+
+export function PostsDetails({ variant, row }: PostsDetailsProps) {
+  const controller = postsController(variant);
+  const { listUrl, returnQuery } = useReturnUrl(actionUrl(controller, "Index"));
+  const title = `Details${headingSuffix(variant)}`;
+  useRowHead(controller, row?.title);
+
+  if (!row) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Post not found.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>{title}</h2>
+      <PostsDetailFields variant={variant} row={row} />
+      <p>
+        <Link to={actionUrl(controller, "Edit", row.postId, returnQuery)}>Edit</Link> | <Link to={listUrl}>Back to List</Link>
+      </p>
+    </>
+  );
+}
+
+function PostsDetailFields({ variant, row }: { variant: PostsVariant; row: DetailPostDto }) {
+  return (
+    <div>
+      <h4>{variant === "async" ? "DetailPostDtoAsync" : "DetailPostDto"}</h4>
+      <hr />
+      <dl className="dl-horizontal">
+        <dt>Title</dt>
+        <dd>{row.title}</dd>
+
+        <dt>Content</dt>
+        <dd>{row.content}</dd>
+
+        <dt>BloggerName</dt>
+        <dd>{row.bloggerName}</dd>
+
+        <dt>Last updated</dt>
+        <dd>{toShortDateString(row.lastUpdatedUtc)}</dd>
+
+        <dt>TagNames</dt>
+        <dd>{row.tagNames}</dd>
+      </dl>
+    </div>
+  );
+}
+
+interface PostsDeleteProps {
+  variant: PostsVariant;
+  row: DetailPostDto | null;
+  onDelete: (postId: number) => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+}
+
+/** The GET half of Delete shows the post; only submitting the form deletes it. */
+export function PostsDelete({ variant, row, onDelete }: PostsDeleteProps) {
+  const controller = postsController(variant);
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl(controller, "Index"));
+  const title = `Delete${headingSuffix(variant)}`;
+
+  if (!row) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Post not found. It may already have been deleted.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>{title}</h2>
+      <h3>Are you sure you want to delete this?</h3>
+      <PostsDetailFields variant={variant} row={row} />
+      <DeleteConfirmForm
+        testId="posts-delete-form"
+        listUrl={listUrl}
+        onDelete={() => onDelete(row.postId)}
+        onDeleted={(status) => {
+          tempData.setFromDelete(status, controller, row.postId);
+          navigate(listUrl);
+        }}
+      />
+    </>
+  );
+}
+
+interface PostsResetProps {
+  variant: PostsVariant;
+  onReset: () => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+}
+
+/**
+ * Reset puts every table back to the seed data, so opening its link only asks; like Delete,
+ * submitting the form is what runs it, then the list shows the outcome.
+ */
+export function PostsReset({ variant, onReset }: PostsResetProps) {
+  const controller = postsController(variant);
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl(controller, "Index"));
+
+  return (
+    <>
+      <h2>{`Reset${headingSuffix(variant)}`}</h2>
+      <h3>Are you sure you want to reset the blogs data?</h3>
+      <p>Every blog, post and tag goes back to the seed data, and any changes made since are lost.</p>
+      <ConfirmForm
+        testId="posts-reset-form"
+        listUrl={listUrl}
+        submitText="Reset"
+        busyText="Resetting..."
+        failureText="The reset failed."
+        onConfirm={onReset}
+        onConfirmed={(status) => {
+          tempData.setFromStatus(status);
+          navigate(listUrl);
+        }}
+      />
+    </>
+  );
+}
+
+export function PostsDelay({ variant }: { variant: PostsVariant }) {
+  const { delay } = useServices();
+  const { state, reload } = useAsyncData((signal) => delay.delay(variant, signal), [delay, variant]);
+
+  return (
+    <>
+      <h2>{variant === "async" ? "PostsAsync Delay" : "Posts Delay"}</h2>
+      <br />
+      <AsyncContent state={state} loadingText="Loading delay..." onRetry={reload}>
+        {(result) => <p>I delayed by {result.delayMs} ms.</p>}
+      </AsyncContent>
+      <div><Link to={actionUrl(postsController(variant), "Index")}>Back to List</Link></div>
+    </>
+  );
+}
+
+export function PostsNumPosts({ variant, count }: { variant: PostsVariant; count: number }) {
+  return (
+    <>
+      <h2>Test</h2>
+      <div>
+        <h4>Test </h4>
+        <hr />
+        <p>The total number of Posts is {count}</p>
+      </div>
+      <p><Link to={actionUrl(postsController(variant), "Index")}>Back to List</Link></p>
+    </>
+  );
+}
+
+export function PostValidationReference() {
+  const rows = postValidationRules();
+
+  return (
+    <div className="small">
+      <h4>Post Validation rules</h4>
+      <p>
+        To help with testing the Post data class has extra rules over the DetailPostDto.
+        This means that more tests are done when the database is updated, which are then caught by SaveChanges and sent back as errors.
+      </p>
+
+      <h5>Rules in both DetailPostDto and Post</h5>
+      <ValidationRulesTable rows={rows.filter((row) => row.checked.some((where) => where !== "EF"))} />
+
+      <h5>Rules only in Post</h5>
+      <ValidationRulesTable rows={rows.filter((row) => row.checked.every((where) => where === "EF"))} />
+
+      <WhereCheckedNotes rows={rows} />
+    </div>
+  );
+}
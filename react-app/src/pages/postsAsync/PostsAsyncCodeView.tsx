@@ -0,0 +1,63 @@
+import { Link } from "react-router-dom";
+import { CodePanel, CodeView, SourceLink } from "../../components/shared/CodeView";
+import { actionUrl } from "../../lib/mvcRoutes";
+import detailPostDtoAsyncSetup from "legacy-source:ServiceLayer/PostServices/DetailPostDtoAsync.cs?member=SetupSecondaryDataAsync";
+import postsAsyncControllerEdit from "legacy-source:SampleWebApp/Controllers/PostsAsyncController.cs?member=Edit";
+import postsAsyncControllerIndex from "legacy-source:SampleWebApp/Controllers/PostsAsyncController.cs?member=Index";
+
+/** Views/PostsAsync/CodeView.cshtml. */
+export function PostsAsyncCodeView() {
+  return (
+    <CodeView
+      title="PostsAsync: A explanation of the PostAsync code"
+      summary={
+        <>
+          This is a summary of the main parts used to list, detail, create, edit and delete Post entries using async commands.
+          This type of services that needs a DTO are used then the data class have dependent foreign keys that
+          need to be manipulated before the data class can be written to the database. Also the async approach is designed to release the web site
+          during database accesses so that it can be more scalable.
+        </>
+      }
+    >
+      <p>
+        In most cases we detail how PostAsync commands are different to the normal Post access. You should therefore read the
+        {" "}<Link to={actionUrl("Posts", "CodeView")}>Posts Explanation</Link> to give you that background first.
+      </p>
+      <h3>The PostAsync Controller</h3>
+      <p>
+        The <code>PostsAsyncController</code> (see here for <SourceLink path="SampleWebApp/Controllers/PostsAsyncController.cs">code on GitHub</SourceLink>)
+        uses the GenericService&apos;s DTO version of the database commands, which are injected into each action as a parameter.
+        It differs from the PostsController in that it uses async commands which release the web thread while database actions are running.
+        Async methods are designed to make the web site more scaleable, but they are slightly slower because they create and use multitasking internally.
+      </p>
+      <CodePanel id="PostsController" title="PostsAsyncController Database Actions" excerpts={[postsAsyncControllerIndex, postsAsyncControllerEdit]}>
+        <p>
+          The <Link to={`${actionUrl("Posts", "CodeView")}#PostsController`}>explanation of the post controller</Link> describes the parts
+          that are the same. These are the differences:
+        </p>
+        <ul>
+          <li>All the database access actions are marked as async and return <code>Task&lt;ActionResult&gt;</code>.</li>
+          <li>All the GenericServices commands are called xxxAsync, apart from <code>IListService</code>, whose LINQ <code>.ToListAsync()</code> makes it async.</li>
+          <li>The service method calls have an await in front of them to release control while waiting.</li>
+          <li>The DTO inherits from <code>EfGenericDtoAsync</code> rather than <code>EfGenericDto</code>.</li>
+        </ul>
+      </CodePanel>
+
+      <h3>The GenericService DTO methods</h3>
+      <p>
+        In the Controller the DTO version of DetailServiceAsync, UpdateServiceAsync, CreateServiceAsync and DeleteServiceAsync are called.
+      </p>
+      <CodePanel id="GenericService" title="GenericService async DTO methods" excerpts={[detailPostDtoAsyncSetup]}>
+        <p>
+          DetailServiceAsync is a one stage service. The Update and Create services are two stage: a setup service provides the DTO
+          for the form, with its bloggers and tags dropdowns, and a second service saves the result. If the save fails the DTO is
+          reset with <code>ResetDtoAsync</code> so that the dropdowns are filled again before the form is redisplayed.
+        </p>
+        <p>
+          The <code>DetailPostDtoAsync</code> (<SourceLink path="ServiceLayer/PostServices/DetailPostDtoAsync.cs" />) overrides the async
+          versions of the methods that <code>DetailPostDto</code> overrides, such as <code>SetupSecondaryDataAsync</code>.
+        </p>
+      </CodePanel>
+    </CodeView>
+  );
+}
@@ -0,0 +1,180 @@
+import { useNavigate } from "react-router-dom";
+import { AsyncContent } from "../../components/shared/AsyncContent";
+import { MvcLayout } from "../../components/shared/MvcLayout";
+import { RouteNotFound } from "../../components/shared/NotFound";
+import { requireResult } from "../../data/asyncData";
+import { useAsyncData } from "../../hooks/useAsyncData";
+import { useDataChanges } from "../../hooks/useDataChanges";
+import { useMvcRoute } from "../../hooks/useMvcRoute";
+import { useReturnUrl } from "../../hooks/useReturnUrl";
+import { actionUrl, type ActionOf } from "../../lib/mvcRoutes";
+import { tempData } from "../../lib/tempData";
+import type { DetailPostDto } from "../../services/postServices";
+import { useServices } from "../../services/ServicesContext";
+import { PostsLoadTest } from "../posts/PostsLoadTest";
+import { PostsDelay, PostsDelete, PostsDetails, PostsForm, PostsIndex, PostsNumPosts, PostsReset } from "../posts/PostsViews";
+import { PostsAsyncCodeView } from "./PostsAsyncCodeView";
+
+function resolveFormMode(action: ActionOf<"PostsAsync"> | null): "create" | "edit" | null {
+  if (action === "Create") return "create";
+  if (action === "Edit") return "edit";
+  return null;
+}
+
+export function PostsAsyncScreen() {
+  const route = useMvcRoute("PostsAsync");
+  const action = route.kind === "action" ? route.action : null;
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl("PostsAsync", "Index"));
+  const { postsAsync } = useServices();
+
+  const routeId = route.kind === "action" ? route.id : null;
+
+  return (
+    <MvcLayout>
+      {route.kind !== "action" ? <RouteNotFound route={route} /> : null}
+      {action === "Index" ? <PostsAsyncIndex /> : null}
+
+      {resolveFormMode(action) ? (
+        <PostsAsyncForm
+          key={`${action}-${routeId ?? "new"}`}
+          mode={resolveFormMode(action)!}
+          postId={routeId}
+          onSaved={(successMessage) => {
+            tempData.setMessage(successMessage);
+            navigate(listUrl);
+          }}
+        />
+      ) : null}
+
+      {action === "Details" ? <PostsAsyncDetails postId={routeId} /> : null}
+      {action === "Delete" ? <PostsAsyncDelete postId={routeId} /> : null}
+      {action === "Reset" ? <PostsReset variant="async" onReset={() => postsAsync.resetBlogs()} /> : null}
+      {action === "Delay" ? <PostsDelay variant="async" /> : null}
+      {action === "LoadTest" ? <PostsLoadTest variant="async" /> : null}
+      {action === "CodeView" ? <PostsAsyncCodeView /> : null}
+      {action === "NumPosts" ? <PostsAsyncNumPosts /> : null}
+    </MvcLayout>
+  );
+}
+
+function PostsAsyncIndex() {
+  const { postsAsync } = useServices();
+  const { state, reload, refresh } = useAsyncData((signal) => postsAsync.getAll(signal), [postsAsync]);
+  useDataChanges(refresh);
+
+  return (
+    <AsyncContent state={state} loadingText="Loading posts..." onRetry={reload}>
+      {(posts) => (
+        <PostsIndex
+          variant="async"
+          posts={posts}
+          undoDelete={{
+            controller: "PostsAsync",
+            run: async (id) => {
+              const status = await postsAsync.undoDelete(id);
+              if (status.isValid) reload();
+              return status;
+            }
+          }}
+        />
+      )}
+    </AsyncContent>
+  );
+}
+
+interface PostsAsyncFormProps {
+  mode: "create" | "edit";
+  postId: number | null;
+  onSaved: (successMessage: string | null) => void;
+}
+
+/**
+ * Create and Edit load the dropdown options through the async setup call, and the editors show
+ * them once they arrive. When the form is redisplayed with errors the options are fetched again,
+ * as ResetDtoAsync does in the controller, but quietly, so the last good options stay on screen.
+ */
+function PostsAsyncForm({ mode, postId, onSaved }: PostsAsyncFormProps) {
+  const { postsAsync } = useServices();
+  const row = useAsyncData<DetailPostDto | null>(
+    async (signal) => (mode === "edit" ? requireResult(await postsAsync.getOriginal(postId ?? 0, signal)) : null),
+    [mode, postId, postsAsync]
+  );
+  const options = useAsyncData((signal) => postsAsync.getSetup(signal), [postsAsync]);
+
+  const save = async (payload: DetailPostDto) => {
+    const status = payload.postId > 0 ? await postsAsync.update(payload) : await postsAsync.create(payload);
+    if (status.isValid) onSaved(status.successMessage);
+    return status;
+  };
+
+  // The form shows the 404 for a missing post, as Details and Delete do.
+  if (row.state.status === "error" && row.state.notFound) {
+    return <PostsForm variant="async" mode={mode} currentRow={null} options={options.state} onSave={save} />;
+  }
+
+  return (
+    <AsyncContent state={row.state} loadingText="Loading post..." onRetry={row.reload}>
+      {(currentRow) => (
+        <PostsForm
+          variant="async"
+          mode={mode}
+          currentRow={currentRow}
+          options={options.state}
+          onRetryOptions={options.reload}
+          onSave={save}
+          onValidationFailed={options.refresh}
+        />
+      )}
+    </AsyncContent>
+  );
+}
+
+function PostsAsyncDetails({ postId }: { postId: number | null }) {
+  const { postsAsync } = useServices();
+  const { state, reload, refresh } = useAsyncData(
+    async (signal) => requireResult(await postsAsync.getDetail(postId ?? 0, signal)),
+    [postId, postsAsync]
+  );
+  useDataChanges(refresh);
+
+  if (state.status === "error" && state.notFound) {
+    return <PostsDetails variant="async" row={null} />;
+  }
+
+  return (
+    <AsyncContent state={state} loadingText="Loading post..." onRetry={reload}>
+      {(row) => <PostsDetails variant="async" row={row} />}
+    </AsyncContent>
+  );
+}
+
+function PostsAsyncDelete({ postId }: { postId: number | null }) {
+  const { postsAsync } = useServices();
+  const { state, reload } = useAsyncData(
+    async (signal) => requireResult(await postsAsync.getDetail(postId ?? 0, signal)),
+    [postId, postsAsync]
+  );
+
+  if (state.status === "error" && state.notFound) {
+    return <PostsDelete variant="async" row={null} onDelete={(id) => postsAsync.delete(id)} />;
+  }
+
+  return (
+    <AsyncContent state={state} loadingText="Loading post..." onRetry={reload}>
+      {(row) => <PostsDelete variant="async" row={row} onDelete={(id) => postsAsync.delete(id)} />}
+    </AsyncContent>
+  );
+}
+
+function PostsAsyncNumPosts() {
+  const { postsAsync } = useServices();
+  const { state, reload, refresh } = useAsyncData((signal) => postsAsync.count(signal), [postsAsync]);
+  useDataChanges(refresh);
+
+  return (
+    <AsyncContent state={state} loadingText="Counting posts..." onRetry={reload}>
+      {(count) => <PostsNumPosts variant="async" count={count} />}
+    </AsyncContent>
+  );
+}
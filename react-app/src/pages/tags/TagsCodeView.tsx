@@ -0,0 +1,61 @@
+import { Link } from "react-router-dom";
+import { CodePanel, CodeView, SourceLink } from "../../components/shared/CodeView";
+import { actionUrl } from "../../lib/mvcRoutes";
+import tagListDto from "legacy-source:ServiceLayer/TagServices/TagListDto.cs?member=TagListDto";
+import tagsControllerCreate from "legacy-source:SampleWebApp/Controllers/TagsController.cs?member=Create";
+import tagsControllerEdit from "legacy-source:SampleWebApp/Controllers/TagsController.cs?member=Edit";
+import tagsControllerIndex from "legacy-source:SampleWebApp/Controllers/TagsController.cs?member=Index";
+
+/** Views/Tags/CodeView.cshtml. */
+export function TagsCodeView() {
+  return (
+    <CodeView
+      title="Tags: A explanation of Tags code"
+      summary={
+        <>
+          This is a summary of the main parts used to list, detail, create, edit and delete Tags entries directly.
+          This type of services are useful for simple data classes that do not have dependent foreign keys that need to be
+          manipulated before the data class can be written to the database.
+        </>
+      }
+    >
+      <h3>The Tag Controller</h3>
+      <p>
+        The <code>TagsController</code> (see here for <SourceLink path="SampleWebApp/Controllers/TagsController.cs">code on GitHub</SourceLink>)
+        uses the GenericService&apos;s database commands that work directly on the <abbr title="Entity Framework">EF</abbr> data class.
+        The services are injected into each <code>TagsController</code> action as a parameter and consist of
+        <code> List</code>, <code>Detail</code>, <code>Create</code>, <code>Update</code> and <code>Delete</code> actions that work directly with the <code>Tag</code> data class.
+      </p>
+      <CodePanel id="TagsController" title="TagsController Database Actions" excerpts={[tagsControllerIndex, tagsControllerEdit, tagsControllerCreate]}>
+        <p>
+          The Tag list differs from the Post list in that it shapes the tags into a simple <code>TagListDto</code>
+          {" "}(<SourceLink path="ServiceLayer/TagServices/TagListDto.cs" />) which holds the number of posts that each tag is used on.
+          List, Detail and Delete have only one stage as there is no setup needed.
+          The Edit command reads the original <code>Tag</code> to show in the form, and the Create command simply starts from a <code>new Tag()</code>.
+        </p>
+        <p>
+          Error handling is the same as described in the PostsController section of the <Link to={actionUrl("Posts", "CodeView")}>Posts Explanation</Link> page.
+          The one extra rule is the slug uniqueness check, which is done inside EF&apos;s SaveChanges and copied back to the form as a Slug error.
+        </p>
+      </CodePanel>
+
+      <h3>The GenericService methods</h3>
+      <p>
+        In the Controller the direct versions of the ListService, DetailService, UpdateService, CreateService and DeleteService are called.
+      </p>
+      <CodePanel id="GenericService" title="GenericService methods" excerpts={[tagListDto]}>
+        <p>
+          ListService and DetailService only have one stage, i.e. the production of data.
+          CreateService and UpdateService need two stages: one to provide the initial class for the input form and one to save the result.
+          The ListService is the one service that still needs a DTO, so that the count of posts is worked out by the database.
+        </p>
+      </CodePanel>
+
+      <h3>How DI is used in SampleMvcWebApp</h3>
+      <p>
+        Services are injected into each Controller action as a parameter, using generic DI binding to register all the possible service options.
+        See the <Link to={`${actionUrl("Posts", "CodeView")}#DIused`}>DI section</Link> in the Posts Explanation page as the rules are the same for both normal and async services.
+      </p>
+    </CodeView>
+  );
+}
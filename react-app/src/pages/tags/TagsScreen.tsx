@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { MvcLayout } from "../../components/shared/MvcLayout";
+import { RouteNotFound } from "../../components/shared/NotFound";
+import { useMvcRoute } from "../../hooks/useMvcRoute";
+import { useReturnUrl } from "../../hooks/useReturnUrl";
+import { actionUrl, type ActionOf } from "../../lib/mvcRoutes";
+import { tempData } from "../../lib/tempData";
+import { useDataVersion, useServices } from "../../services/ServicesContext";
+import { TagsCodeView } from "./TagsCodeView";
+import { TagsDelete, TagsDetails, TagsForm, TagsIndex } from "./TagsViews";
+
+function resolveFormMode(action: ActionOf<"Tags"> | null): "create" | "edit" | null {
+  if (action === "Create") return "create";
+  if (action === "Edit") return "edit";
+  return null;
+}
+
+export function TagsScreen() {
+  const route = useMvcRoute("Tags");
+  const action = route.kind === "action" ? route.action : null;
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl("Tags", "Index"));
+
+  const { tags: tagService } = useServices();
+  const dataVersion = useDataVersion();
+
+  const routeId = route.kind === "action" ? route.id : null;
+
+  const currentRow = useMemo(() => {
+    if (!routeId) return null;
+    return tagService.getOriginal(routeId).result;
+  }, [tagService, dataVersion, routeId]);
+
+  const tagList = useMemo(() => tagService.getAll(), [tagService, dataVersion]);
+
+  return (
+    <MvcLayout>
+      {route.kind !== "action" ? <RouteNotFound route={route} /> : null}
+      {action === "Index" ? (
+        <TagsIndex variant="sync" tags={tagList} undoDelete={{ controller: "Tags", run: (id) => tagService.undoDelete(id) }} />
+      ) : null}
+
+      {resolveFormMode(action) ? (
+        <TagsForm
+          variant="sync"
+          mode={resolveFormMode(action)!}
+          currentRow={currentRow}
+          onSave={async (payload) => {
+            const status = await (payload.tagId > 0 ? tagService.update(payload) : tagService.create(payload));
+            if (status.isValid) {
+              tempData.setFromStatus(status);
+              navigate(listUrl);
+            }
+            return status;
+          }}
+        />
+      ) : null}
+
+      {action === "Details" ? <TagsDetails variant="sync" row={currentRow} /> : null}
+      {action === "Delete" ? <TagsDelete variant="sync" row={currentRow} onDelete={(id) => tagService.delete(id)} /> : null}
+      {action === "CodeView" ? <TagsCodeView /> : null}
+    </MvcLayout>
+  );
+}
@@ -0,0 +1,394 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ConcurrencyConflict, type ConflictField } from "../../components/shared/ConcurrencyConflict";
+import { DeleteConfirmForm } from "../../components/shared/DeleteConfirmForm";
+import { GridPager, GridTextFilter, SortHeader } from "../../components/shared/GridControls";
+import { NotFound } from "../../components/shared/NotFound";
+import { TempDataMessages, type UndoDeleteHandler } from "../../components/shared/TempDataMessages";
+import { UpdatedElsewhereNotice } from "../../components/shared/UpdatedElsewhereNotice";
+import { ValidationRulesTable, WhereCheckedNotes } from "../../components/shared/ValidationRulesTable";
+import type { TagListDto, TagRow } from "../../data/tags";
+import { useEditConflict } from "../../hooks/useEditConflict";
+import { useGridQuery } from "../../hooks/useGridQuery";
+import { useRowHead } from "../../hooks/usePageHead";
+import { useReturnUrl } from "../../hooks/useReturnUrl";
+import { applyGridQuery, containsText, defaultPageSizes, type GridSpec } from "../../lib/gridQuery";
+import { actionUrl } from "../../lib/mvcRoutes";
+import { tempData } from "../../lib/tempData";
+import type { FieldErrorMap, ISuccessOrConflict, ISuccessOrErrors } from "../../services/successOrErrors";
+import { tagValidationRules, validateTagInBrowser } from "../../validation/tagValidation";
+import { hasErrors, modelLevelErrors } from "../../validation/validationErrors";
+
+/** Tags and TagsAsync render the same views; only wording, links and the data path differ. */
+export type TagsVariant = "sync" | "async";
+
+type TagFormModel = TagRow;
+
+export function tagsController(variant: TagsVariant) {
+  return variant === "async" ? "TagsAsync" : "Tags";
+}
+
+function headingSuffix(variant: TagsVariant) {
+  return variant === "async" ? " (Async)" : "";
+}
+
+function createInitialForm(tag?: TagRow): TagFormModel {
+  if (!tag) {
+    return { tagId: 0, name: "", slug: "", lastUpdatedUtc: "" };
+  }
+
+  return { tagId: tag.tagId, name: tag.name, slug: tag.slug, lastUpdatedUtc: tag.lastUpdatedUtc };
+}
+
+export const tagsGridSpec: GridSpec<TagListDto, "name" | "slug" | "postsCount", "search"> = {
+  sortKeys: {
+    name: (row) => row.name,
+    slug: (row) => row.slug,
+    postsCount: (row) => row.postsCount
+  },
+  filters: {
+    search: (row, value) => containsText(row.name, value) || containsText(row.slug, value)
+  },
+  pageSizes: defaultPageSizes,
+  defaultPageSize: 25
+};
+
+interface TagsIndexProps {
+  variant: TagsVariant;
+  tags: TagListDto[];
+  undoDelete?: UndoDeleteHandler;
+}
+
+export function TagsIndex({ variant, tags, undoDelete }: TagsIndexProps) {
+  const controller = tagsController(variant);
+  const grid = useGridQuery(tagsGridSpec);
+  const page = useMemo(() => applyGridQuery(tagsGridSpec, tags, grid.query), [tags, grid.query]);
+  const returnQuery = grid.listUrl === actionUrl(controller, "Index") ? {} : { returnUrl: grid.listUrl };
+
+  return (
+    <>
+      <h2>{`Tags${headingSuffix(variant)}`}</h2>
+
+      <TempDataMessages undoDelete={undoDelete} />
+
+      {variant === "async" ? (
+        <p>
+          This is a demonstration of <a href="https://github.com/JonPSmith/GenericServices" target="_blank" rel="noreferrer">GenericServices&apos;</a>
+          database CRUD (Create, Read, Update/Edit and Delete) services done asynchronously, i.e. using
+          <a href="http://www.asp.net/mvc/tutorials/getting-started-with-ef-using-mvc" target="_blank" rel="noreferrer"> Entity Framework 6&apos;s</a> Async commands.
+          Async commands are designed to free up the current thread while something outside the web server is running, in this case a database access.
+          This should make the site able to handle more users, but the individual action takes a little bit longer.
+          (See <Link to={actionUrl("Tags", "Index")}>Tags</Link> for normal versions of the same commands).
+        </p>
+      ) : (
+        <p>
+          This is a demonstration of <a href="https://github.com/JonPSmith/GenericServices" target="_blank" rel="noreferrer">GenericServices&apos;</a>
+          database CRUD (Create, Read, Update/Edit and Delete) services done synchronously, i.e no wait states to improve web site capacity.
+          (See <Link to={actionUrl("TagsAsync", "Index")}>Tags Async</Link> for async versions of the same commands).
+        </p>
+      )}
+      <p>
+        Below you will see a table of Tags which can be manipulated. Tags are really simple so we use the direct GenericServices rather than
+        the DTO GenericServices used for Posts.
+      </p>
+      <p>
+        However we do use a simple dto in the list to show how many posts use the tag. Also note that a validation check is done
+        inside the EF SaveChanges methed to ensure that the slug is unique.
+      </p>
+      <hr />
+
+      <div data-testid="tags-top-links">
+        {variant === "async" ? (
+          <span>
+            <Link to={actionUrl("TagsAsync", "Create")}>Create New Tag</Link> | <Link to={actionUrl("PostsAsync", "Index")}>Return To PostsAsync</Link>
+          </span>
+        ) : (
+          <span>
+            <Link to={actionUrl("Tags", "Create")}>Create New Tag</Link> | <Link to={actionUrl("Posts", "Index")}>Posts Page</Link> | <Link to={actionUrl("Blogs", "Index")}>Blogs Page</Link>
+          </span>
+        )}
+        <span className="pull-right"><strong><Link to={actionUrl(controller, "CodeView")}>Explanation of the code</Link></strong></span>
+      </div>
+
+      <GridTextFilter
+        id="tags-filter"
+        label="Name or slug contains"
+        value={grid.query.filters.search ?? ""}
+        onApply={(search) => grid.update({ filters: { search: search || undefined } })}
+        clearUrl={grid.hrefFor({ filters: {} })}
+      />
+
+      <table className="table" data-testid="tags-grid">
+        <thead>
+          <tr>
+            <SortHeader label="Name" sortKey="name" query={grid.query} hrefFor={grid.hrefFor} />
+            <SortHeader label="Slug" sortKey="slug" query={grid.query} hrefFor={grid.hrefFor} />
+            <SortHeader label="Num Posts Used In" sortKey="postsCount" query={grid.query} hrefFor={grid.hrefFor} />
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {page.rows.map((item) => (
+            <tr key={item.tagId}>
+              <td>{item.name}</td>
+              <td>{item.slug}</td>
+              <td>{item.postsCount}</td>
+              <td>
+                <Link to={actionUrl(controller, "Edit", item.tagId, returnQuery)}>Edit</Link> | <Link to={actionUrl(controller, "Details", item.tagId, returnQuery)}>Details</Link> | <Link to={actionUrl(controller, "Delete", item.tagId, returnQuery)}>Delete</Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <GridPager page={page} query={grid.query} pageSizes={tagsGridSpec.pageSizes} hrefFor={grid.hrefFor} onPageSizeChange={(pageSize) => grid.update({ pageSize })} />
+    </>
+  );
+}
+
+interface TagsFormProps {
+  variant: TagsVariant;
+  mode: "create" | "edit";
+  currentRow: TagRow | null;
+  /** Returns the save status; a conflict carries the tag as the other user saved it. */
+  onSave: (payload: TagFormModel) => ISuccessOrConflict<TagFormModel> | Promise<ISuccessOrConflict<TagFormModel>>;
+}
+
+const tagConflictFields: ConflictField<TagFormModel>[] = [
+  { key: "name", label: "Name" },
+  { key: "slug", label: "Slug" }
+];
+
+export function TagsForm({ variant, mode, currentRow, onSave }: TagsFormProps) {
+  const loadedRow = mode === "edit" ? currentRow : null;
+  const [model, setModel] = useState<TagFormModel>(() => createInitialForm(loadedRow ?? undefined));
+  const [errors, setErrors] = useState<FieldErrorMap>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const conflict = useEditConflict(loadedRow);
+
+  // Only a different tag restarts the form; a newer copy of the same one is left to the conflict check.
+  useEffect(() => {
+    setModel(createInitialForm(loadedRow ?? undefined));
+    setErrors({});
+    conflict.reset(loadedRow);
+  }, [mode, loadedRow?.tagId]);
+
+  const { listUrl } = useReturnUrl(actionUrl(tagsController(variant), "Index"));
+  const title = `${mode === "create" ? "Create" : "Edit"}${headingSuffix(variant)}`;
+  const submitLabel = mode === "create" ? "Create" : "Save";
+
+  const summaryErrors = modelLevelErrors(errors);
+
+  const save = async (next: TagFormModel) => {
+    const browserErrors = validateTagInBrowser(next);
+    if (hasErrors(browserErrors)) {
+      setErrors(browserErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const status = await onSave(next);
+      if (status.conflict) conflict.report(status.conflict);
+      setErrors(status.conflict ? {} : status.errors);
+    } catch (error) {
+      setErrors({ "": [error instanceof Error ? error.message : "The tag could not be saved."] });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (mode === "edit" && !currentRow) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Tag not found.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>{title}</h2>
+
+      {loadedRow ? <UpdatedElsewhereNotice key={model.lastUpdatedUtc} entity="tag" id={loadedRow.tagId} /> : null}
+      {conflict.theirs && conflict.base ? (
+        <ConcurrencyConflict
+          key={conflict.theirs.lastUpdatedUtc}
+          entityName="tag"
+          fields={tagConflictFields}
+          base={conflict.base}
+          yours={model}
+          theirs={conflict.theirs}
+          disabled={isSaving}
+          onOverwrite={() => {
+            const next = conflict.resolve(model);
+            setModel(next);
+            void save(next);
+          }}
+          onMerge={(merged) => setModel(conflict.resolve(merged))}
+          onDiscard={() => setModel(createInitialForm(conflict.resolve(conflict.theirs!)))}
+        />
+      ) : null}
+
+      <form
+        data-testid="tags-form"
+        aria-busy={isSaving}
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (isSaving) return;
+          void save(model);
+        }}
+      >
+        <div className="form-horizontal">
+          <h4>Tag</h4>
+          <hr />
+
+          {summaryErrors.length > 0 ? (
+            <div className="text-danger validation-summary" data-testid="validation-summary">
+              <ul>
+                {summaryErrors.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          ) : null}
+
+          {mode === "edit" ? (
+            <>
+              <input type="hidden" value={model.tagId} name="TagId" />
+              <input type="hidden" value={model.lastUpdatedUtc} name="LastUpdatedUtc" />
+            </>
+          ) : null}
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="tag-name">Name</label>
+            <div className="col-md-10">
+              <input
+                id="tag-name"
+                className="form-control"
+                value={model.name}
+                onChange={(event) => setModel((prev) => ({ ...prev, name: event.target.value }))}
+              />
+              {(errors.Name || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="control-label col-md-2" htmlFor="tag-slug">Slug</label>
+            <div className="col-md-10">
+              <input
+                id="tag-slug"
+                className="form-control"
+                value={model.slug}
+                onChange={(event) => setModel((prev) => ({ ...prev, slug: event.target.value }))}
+              />
+              {(errors.Slug || []).map((item) => <div key={item} className="text-danger">{item}</div>)}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <div className="col-md-offset-2 col-md-10">
+              <input type="submit" value={isSaving ? "Saving..." : submitLabel} className="btn btn-default" disabled={isSaving} />
+            </div>
+          </div>
+        </div>
+      </form>
+
+      <div>
+        <Link to={listUrl}>Back to List</Link>
+      </div>
+      <hr />
+      <TagValidationReference />
+    </>
+  );
+}
+
+interface TagsDetailsProps {
+  variant: TagsVariant;
+  row: TagRow | null;
+}
+
+export function TagsDetails({ variant, row }: TagsDetailsProps) {
+  const controller = tagsController(variant);
+  const { listUrl, returnQuery } = useReturnUrl(actionUrl(controller, "Index"));
+  const title = `Details${headingSuffix(variant)}`;
+  useRowHead(controller, row?.name);
+
+  if (!row) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Tag not found.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>{title}</h2>
+      <TagDetailFields row={row} />
+      <p>
+        <Link to={actionUrl(controller, "Edit", row.tagId, returnQuery)}>Edit</Link> | <Link to={listUrl}>Back to List</Link>
+      </p>
+    </>
+  );
+}
+
+function TagDetailFields({ row }: { row: TagRow }) {
+  return (
+    <div>
+      <h4>Tag</h4>
+      <hr />
+      <dl className="dl-horizontal">
+        <dt>Name</dt>
+        <dd>{row.name}</dd>
+
+        <dt>Slug</dt>
+        <dd>{row.slug}</dd>
+      </dl>
+    </div>
+  );
+}
+
+interface TagsDeleteProps {
+  variant: TagsVariant;
+  row: TagRow | null;
+  onDelete: (tagId: number) => ISuccessOrErrors | Promise<ISuccessOrErrors>;
+}
+
+/** The GET half of Delete shows the tag; only submitting the form deletes it, and the service may still refuse. */
+export function TagsDelete({ variant, row, onDelete }: TagsDeleteProps) {
+  const controller = tagsController(variant);
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl(controller, "Index"));
+  const title = `Delete${headingSuffix(variant)}`;
+
+  if (!row) {
+    return <NotFound backUrl={listUrl} backText="Back to List">Tag not found. It may already have been deleted.</NotFound>;
+  }
+
+  return (
+    <>
+      <h2>{title}</h2>
+      <h3>Are you sure you want to delete this?</h3>
+      <TagDetailFields row={row} />
+      <p className="route-note">Deleting a tag removes it from the posts that use it; the posts themselves are kept.</p>
+      <DeleteConfirmForm
+        testId="tags-delete-form"
+        listUrl={listUrl}
+        onDelete={() => onDelete(row.tagId)}
+        onDeleted={(status) => {
+          tempData.setFromDelete(status, controller, row.tagId);
+          navigate(listUrl);
+        }}
+      />
+    </>
+  );
+}
+
+export function TagValidationReference() {
+  const rows = tagValidationRules();
+
+  return (
+    <div className="small">
+      <h4>Tag Validation rules</h4>
+      <p>
+        The Tag data class, i.e. the one that is linked to the database, a number of validation rules,
+        including one that is checked inside the EF SaveChanges.
+      </p>
+
+      <h5>Validation rules in Tag class, and inside EF SaveChanges</h5>
+      <ValidationRulesTable rows={rows} />
+
+      <WhereCheckedNotes rows={rows} />
+    </div>
+  );
+}
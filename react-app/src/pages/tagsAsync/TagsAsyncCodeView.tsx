@@ -0,0 +1,54 @@
+import { Link } from "react-router-dom";
+import { CodePanel, CodeView, SourceLink } from "../../components/shared/CodeView";
+import { actionUrl } from "../../lib/mvcRoutes";
+import tagsAsyncControllerDetails from "legacy-source:SampleWebApp/Controllers/TagsAsyncController.cs?member=Details";
+import tagsAsyncControllerEdit from "legacy-source:SampleWebApp/Controllers/TagsAsyncController.cs?member=Edit";
+import tagsAsyncControllerIndex from "legacy-source:SampleWebApp/Controllers/TagsAsyncController.cs?member=Index";
+
+/** Views/TagsAsync/CodeView.cshtml. */
+export function TagsAsyncCodeView() {
+  return (
+    <CodeView
+      title="Tags: A explanation of Tags code"
+      summary={
+        <>
+          This is a summary of the main parts used to list, detail, create, edit and delete Tags entries directly.
+          This type of services are useful for simple data classes that do not have dependent foreign keys that need to be
+          manipulated before the data class can be written to the database.
+        </>
+      }
+    >
+      <p>
+        In most cases we detail how TagsAsync commands are different to the normal Tag access. You should therefore read the
+        {" "}<Link to={actionUrl("Tags", "CodeView")}>Tags Explanation</Link> to give you that background first.
+      </p>
+      <h3>The TagAsync Controller</h3>
+      <p>
+        The <code>TagsAsyncController</code> (see here for <SourceLink path="SampleWebApp/Controllers/TagsAsyncController.cs">code on GitHub</SourceLink>)
+        uses the GenericService&apos;s database commands that work directly on the <abbr title="Entity Framework">EF</abbr> data class.
+        It differs from the TagsController in that it uses async commands which release the web thread while database actions are running.
+      </p>
+      <CodePanel id="TagsController" title="TagsAsyncController Database Actions" excerpts={[tagsAsyncControllerIndex, tagsAsyncControllerDetails, tagsAsyncControllerEdit]}>
+        <p>
+          Async methods are designed to make the web site more scaleable, but they are slightly slower because they create and use multitasking internally.
+        </p>
+        <ul>
+          <li>All the database access actions are marked as async and return <code>Task&lt;ActionResult&gt;</code>.</li>
+          <li>All the GenericServices commands are called xxxAsync, apart from <code>IListService</code>, whose LINQ <code>.ToListAsync()</code> makes it async.</li>
+          <li>The service method calls have an await in front of them to release control while waiting.</li>
+        </ul>
+      </CodePanel>
+
+      <h3>The GenericService methods</h3>
+      <p>
+        In the Controller the direct versions of DetailServiceAsync, UpdateServiceAsync, CreateServiceAsync and DeleteServiceAsync are called.
+      </p>
+      <CodePanel id="GenericService" title="GenericService async methods">
+        <p>
+          The async services have the same stages as the normal services, and their results are the same.
+          Error handling is the same as described on the <Link to={`${actionUrl("Posts", "CodeView")}#PostsController`}>Posts Explanation</Link> page.
+        </p>
+      </CodePanel>
+    </CodeView>
+  );
+}
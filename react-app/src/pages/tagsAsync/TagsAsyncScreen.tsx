@@ -0,0 +1,146 @@
+import { useNavigate } from "react-router-dom";
+import { AsyncContent } from "../../components/shared/AsyncContent";
+import { MvcLayout } from "../../components/shared/MvcLayout";
+import { RouteNotFound } from "../../components/shared/NotFound";
+import { requireResult } from "../../data/asyncData";
+import type { TagRow } from "../../data/tags";
+import { useAsyncData } from "../../hooks/useAsyncData";
+import { useDataChanges } from "../../hooks/useDataChanges";
+import { useMvcRoute } from "../../hooks/useMvcRoute";
+import { useReturnUrl } from "../../hooks/useReturnUrl";
+import { actionUrl, type ActionOf } from "../../lib/mvcRoutes";
+import { tempData } from "../../lib/tempData";
+import { useServices } from "../../services/ServicesContext";
+import { TagsDelete, TagsDetails, TagsForm, TagsIndex } from "../tags/TagsViews";
+import { TagsAsyncCodeView } from "./TagsAsyncCodeView";
+
+function resolveFormMode(action: ActionOf<"TagsAsync"> | null): "create" | "edit" | null {
+  if (action === "Create") return "create";
+  if (action === "Edit") return "edit";
+  return null;
+}
+
+export function TagsAsyncScreen() {
+  const route = useMvcRoute("TagsAsync");
+  const action = route.kind === "action" ? route.action : null;
+  const navigate = useNavigate();
+  const { listUrl } = useReturnUrl(actionUrl("TagsAsync", "Index"));
+
+  const routeId = route.kind === "action" ? route.id : null;
+
+  return (
+    <MvcLayout>
+      {route.kind !== "action" ? <RouteNotFound route={route} /> : null}
+      {action === "Index" ? <TagsAsyncIndex /> : null}
+
+      {resolveFormMode(action) ? (
+        <TagsAsyncForm
+          key={`${action}-${routeId ?? "new"}`}
+          mode={resolveFormMode(action)!}
+          tagId={routeId}
+          onSaved={(successMessage) => {
+            tempData.setMessage(successMessage);
+            navigate(listUrl);
+          }}
+        />
+      ) : null}
+
+      {action === "Details" ? <TagsAsyncDetails tagId={routeId} /> : null}
+      {action === "Delete" ? <TagsAsyncDelete tagId={routeId} /> : null}
+      {action === "CodeView" ? <TagsAsyncCodeView /> : null}
+    </MvcLayout>
+  );
+}
+
+function TagsAsyncIndex() {
+  const { tagsAsync } = useServices();
+  const { state, reload, refresh } = useAsyncData((signal) => tagsAsync.getAll(signal), [tagsAsync]);
+  useDataChanges(refresh);
+
+  return (
+    <AsyncContent state={state} loadingText="Loading tags..." onRetry={reload}>
+      {(tags) => (
+        <TagsIndex
+          variant="async"
+          tags={tags}
+          undoDelete={{
+            controller: "TagsAsync",
+            run: async (id) => {
+              const status = await tagsAsync.undoDelete(id);
+              if (status.isValid) reload();
+              return status;
+            }
+          }}
+        />
+      )}
+    </AsyncContent>
+  );
+}
+
+interface TagsAsyncFormProps {
+  mode: "create" | "edit";
+  tagId: number | null;
+  onSaved: (successMessage: string | null) => void;
+}
+
+function TagsAsyncForm({ mode, tagId, onSaved }: TagsAsyncFormProps) {
+  const { tagsAsync } = useServices();
+  const { state, reload } = useAsyncData<TagRow | null>(
+    async (signal) => (mode === "edit" ? requireResult(await tagsAsync.getOriginal(tagId ?? 0, signal)) : null),
+    [mode, tagId, tagsAsync]
+  );
+
+  const save = async (payload: TagRow) => {
+    const status = payload.tagId > 0 ? await tagsAsync.update(payload) : await tagsAsync.create(payload);
+    if (status.isValid) onSaved(status.successMessage);
+    return status;
+  };
+
+  // The form shows the 404 for a missing tag, as Details and Delete do.
+  if (state.status === "error" && state.notFound) {
+    return <TagsForm variant="async" mode={mode} currentRow={null} onSave={save} />;
+  }
+
+  return (
+    <AsyncContent state={state} loadingText="Loading tag..." onRetry={reload}>
+      {(currentRow) => <TagsForm variant="async" mode={mode} currentRow={currentRow} onSave={save} />}
+    </AsyncContent>
+  );
+}
+
+function TagsAsyncDetails({ tagId }: { tagId: number | null }) {
+  const { tagsAsync } = useServices();
+  const { state, reload, refresh } = useAsyncData(
+    async (signal) => requireResult(await tagsAsync.getDetail(tagId ?? 0, signal)),
+    [tagId, tagsAsync]
+  );
+  useDataChanges(refresh);
+
+  if (state.status === "error" && state.notFound) {
+    return <TagsDetails variant="async" row={null} />;
+  }
+
+  return (
+    <AsyncContent state={state} loadingText="Loading tag..." onRetry={reload}>
+      {(row) => <TagsDetails variant="async" row={row} />}
+    </AsyncContent>
+  );
+}
+
+function TagsAsyncDelete({ tagId }: { tagId: number | null }) {
+  const { tagsAsync } = useServices();
+  const { state, reload } = useAsyncData(
+    async (signal) => requireResult(await tagsAsync.getDetail(tagId ?? 0, signal)),
+    [tagId, tagsAsync]
+  );
+
+  if (state.status === "error" && state.notFound) {
+    return <TagsDelete variant="async" row={null} onDelete={(id) => tagsAsync.delete(id)} />;
+  }
+
+  return (
+    <AsyncContent state={state} loadingText="Loading tag..." onRetry={reload}>
+      {(row) => <TagsDelete variant="async" row={row} onDelete={(id) => tagsAsync.delete(id)} />}
+    </AsyncContent>
+  );
+}
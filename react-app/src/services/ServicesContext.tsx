@@ -0,0 +1,112 @@
+import { createContext, type ReactNode, useContext, useSyncExternalStore } from "react";
+import type { Store } from "../data/createStore";
+import { databaseStore, persistToLocalStorage } from "../data/database";
+import { createActionRunnerClient, createHttpActionRunnerClient, type ActionRunnerClient } from "../lib/actionRunner";
+import { createApiClient } from "../lib/api-client";
+import { logError } from "../lib/errorLogger";
+import { createBroadcastChangeFeed, createServerChangeFeed, type DataChangeFeed } from "../lib/dataChangeFeed";
+import { type DataSource, getRuntimeConfig } from "../lib/runtimeConfig";
+import { type BlogServices, createBlogServices } from "./blogServices";
+import type { GenericWrite, WithServerWrites } from "./genericServices";
+import {
+  createHttpBlogServices,
+  createHttpPostServices,
+  createHttpPostServicesAsync,
+  createHttpTagServices,
+  createHttpTagServicesAsync,
+  createReplica
+} from "./httpServices";
+import { createDelayServices, type DelayServices } from "./delayServices";
+import { createInternalsServices, type InternalsServices } from "./internalsServices";
+import { createPostServices, createPostServicesAsync, type PostServices, type PostServicesAsync } from "./postServices";
+import { createTagServices, createTagServicesAsync, type TagServices, type TagServicesAsync } from "./tagServices";
+
+/**
+ * Everything a screen may call. Screens take their services from context, the way the
+ * legacy controller actions had them injected, so tests can supply fakes.
+ */
+export interface AppServices {
+  /** Over HTTP the sync services' writes wait for the server, so screens await their status. */
+  posts: WithServerWrites<PostServices, GenericWrite | "resetBlogs">;
+  postsAsync: PostServicesAsync;
+  tags: WithServerWrites<TagServices>;
+  tagsAsync: TagServicesAsync;
+  blogs: WithServerWrites<BlogServices>;
+  /** Long-running actions run wherever the data is served from. */
+  actions: ActionRunnerClient;
+  /** The Internals metrics and Delay always use the server, whichever data source is in use. */
+  internals: InternalsServices;
+  delay: DelayServices;
+  /** Fires after every write; the snapshot changes identity whenever the data does. */
+  changes: Pick<Store<unknown>, "subscribe" | "getState">;
+  /** Writes made in other tabs or on the server, for screens that must reload or warn about them. */
+  dataChanges: DataChangeFeed;
+}
+
+// Services can be created more than once; the saved data must only be loaded and written once.
+let stopPersisting: (() => void) | undefined;
+
+export function createAppServices(dataSource: DataSource = getRuntimeConfig().dataSource): AppServices {
+  if (dataSource === "http") {
+    const client = createApiClient();
+    const replica = createReplica(client, databaseStore);
+    replica.refresh().catch((error: unknown) => logError("Replica", "Could not load the data from the API.", error));
+
+    return {
+      posts: createHttpPostServices(client, replica),
+      postsAsync: createHttpPostServicesAsync(client, replica),
+      tags: createHttpTagServices(client, replica),
+      tagsAsync: createHttpTagServicesAsync(client, replica),
+      blogs: createHttpBlogServices(client, replica),
+      actions: createHttpActionRunnerClient(client),
+      internals: createInternalsServices(client),
+      delay: createDelayServices(client),
+      changes: databaseStore,
+      dataChanges: createServerChangeFeed(replica)
+    };
+  }
+
+  if (getRuntimeConfig().dataPersistence === "localStorage") stopPersisting ??= persistToLocalStorage(databaseStore);
+  const posts = createPostServices();
+  const tags = createTagServices();
+
+  return {
+    posts,
+    postsAsync: createPostServicesAsync(posts),
+    tags,
+    tagsAsync: createTagServicesAsync(tags),
+    blogs: createBlogServices(),
+    actions: createActionRunnerClient(),
+    internals: createInternalsServices(),
+    delay: createDelayServices(),
+    changes: databaseStore,
+    dataChanges: createBroadcastChangeFeed(databaseStore)
+  };
+}
+
+// Created on first use rather than on import, so the runtime config has loaded by then.
+let defaultServices: AppServices | undefined;
+
+function getDefaultServices() {
+  defaultServices ??= createAppServices();
+  return defaultServices;
+}
+
+const ServicesContext = createContext<AppServices | null>(null);
+
+export function ServicesProvider({ services = getDefaultServices(), children }: { services?: AppServices; children: ReactNode }) {
+  return <ServicesContext.Provider value={services}>{children}</ServicesContext.Provider>;
+}
+
+export function useServices() {
+  return useContext(ServicesContext) ?? getDefaultServices();
+}
+
+/**
+ * Returns a value that changes whenever the services' data does. Sync screens use it as a
+ * memo dependency so lists re-read after a write made on any screen.
+ */
+export function useDataVersion() {
+  const { changes } = useServices();
+  return useSyncExternalStore(changes.subscribe, changes.getState);
+}
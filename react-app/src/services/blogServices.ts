@@ -0,0 +1,109 @@
+import { analyseBlog, type BlogAnalysis } from "../data/blogAnalysis";
+import { type BlogListDto, type BlogRow, toBlogListDtos } from "../data/blogs";
+import type { Store } from "../data/createStore";
+import { databaseStore, type DatabaseState, nextId } from "../data/database";
+import { createRecycleBin } from "../data/recycleBin";
+import { nextLastUpdatedUtc } from "../data/trackUpdate";
+import { validateBlogEntity, validateBlogRequest } from "../validation/blogValidation";
+import { hasErrors } from "../validation/validationErrors";
+import type { IGenericServices } from "./genericServices";
+import {
+  conflictFailure,
+  failure,
+  failureWithMessage,
+  type ISuccessOrConflict,
+  type ISuccessOrErrorsWithResult,
+  success,
+  successWithResult
+} from "./successOrErrors";
+
+export interface BlogServices extends IGenericServices<BlogListDto, BlogRow, BlogRow> {
+  /** The BizLayer action behind the Blogs "Analyse" link. */
+  analyse(blogId: number): ISuccessOrErrorsWithResult<BlogAnalysis>;
+}
+
+function findBlog(store: Store<DatabaseState>, blogId: number): ISuccessOrErrorsWithResult<BlogRow> {
+  const blog = store.getState().blogs.find((item) => item.blogId === blogId);
+  return blog ? successWithResult(blog) : failureWithMessage("Blog not found.");
+}
+
+function saveBlog(store: Store<DatabaseState>, blog: BlogRow, isUpdate: boolean): ISuccessOrConflict<BlogRow> {
+  const requestErrors = validateBlogRequest(blog);
+  if (hasErrors(requestErrors)) return failure(requestErrors);
+  const entityErrors = validateBlogEntity(blog);
+  if (hasErrors(entityErrors)) return failure(entityErrors);
+
+  const { blogs } = store.getState();
+  const values = { name: blog.name, emailAddress: blog.emailAddress };
+
+  if (isUpdate) {
+    const current = blogs.find((item) => item.blogId === blog.blogId);
+    if (!current) return failureWithMessage("Could not find the blog. Did another user delete it?");
+    if (current.lastUpdatedUtc !== blog.lastUpdatedUtc) return conflictFailure(current, "blog");
+
+    const lastUpdatedUtc = nextLastUpdatedUtc(current.lastUpdatedUtc);
+    store.setState((prev) => ({
+      ...prev,
+      blogs: prev.blogs.map((item) => (item.blogId === blog.blogId ? { ...item, ...values, lastUpdatedUtc } : item))
+    }));
+    return success("Successfully updated blog");
+  }
+
+  const blogId = nextId(store.getState(), "blogs");
+  store.setState((prev) => ({
+    ...prev,
+    blogs: [...prev.blogs, { blogId, ...values, lastUpdatedUtc: nextLastUpdatedUtc() }],
+    lastIds: { ...prev.lastIds, blogs: blogId }
+  }));
+  return success("Successfully created blog");
+}
+
+export function createBlogServices(store: Store<DatabaseState> = databaseStore): BlogServices {
+  const deleted = createRecycleBin<BlogRow>();
+
+  return {
+    getAll: () => toBlogListDtos(store.getState()),
+    getDetail: (blogId) => findBlog(store, blogId),
+    getDto: () => ({ blogId: 0, name: "", emailAddress: "", lastUpdatedUtc: "" }),
+    getOriginal: (blogId) => findBlog(store, blogId),
+    create: (blog) => saveBlog(store, blog, false),
+    update: (blog) => saveBlog(store, blog, true),
+    // Post.BlogId is a required foreign key, so a blog that still has posts cannot be deleted.
+    delete: (blogId) => {
+      if (!blogId) return failureWithMessage("Delete failed: no blog id provided.");
+      const db = store.getState();
+      const blog = db.blogs.find((item) => item.blogId === blogId);
+      if (!blog) return failureWithMessage("Delete failed: blog not found.");
+
+      const postsCount = db.posts.filter((item) => item.blogId === blogId).length;
+      if (postsCount > 0) {
+        return failureWithMessage(
+          `Delete failed: the blogger '${blog.name}' still has ${postsCount} post(s). Delete those posts first.`
+        );
+      }
+
+      deleted.put(blogId, blog);
+      store.setState((prev) => ({ ...prev, blogs: prev.blogs.filter((item) => item.blogId !== blogId) }));
+      return success("Successfully deleted blog");
+    },
+    undoDelete: (blogId) => {
+      if (store.getState().blogs.some((item) => item.blogId === blogId)) {
+        return failureWithMessage("Undo failed: another blog now has the same id.");
+      }
+      const blog = deleted.take(blogId);
+      if (!blog) return failureWithMessage("Undo failed: the blog was deleted too long ago to restore.");
+
+      store.setState((prev) => ({
+        ...prev,
+        blogs: [...prev.blogs, blog].sort((a, b) => a.blogId - b.blogId),
+        lastIds: { ...prev.lastIds, blogs: Math.max(prev.lastIds.blogs, blog.blogId) }
+      }));
+      return success("Successfully restored blog");
+    },
+    analyse: (blogId) => {
+      const db = store.getState();
+      const blog = db.blogs.find((item) => item.blogId === blogId);
+      return blog ? successWithResult(analyseBlog(blog, db)) : failureWithMessage("Blog not found.");
+    }
+  };
+}
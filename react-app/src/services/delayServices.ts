@@ -0,0 +1,44 @@
+import { wait } from "../data/asyncData";
+import { createApiClient, type ApiClient } from "../lib/api-client";
+
+export type DelayVariant = "sync" | "async";
+
+export interface DelayResult {
+  delayMs: number;
+}
+
+/** How long both Delay actions take. */
+export const delayActionMs = 500;
+
+/**
+ * The Delay actions. Posts/Delay holds the server's one request thread for the whole delay,
+ * like Thread.Sleep, so concurrent calls queue; PostsAsync/Delay releases it, like `await Task.Delay`.
+ */
+export interface DelayServices {
+  delay(variant: DelayVariant, signal?: AbortSignal): Promise<DelayResult>;
+}
+
+/**
+ * Thread.Sleep's effect on a server with one thread, without blocking anything: each wait
+ * starts only once the one before it has ended, so concurrent calls queue behind each other.
+ */
+export function createSerialDelay() {
+  let previous: Promise<void> = Promise.resolve();
+  return (ms: number, signal?: AbortSignal) => {
+    const turn = previous.then(() => wait(ms, signal));
+    previous = turn.catch(() => undefined);
+    return turn;
+  };
+}
+
+/**
+ * Always served by the API, whichever data source the screens use: the point of the sync
+ * variant is the load it puts on the server, which a tab timing its own timers cannot show.
+ */
+export function createDelayServices(client: ApiClient = createApiClient()): DelayServices {
+  return {
+    delay(variant, signal) {
+      return client.get<DelayResult>(variant === "async" ? "/PostsAsync/Delay" : "/Posts/Delay", signal);
+    }
+  };
+}
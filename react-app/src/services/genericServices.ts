@@ -0,0 +1,109 @@
+import type { ISuccessOrConflict, ISuccessOrErrors, ISuccessOrErrorsWithResult } from "./successOrErrors";
+
+/*
+ * TypeScript ports of the GenericServices interfaces the legacy controllers have injected.
+ * Each entity supplies one object implementing all of them, so a screen only needs the
+ * entity's service, the same way a controller action only needs its injected service.
+ */
+
+export interface IListService<TList> {
+  getAll(): TList[];
+}
+
+export interface IDetailService<TDetail> {
+  getDetail(id: number): ISuccessOrErrorsWithResult<TDetail>;
+}
+
+export interface ICreateSetupService<TDto> {
+  getDto(): TDto;
+}
+
+export interface ICreateService<TDto> {
+  create(dto: TDto): ISuccessOrErrors;
+}
+
+export interface IUpdateSetupService<TDto> {
+  getOriginal(id: number): ISuccessOrErrorsWithResult<TDto>;
+}
+
+/** The DTO's LastUpdated is the version the edit started from; a newer row is reported as a conflict. */
+export interface IUpdateService<TDto> {
+  update(dto: TDto): ISuccessOrConflict<TDto>;
+}
+
+export interface IDeleteService {
+  delete(id: number | null): ISuccessOrErrors;
+}
+
+/** Not part of GenericServices: puts back a row deleted within the undo window. */
+export interface IUndoDeleteService {
+  undoDelete(id: number): ISuccessOrErrors;
+}
+
+export interface IGenericServices<TList, TDetail, TDto>
+  extends IListService<TList>,
+    IDetailService<TDetail>,
+    ICreateSetupService<TDto>,
+    ICreateService<TDto>,
+    IUpdateSetupService<TDto>,
+    IUpdateService<TDto>,
+    IDeleteService,
+    IUndoDeleteService {}
+
+/*
+ * The async twins. As in GenericServices there is no separate async list service in the
+ * legacy code, but here every call crosses the async data path so the list is async too.
+ */
+
+export interface IListServiceAsync<TList> {
+  getAll(signal?: AbortSignal): Promise<TList[]>;
+}
+
+export interface IDetailServiceAsync<TDetail> {
+  getDetail(id: number, signal?: AbortSignal): Promise<ISuccessOrErrorsWithResult<TDetail>>;
+}
+
+export interface ICreateSetupServiceAsync<TDto> {
+  getDto(signal?: AbortSignal): Promise<TDto>;
+}
+
+export interface ICreateServiceAsync<TDto> {
+  create(dto: TDto, signal?: AbortSignal): Promise<ISuccessOrErrors>;
+}
+
+export interface IUpdateSetupServiceAsync<TDto> {
+  getOriginal(id: number, signal?: AbortSignal): Promise<ISuccessOrErrorsWithResult<TDto>>;
+}
+
+export interface IUpdateServiceAsync<TDto> {
+  update(dto: TDto, signal?: AbortSignal): Promise<ISuccessOrConflict<TDto>>;
+}
+
+export interface IDeleteServiceAsync {
+  delete(id: number | null, signal?: AbortSignal): Promise<ISuccessOrErrors>;
+}
+
+export interface IUndoDeleteServiceAsync {
+  undoDelete(id: number, signal?: AbortSignal): Promise<ISuccessOrErrors>;
+}
+
+export interface IGenericServicesAsync<TList, TDetail, TDto>
+  extends IListServiceAsync<TList>,
+    IDetailServiceAsync<TDetail>,
+    ICreateSetupServiceAsync<TDto>,
+    ICreateServiceAsync<TDto>,
+    IUpdateSetupServiceAsync<TDto>,
+    IUpdateServiceAsync<TDto>,
+    IDeleteServiceAsync,
+    IUndoDeleteServiceAsync {}
+
+/** The commands of IGenericServices, the calls that write. */
+export type GenericWrite = "create" | "update" | "delete" | "undoDelete";
+
+/**
+ * The sync services as the screens get them. Reads always answer at once, but over HTTP a
+ * write's status is the server's, so it may only arrive once the server has answered.
+ */
+export type WithServerWrites<TServices, TWrite extends keyof TServices = Extract<GenericWrite, keyof TServices>> = Omit<TServices, TWrite> & {
+  [K in TWrite]: TServices[K] extends (...args: infer TArgs) => infer TStatus ? (...args: TArgs) => TStatus | Promise<TStatus> : TServices[K];
+};
@@ -0,0 +1,150 @@
+import type { Store } from "../data/createStore";
+import type { DatabaseState } from "../data/database";
+import type { TagListDto, TagRow } from "../data/tags";
+import { ApiError, type ApiClient } from "../lib/api-client";
+import { type BlogServices, createBlogServices } from "./blogServices";
+import type { GenericWrite, WithServerWrites } from "./genericServices";
+import {
+  createPostServices,
+  type DetailPostDto,
+  type PostServices,
+  type PostServicesAsync,
+  type PostSetup,
+  type SimplePostDto
+} from "./postServices";
+import {
+  failure,
+  failureWithMessage,
+  type ISuccessOrConflict,
+  type ISuccessOrErrors,
+  type ISuccessOrErrorsWithResult,
+  successWithResult
+} from "./successOrErrors";
+import { createTagServices, type TagServices, type TagServicesAsync } from "./tagServices";
+
+/*
+ * Services backed by the mock API. The async services call it directly. The sync services
+ * read from a local replica of the data, so reads are immediate; a write is checked and
+ * applied locally, then sent to the server, and its status is the server's answer. The
+ * server's snapshot is loaded back afterwards, so the server always has the last word.
+ */
+
+export interface Replica {
+  store: Store<DatabaseState>;
+  refresh(signal?: AbortSignal): Promise<void>;
+}
+
+export function createReplica(client: ApiClient, store: Store<DatabaseState>): Replica {
+  return {
+    store,
+    refresh: async (signal) => {
+      const snapshot = await client.get<DatabaseState>("/Data/Snapshot", signal);
+      store.setState(() => snapshot);
+    }
+  };
+}
+
+/** Turns the API's not-found and validation envelopes back into the statuses the screens expect. */
+async function asResult<T>(call: Promise<T>): Promise<ISuccessOrErrorsWithResult<T>> {
+  try {
+    return successWithResult(await call);
+  } catch (error) {
+    if (error instanceof ApiError && error.code === "not-found") return failureWithMessage(error.message);
+    throw error;
+  }
+}
+
+async function asStatus<T>(call: Promise<ISuccessOrErrors>, replica: Replica): Promise<ISuccessOrConflict<T>> {
+  try {
+    const status = await call;
+    await replica.refresh();
+    return status;
+  } catch (error) {
+    if (error instanceof ApiError && error.code === "validation") return failure(error.errors);
+    if (error instanceof ApiError && error.code === "conflict") return { ...failure(error.errors), conflict: error.conflict as T };
+    if (error instanceof ApiError && error.code === "antiforgery") return failureWithMessage(error.message);
+    throw error;
+  }
+}
+
+/**
+ * The form waits for the server, so a rejected token, a conflict the replica had not seen yet
+ * or any other refusal is shown where the user made the change. A refused change is rolled
+ * back by reloading the replica.
+ */
+async function writeThrough<T>(replica: Replica, status: ISuccessOrConflict<T>, send: () => Promise<ISuccessOrErrors>): Promise<ISuccessOrConflict<T>> {
+  if (!status.isValid) return status;
+  const rollBack = () => replica.refresh().catch(() => undefined);
+  let answer: ISuccessOrConflict<T>;
+  try {
+    answer = await asStatus<T>(send(), replica);
+  } catch (error) {
+    await rollBack();
+    throw error;
+  }
+  if (!answer.isValid) await rollBack();
+  return answer;
+}
+
+export function createHttpPostServices(client: ApiClient, replica: Replica): WithServerWrites<PostServices, GenericWrite | "resetBlogs"> {
+  const local = createPostServices(replica.store);
+  return {
+    ...local,
+    create: (dto) => writeThrough(replica, local.create(dto), () => client.post("/Posts/Create", dto)),
+    update: (dto) => writeThrough(replica, local.update(dto), () => client.post("/Posts/Edit", dto)),
+    delete: (id) => writeThrough(replica, local.delete(id), () => client.post(`/Posts/Delete/${id}`)),
+    undoDelete: (id) => writeThrough(replica, local.undoDelete(id), () => client.post(`/Posts/UndoDelete/${id}`)),
+    resetBlogs: () => writeThrough(replica, local.resetBlogs(), () => client.post("/Posts/Reset"))
+  };
+}
+
+export function createHttpPostServicesAsync(client: ApiClient, replica: Replica): PostServicesAsync {
+  return {
+    getAll: (signal) => client.get<SimplePostDto[]>("/Posts/Index", signal),
+    getDetail: (id, signal) => asResult(client.get<DetailPostDto>(`/Posts/Details/${id}`, signal)),
+    getDto: (signal) => client.get<DetailPostDto>("/Posts/Create", signal),
+    getOriginal: (id, signal) => asResult(client.get<DetailPostDto>(`/Posts/Edit/${id}`, signal)),
+    create: (dto, signal) => asStatus(client.post("/Posts/Create", dto, signal), replica),
+    update: (dto, signal) => asStatus(client.post("/Posts/Edit", dto, signal), replica),
+    delete: (id, signal) => asStatus(client.post(`/Posts/Delete/${id}`, undefined, signal), replica),
+    undoDelete: (id, signal) => asStatus(client.post(`/Posts/UndoDelete/${id}`, undefined, signal), replica),
+    getSetup: (signal) => client.get<PostSetup>("/Posts/Setup", signal),
+    count: async (signal) => (await client.get<{ count: number }>("/Posts/NumPosts", signal)).count,
+    resetBlogs: (signal) => asStatus(client.post("/Posts/Reset", undefined, signal), replica)
+  };
+}
+
+export function createHttpTagServices(client: ApiClient, replica: Replica): WithServerWrites<TagServices> {
+  const local = createTagServices(replica.store);
+  return {
+    ...local,
+    create: (tag) => writeThrough(replica, local.create(tag), () => client.post("/Tags/Create", tag)),
+    update: (tag) => writeThrough(replica, local.update(tag), () => client.post("/Tags/Edit", tag)),
+    delete: (id) => writeThrough(replica, local.delete(id), () => client.post(`/Tags/Delete/${id}`)),
+    undoDelete: (id) => writeThrough(replica, local.undoDelete(id), () => client.post(`/Tags/UndoDelete/${id}`))
+  };
+}
+
+export function createHttpTagServicesAsync(client: ApiClient, replica: Replica): TagServicesAsync {
+  return {
+    getAll: (signal) => client.get<TagListDto[]>("/Tags/Index", signal),
+    getDetail: (id, signal) => asResult(client.get<TagRow>(`/Tags/Details/${id}`, signal)),
+    getDto: (signal) => client.get<TagRow>("/Tags/Create", signal),
+    getOriginal: (id, signal) => asResult(client.get<TagRow>(`/Tags/Edit/${id}`, signal)),
+    create: (tag, signal) => asStatus(client.post("/Tags/Create", tag, signal), replica),
+    update: (tag, signal) => asStatus(client.post("/Tags/Edit", tag, signal), replica),
+    delete: (id, signal) => asStatus(client.post(`/Tags/Delete/${id}`, undefined, signal), replica),
+    undoDelete: (id, signal) => asStatus(client.post(`/Tags/UndoDelete/${id}`, undefined, signal), replica)
+  };
+}
+
+export function createHttpBlogServices(client: ApiClient, replica: Replica): WithServerWrites<BlogServices> {
+  const local = createBlogServices(replica.store);
+  return {
+    ...local,
+    create: (blog) => writeThrough(replica, local.create(blog), () => client.post("/Blogs/Create", blog)),
+    update: (blog) => writeThrough(replica, local.update(blog), () => client.post("/Blogs/Edit", blog)),
+    delete: (id) => writeThrough(replica, local.delete(id), () => client.post(`/Blogs/Delete/${id}`)),
+    undoDelete: (id) => writeThrough(replica, local.undoDelete(id), () => client.post(`/Blogs/UndoDelete/${id}`))
+  };
+}
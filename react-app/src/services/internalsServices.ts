@@ -0,0 +1,35 @@
+import { createApiClient, type ApiClient } from "../lib/api-client";
+
+/**
+ * Mirrors HomeController.Internals' InternalsInfo, read from the process serving the API.
+ * The first four fields keep the legacy names; the rest are the Node counterparts of the
+ * counters an IIS host would be watched with.
+ */
+export interface InternalsInfo {
+  workerThreads: number;
+  availableThreads: number;
+  availableMbytes: number;
+  heapMemoryUsedKbytes: number;
+  rssKbytes: number;
+  /** Mean event-loop delay since the previous read. */
+  eventLoopLagMs: number;
+  activeHandles: number;
+  sampledAtUtc: string;
+}
+
+export interface InternalsServices {
+  read(signal?: AbortSignal): Promise<InternalsInfo>;
+}
+
+/**
+ * The server metrics always come from the API, whichever data source the screens use: the
+ * Vite plugin serves it in development and preview, and the tab's own figures are shown
+ * alongside as the Browser metrics.
+ */
+export function createInternalsServices(client: ApiClient = createApiClient()): InternalsServices {
+  return {
+    read(signal) {
+      return client.get<InternalsInfo>("/Home/Internals", signal);
+    }
+  };
+}
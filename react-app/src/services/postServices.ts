@@ -0,0 +1,224 @@
+import { withLatency } from "../data/asyncData";
+import type { Store } from "../data/createStore";
+import { databaseStore, type DatabaseState, initialDatabase, nextId, type PostTagLink } from "../data/database";
+import type { Post } from "../data/posts";
+import { createRecycleBin } from "../data/recycleBin";
+import { nextLastUpdatedUtc } from "../data/trackUpdate";
+import { validatePostDto, validatePostEntity, validatePostRequest } from "../validation/postValidation";
+import { hasErrors } from "../validation/validationErrors";
+import type { IGenericServices, IGenericServicesAsync } from "./genericServices";
+import {
+  conflictFailure,
+  failure,
+  failureWithMessage,
+  type ISuccessOrConflict,
+  type ISuccessOrErrors,
+  type ISuccessOrErrorsWithResult,
+  success,
+  successWithResult
+} from "./successOrErrors";
+import { type OptionItem, toOptionItems } from "./uiClasses";
+
+/** Mirrors ServiceLayer.PostServices.SimplePostDto, the shape of the posts list. */
+export interface SimplePostDto {
+  postId: number;
+  blogId: number;
+  bloggerName: string;
+  title: string;
+  tagNames: string;
+  lastUpdatedUtc: string;
+}
+
+/**
+ * Mirrors ServiceLayer.PostServices.DetailPostDto: the read-only display fields plus the
+ * blogger and tag selections that the create/edit form binds to.
+ */
+export interface DetailPostDto {
+  postId: number;
+  title: string;
+  content: string;
+  bloggerName: string;
+  tagNames: string;
+  lastUpdatedUtc: string;
+  bloggers: string;
+  userChosenTags: string[];
+}
+
+/** The secondary data DetailPostDto.SetupSecondaryData loads for the blogger and tag lists. */
+export interface PostSetup {
+  bloggers: OptionItem[];
+  tags: OptionItem[];
+}
+
+export interface PostServices extends IGenericServices<SimplePostDto, DetailPostDto, DetailPostDto> {
+  /** Like ResetDto, reloads the blogger and tag lists when the form is shown again. */
+  getSetup(): PostSetup;
+  count(): number;
+  resetBlogs(): ISuccessOrErrors;
+}
+
+export interface PostServicesAsync extends IGenericServicesAsync<SimplePostDto, DetailPostDto, DetailPostDto> {
+  getSetup(signal?: AbortSignal): Promise<PostSetup>;
+  count(signal?: AbortSignal): Promise<number>;
+  resetBlogs(signal?: AbortSignal): Promise<ISuccessOrErrors>;
+}
+
+function toDetailPostDto(db: DatabaseState, post: Post): DetailPostDto {
+  const tagIds = db.postTags.filter((link) => link.postId === post.postId).map((link) => link.tagId);
+  const tags = db.tags.filter((tag) => tagIds.includes(tag.tagId));
+
+  return {
+    postId: post.postId,
+    title: post.title,
+    content: post.content,
+    bloggerName: db.blogs.find((blog) => blog.blogId === post.blogId)?.name ?? "",
+    tagNames: tags.map((tag) => tag.name).join(", "),
+    lastUpdatedUtc: post.lastUpdatedUtc,
+    bloggers: String(post.blogId),
+    userChosenTags: tags.map((tag) => String(tag.tagId))
+  };
+}
+
+function toSimplePostDto(db: DatabaseState, post: Post): SimplePostDto {
+  const { postId, bloggerName, title, tagNames, lastUpdatedUtc } = toDetailPostDto(db, post);
+  return { postId, blogId: post.blogId, bloggerName, title, tagNames, lastUpdatedUtc };
+}
+
+function findDetail(store: Store<DatabaseState>, postId: number): ISuccessOrErrorsWithResult<DetailPostDto> {
+  const db = store.getState();
+  const post = db.posts.find((item) => item.postId === postId);
+  return post ? successWithResult(toDetailPostDto(db, post)) : failureWithMessage("Post not found.");
+}
+
+/**
+ * The Create/Edit POST pipeline: MVC's request validation and ModelState, then the DTO's
+ * CreateDataFromDto/UpdateDataFromDto checks, then EF's validation of the Post data class.
+ */
+function savePost(store: Store<DatabaseState>, dto: DetailPostDto, isUpdate: boolean): ISuccessOrConflict<DetailPostDto> {
+  const requestErrors = validatePostRequest(dto);
+  if (hasErrors(requestErrors)) return failure(requestErrors);
+
+  const db = store.getState();
+  const dtoErrors = validatePostDto(dto, db);
+  if (hasErrors(dtoErrors)) return failure(dtoErrors);
+
+  const current = isUpdate ? db.posts.find((item) => item.postId === dto.postId) : undefined;
+  if (isUpdate && !current) return failureWithMessage("Could not find the post. Did another user delete it?");
+  if (current && current.lastUpdatedUtc !== dto.lastUpdatedUtc) return conflictFailure(toDetailPostDto(db, current), "post");
+
+  const tagIds = dto.userChosenTags.map(Number);
+  const postId = isUpdate ? dto.postId : nextId(db, "posts");
+  const saved: Post = {
+    postId,
+    blogId: Number(dto.bloggers),
+    title: dto.title,
+    content: dto.content,
+    lastUpdatedUtc: nextLastUpdatedUtc(current?.lastUpdatedUtc)
+  };
+  const entityErrors = validatePostEntity({ post: saved, tagIds });
+  if (hasErrors(entityErrors)) return failure(entityErrors);
+
+  store.setState((prev) => ({
+    ...prev,
+    posts: isUpdate ? prev.posts.map((item) => (item.postId === postId ? saved : item)) : [...prev.posts, saved],
+    lastIds: isUpdate ? prev.lastIds : { ...prev.lastIds, posts: postId },
+    postTags: [
+      ...prev.postTags.filter((link) => link.postId !== postId),
+      ...tagIds.map((tagId) => ({ postId, tagId }))
+    ]
+  }));
+  return success(isUpdate ? "Successfully updated post" : "Successfully created post");
+}
+
+export function createPostServices(store: Store<DatabaseState> = databaseStore): PostServices {
+  const deleted = createRecycleBin<{ post: Post; links: PostTagLink[] }>();
+
+  return {
+    getAll: () => {
+      const db = store.getState();
+      return db.posts.map((post) => toSimplePostDto(db, post));
+    },
+    getDetail: (postId) => findDetail(store, postId),
+    getDto: () => ({
+      postId: 0,
+      title: "",
+      content: "",
+      bloggerName: "",
+      tagNames: "",
+      lastUpdatedUtc: "",
+      bloggers: "",
+      userChosenTags: []
+    }),
+    getOriginal: (postId) => findDetail(store, postId),
+    create: (dto) => savePost(store, dto, false),
+    update: (dto) => savePost(store, dto, true),
+    // Removing a post also removes its post-tag links; the tags themselves stay.
+    delete: (postId) => {
+      if (!postId) return failureWithMessage("Delete failed: no post id provided.");
+      const db = store.getState();
+      const post = db.posts.find((item) => item.postId === postId);
+      if (!post) return failureWithMessage("Delete failed: post not found.");
+
+      deleted.put(postId, { post, links: db.postTags.filter((link) => link.postId === postId) });
+      store.setState((prev) => ({
+        ...prev,
+        posts: prev.posts.filter((item) => item.postId !== postId),
+        postTags: prev.postTags.filter((link) => link.postId !== postId)
+      }));
+      return success("Successfully deleted post");
+    },
+    // Tags deleted in the meantime are left off; a blogger deleted in the meantime blocks the undo.
+    undoDelete: (postId) => {
+      const db = store.getState();
+      if (db.posts.some((item) => item.postId === postId)) {
+        return failureWithMessage("Undo failed: another post now has the same id.");
+      }
+      const entry = deleted.peek(postId);
+      if (!entry) return failureWithMessage("Undo failed: the post was deleted too long ago to restore.");
+      if (!db.blogs.some((item) => item.blogId === entry.post.blogId)) {
+        return failureWithMessage("Undo failed: the post's blogger has been deleted since.");
+      }
+
+      deleted.take(postId);
+      const tagIds = new Set(db.tags.map((item) => item.tagId));
+      store.setState((prev) => ({
+        ...prev,
+        posts: [...prev.posts, entry.post].sort((a, b) => a.postId - b.postId),
+        // A reset since the delete has lowered the counter; keep it past the restored row.
+        lastIds: { ...prev.lastIds, posts: Math.max(prev.lastIds.posts, postId) },
+        postTags: [...prev.postTags, ...entry.links.filter((link) => tagIds.has(link.tagId))]
+      }));
+      return success("Successfully restored post");
+    },
+    getSetup: () => {
+      const db = store.getState();
+      return {
+        bloggers: toOptionItems(db.blogs, (item) => item.blogId, (item) => item.name),
+        tags: toOptionItems(db.tags, (item) => item.tagId, (item) => item.name)
+      };
+    },
+    count: () => store.getState().posts.length,
+    // Restores the seed data for every table, like DataLayerInitialise.ResetBlogs.
+    resetBlogs: () => {
+      store.setState((prev) => ({ ...initialDatabase, resetCount: prev.resetCount + 1 }));
+      return success("Successfully reset the blogs data");
+    }
+  };
+}
+
+/** The async twin runs the same commands after the configured latency. */
+export function createPostServicesAsync(services: PostServices = createPostServices()): PostServicesAsync {
+  return {
+    getAll: (signal) => withLatency(() => services.getAll(), signal),
+    getDetail: (id, signal) => withLatency(() => services.getDetail(id), signal),
+    getDto: (signal) => withLatency(() => services.getDto(), signal),
+    getOriginal: (id, signal) => withLatency(() => services.getOriginal(id), signal),
+    create: (dto, signal) => withLatency(() => services.create(dto), signal),
+    update: (dto, signal) => withLatency(() => services.update(dto), signal),
+    delete: (id, signal) => withLatency(() => services.delete(id), signal),
+    undoDelete: (id, signal) => withLatency(() => services.undoDelete(id), signal),
+    getSetup: (signal) => withLatency(() => services.getSetup(), signal),
+    count: (signal) => withLatency(() => services.count(), signal),
+    resetBlogs: (signal) => withLatency(() => services.resetBlogs(), signal)
+  };
+}
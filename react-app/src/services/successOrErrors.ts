@@ -0,0 +1,58 @@
+export type FieldErrorMap = Record<string, string[]>;
+
+/**
+ * Mirrors GenericServices' ISuccessOrErrors. Errors are keyed by property name; the empty
+ * key holds top-level errors that are not tied to a property, as in MVC's ModelState.
+ */
+export interface ISuccessOrErrors {
+  isValid: boolean;
+  successMessage: string | null;
+  errors: FieldErrorMap;
+}
+
+/** Mirrors ISuccessOrErrors<T>: the result is only set when the call was valid. */
+export interface ISuccessOrErrorsWithResult<T> extends ISuccessOrErrors {
+  result: T | null;
+}
+
+/**
+ * What an update returns. `conflict` is only set when the save was refused because someone
+ * else saved the row after the form loaded it, and holds the row as they left it.
+ */
+export interface ISuccessOrConflict<T> extends ISuccessOrErrors {
+  conflict?: T | null;
+}
+
+export function success(successMessage: string): ISuccessOrErrors {
+  return { isValid: true, successMessage, errors: {} };
+}
+
+export function successWithResult<T>(result: T, successMessage = ""): ISuccessOrErrorsWithResult<T> {
+  return { isValid: true, successMessage, errors: {}, result };
+}
+
+export function failure(errors: FieldErrorMap): ISuccessOrErrorsWithResult<never> {
+  return { isValid: false, successMessage: null, errors, result: null };
+}
+
+/** Shorthand for a failure with a single top-level error. */
+export function failureWithMessage(message: string) {
+  return failure({ "": [message] });
+}
+
+/** Like EF's DbUpdateConcurrencyException: the row's LastUpdated no longer matches the one the edit started from. */
+export function conflictFailure<T>(current: T, entityName: string): ISuccessOrConflict<T> {
+  return {
+    ...failureWithMessage(`Someone else has saved this ${entityName} since you started editing it.`),
+    conflict: current
+  };
+}
+
+export function flattenErrors(errorMap: FieldErrorMap) {
+  return Object.values(errorMap).flat();
+}
+
+/** The text form of ErrorsAsHtml, for places that need one line such as exception and 404 messages. */
+export function errorsAsText(status: ISuccessOrErrors) {
+  return flattenErrors(status.errors).join(" ");
+}
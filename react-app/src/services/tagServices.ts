@@ -0,0 +1,123 @@
+import { withLatency } from "../data/asyncData";
+import type { Store } from "../data/createStore";
+import { databaseStore, type DatabaseState, nextId, type PostTagLink } from "../data/database";
+import { createRecycleBin } from "../data/recycleBin";
+import { nextLastUpdatedUtc } from "../data/trackUpdate";
+import { type TagListDto, type TagRow, toTagListDtos } from "../data/tags";
+import { validateTagEntity, validateTagRequest, validateTagSaveChanges } from "../validation/tagValidation";
+import { hasErrors } from "../validation/validationErrors";
+import type { IGenericServices, IGenericServicesAsync } from "./genericServices";
+import {
+  conflictFailure,
+  failure,
+  failureWithMessage,
+  type ISuccessOrConflict,
+  type ISuccessOrErrorsWithResult,
+  success,
+  successWithResult
+} from "./successOrErrors";
+
+/** Tags are simple enough to use the direct services, so the Tag data class is its own DTO. */
+export type TagServices = IGenericServices<TagListDto, TagRow, TagRow>;
+
+export type TagServicesAsync = IGenericServicesAsync<TagListDto, TagRow, TagRow>;
+
+function findTag(store: Store<DatabaseState>, tagId: number): ISuccessOrErrorsWithResult<TagRow> {
+  const tag = store.getState().tags.find((item) => item.tagId === tagId);
+  return tag ? successWithResult(tag) : failureWithMessage("Tag not found.");
+}
+
+/** The slug uniqueness rule lives in SampleWebAppDb.ValidateEntity, so it is only checked on save. */
+function saveTag(store: Store<DatabaseState>, tag: TagRow, isUpdate: boolean): ISuccessOrConflict<TagRow> {
+  const requestErrors = validateTagRequest(tag);
+  if (hasErrors(requestErrors)) return failure(requestErrors);
+  const entityErrors = validateTagEntity(tag);
+  if (hasErrors(entityErrors)) return failure(entityErrors);
+
+  const { tags } = store.getState();
+  const saveChangesErrors = validateTagSaveChanges(tag, tags);
+  if (hasErrors(saveChangesErrors)) return failure(saveChangesErrors);
+
+  if (isUpdate) {
+    const current = tags.find((item) => item.tagId === tag.tagId);
+    if (!current) return failureWithMessage("Could not find the tag. Did another user delete it?");
+    if (current.lastUpdatedUtc !== tag.lastUpdatedUtc) return conflictFailure(current, "tag");
+
+    const lastUpdatedUtc = nextLastUpdatedUtc(current.lastUpdatedUtc);
+    store.setState((prev) => ({
+      ...prev,
+      tags: prev.tags.map((item) => (item.tagId === tag.tagId ? { ...item, name: tag.name, slug: tag.slug, lastUpdatedUtc } : item))
+    }));
+    return success("Successfully updated tag");
+  }
+
+  const tagId = nextId(store.getState(), "tags");
+  store.setState((prev) => ({
+    ...prev,
+    tags: [...prev.tags, { tagId, name: tag.name, slug: tag.slug, lastUpdatedUtc: nextLastUpdatedUtc() }],
+    lastIds: { ...prev.lastIds, tags: tagId }
+  }));
+  return success("Successfully created tag");
+}
+
+export function createTagServices(store: Store<DatabaseState> = databaseStore): TagServices {
+  const deleted = createRecycleBin<{ tag: TagRow; links: PostTagLink[] }>();
+
+  return {
+    getAll: () => toTagListDtos(store.getState()),
+    getDetail: (tagId) => findTag(store, tagId),
+    getDto: () => ({ tagId: 0, name: "", slug: "", lastUpdatedUtc: "" }),
+    getOriginal: (tagId) => findTag(store, tagId),
+    create: (tag) => saveTag(store, tag, false),
+    update: (tag) => saveTag(store, tag, true),
+    // Like EF's many-to-many mapping, deleting a tag removes its links but never the posts.
+    delete: (tagId) => {
+      if (!tagId) return failureWithMessage("Delete failed: no tag id provided.");
+      const db = store.getState();
+      const tag = db.tags.find((item) => item.tagId === tagId);
+      if (!tag) return failureWithMessage("Delete failed: tag not found.");
+
+      deleted.put(tagId, { tag, links: db.postTags.filter((link) => link.tagId === tagId) });
+      store.setState((prev) => ({
+        ...prev,
+        tags: prev.tags.filter((item) => item.tagId !== tagId),
+        postTags: prev.postTags.filter((link) => link.tagId !== tagId)
+      }));
+      return success("Successfully deleted tag");
+    },
+    // The slug must still be unique, as on save; links to posts deleted in the meantime are left off.
+    undoDelete: (tagId) => {
+      const db = store.getState();
+      if (db.tags.some((item) => item.tagId === tagId)) {
+        return failureWithMessage("Undo failed: another tag now has the same id.");
+      }
+      const entry = deleted.peek(tagId);
+      if (!entry) return failureWithMessage("Undo failed: the tag was deleted too long ago to restore.");
+      const saveChangesErrors = validateTagSaveChanges(entry.tag, db.tags);
+      if (hasErrors(saveChangesErrors)) return failure(saveChangesErrors);
+
+      deleted.take(tagId);
+      const postIds = new Set(db.posts.map((item) => item.postId));
+      store.setState((prev) => ({
+        ...prev,
+        tags: [...prev.tags, entry.tag].sort((a, b) => a.tagId - b.tagId),
+        lastIds: { ...prev.lastIds, tags: Math.max(prev.lastIds.tags, entry.tag.tagId) },
+        postTags: [...prev.postTags, ...entry.links.filter((link) => postIds.has(link.postId))]
+      }));
+      return success("Successfully restored tag");
+    }
+  };
+}
+
+export function createTagServicesAsync(services: TagServices = createTagServices()): TagServicesAsync {
+  return {
+    getAll: (signal) => withLatency(() => services.getAll(), signal),
+    getDetail: (id, signal) => withLatency(() => services.getDetail(id), signal),
+    getDto: (signal) => withLatency(() => services.getDto(), signal),
+    getOriginal: (id, signal) => withLatency(() => services.getOriginal(id), signal),
+    create: (tag, signal) => withLatency(() => services.create(tag), signal),
+    update: (tag, signal) => withLatency(() => services.update(tag), signal),
+    delete: (id, signal) => withLatency(() => services.delete(id), signal),
+    undoDelete: (id, signal) => withLatency(() => services.undoDelete(id), signal)
+  };
+}
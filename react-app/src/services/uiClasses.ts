@@ -0,0 +1,20 @@
+/*
+ * Mirrors ServiceLayer.UiClasses: the option lists a DTO carries for the DropDownListType and
+ * MultiSelectListType editors. The DTO itself only holds the chosen values.
+ */
+
+/** One entry of an editor's option list, like the legacy KeyValue. */
+export interface OptionItem {
+  value: string;
+  text: string;
+}
+
+/** Builds an option list from rows, with the row's key as the value. */
+export function toOptionItems<T>(rows: T[], getKey: (row: T) => number | string, getText: (row: T) => string): OptionItem[] {
+  return rows.map((row) => ({ value: String(getKey(row)), text: getText(row) }));
+}
+
+/** The text to show for each chosen value, falling back to the value when the list no longer has it. */
+export function optionTexts(options: OptionItem[], values: string[]) {
+  return values.map((value) => options.find((item) => item.value === value)?.text ?? value);
+}
@@ -0,0 +1,33 @@
+import type { BlogRow } from "../data/blogs";
+import type { FieldErrorMap } from "../services/successOrErrors";
+import {
+  emailAddress,
+  maxLength,
+  minLength,
+  required,
+  validateInBrowser,
+  validateObject,
+  validateRequest,
+  type ValidationSchema
+} from "./schema";
+
+/** Blog's attributes. The form binds to the data class, so this one schema serves every stage. */
+export const blogSchema: ValidationSchema<BlogRow> = {
+  className: "Blog",
+  properties: [
+    { name: "Name", value: (blog) => blog.name, attributes: [minLength(2), maxLength(64), required()] },
+    { name: "EmailAddress", value: (blog) => blog.emailAddress, attributes: [maxLength(256), required(), emailAddress()] }
+  ]
+};
+
+export function validateBlogInBrowser(blog: BlogRow): FieldErrorMap {
+  return validateInBrowser(blogSchema, blog);
+}
+
+export function validateBlogRequest(blog: BlogRow): FieldErrorMap {
+  return validateRequest(blogSchema, blog, undefined);
+}
+
+export function validateBlogEntity(blog: BlogRow): FieldErrorMap {
+  return validateObject(blogSchema, blog, undefined);
+}
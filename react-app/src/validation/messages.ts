@@ -0,0 +1,25 @@
+/** The default messages of System.ComponentModel.DataAnnotations, which the legacy forms show verbatim. */
+export const dataAnnotationMessages = {
+  required: (field: string) => `The ${field} field is required.`,
+  minLength: (field: string, length: number) =>
+    `The field ${field} must be a string or array type with a minimum length of '${length}'.`,
+  maxLength: (field: string, length: number) =>
+    `The field ${field} must be a string or array type with a maximum length of '${length}'.`,
+  emailAddress: (field: string) => `The ${field} field is not a valid e-mail address.`
+};
+
+// ASP.NET request validation rejects '<' followed by a letter, '!', '/' or '?', and '&#'.
+const dangerousInputPattern = /<[a-zA-Z!/?]|&#/;
+
+/**
+ * MVC's request validation: rather than a property error, the legacy site throws
+ * HttpRequestValidationException, so the first offending field is reported for the whole request.
+ */
+export function findDangerousInput(values: Record<string, string>): string | null {
+  const entry = Object.entries(values).find(([, value]) => dangerousInputPattern.test(value));
+  if (!entry) return null;
+
+  const [field, value] = entry;
+  const shown = value.length > 15 ? `${value.slice(0, 15)}...` : value;
+  return `A potentially dangerous Request.Form value was detected from the client (${field}="${shown}").`;
+}
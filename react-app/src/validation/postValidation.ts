@@ -0,0 +1,130 @@
+import type { DatabaseState } from "../data/database";
+import type { Post } from "../data/posts";
+import type { DetailPostDto } from "../services/postServices";
+import type { FieldErrorMap } from "../services/successOrErrors";
+import { buildRuleRows } from "./referenceRules";
+import {
+  maxLength,
+  minLength,
+  required,
+  validateInBrowser,
+  validateObject,
+  validateRequest,
+  type ValidationSchema
+} from "./schema";
+
+/** DetailPostDto's attributes; Title has no [Required], so an empty title gets past the DTO. */
+export const detailPostDtoSchema: ValidationSchema<DetailPostDto> = {
+  className: "DetailPostDto",
+  properties: [
+    { name: "Title", value: (dto) => dto.title, attributes: [minLength(2), maxLength(128)] },
+    { name: "Content", value: (dto) => dto.content, attributes: [required()] }
+  ]
+};
+
+/** The checks inside DetailPostDto.CreateDataFromDto/UpdateDataFromDto, which look up the chosen blogger and tags. */
+export const detailPostDtoDataSchema: ValidationSchema<DetailPostDto, DatabaseState> = {
+  className: "DetailPostDto",
+  properties: [],
+  validators: [
+    {
+      member: "Bloggers",
+      label: "Blog (Author)",
+      description: "Must have a blogger assigned to the post",
+      validate: (dto) => (dto.bloggers ? null : "The blogger was not selected. You must do that before the post can be saved.")
+    },
+    {
+      member: "Bloggers",
+      label: "Blog (Author)",
+      description: "The blogger must still be in the database",
+      validate: (dto, db) =>
+        !dto.bloggers || db.blogs.some((item) => String(item.blogId) === dto.bloggers)
+          ? null
+          : "Could not find the blogger you selected. Did another user delete it?"
+    },
+    {
+      member: "UserChosenTags",
+      label: "Tags",
+      description: "Must have at least one tag assigned to the Post",
+      validate: (dto) => (dto.userChosenTags.length > 0 ? null : "You must select at least one tag for the post.")
+    },
+    {
+      member: "UserChosenTags",
+      label: "Tags",
+      description: "Every tag must still be in the database",
+      validate: (dto, db) =>
+        dto.userChosenTags.every((tagId) => db.tags.some((item) => String(item.tagId) === tagId))
+          ? null
+          : "Could not find one of the tags. Did another user delete it?"
+    }
+  ]
+};
+
+/** The Post data class as EF sees it on SaveChanges, i.e. with the tags it is linked to. */
+export interface PostWithTags {
+  post: Post;
+  tagIds: number[];
+}
+
+const blockedSentenceEndings = ["sheep", "lamb", "cow", "calf"];
+
+/** Post's attributes plus Post.Validate, whose sentence-ending rules have no property and so come back model-level. */
+export const postSchema: ValidationSchema<PostWithTags> = {
+  className: "Post",
+  properties: [
+    { name: "Title", value: ({ post }) => post.title, attributes: [minLength(2), maxLength(128), required()] },
+    { name: "Content", value: ({ post }) => post.content, attributes: [required()] }
+  ],
+  validators: [
+    {
+      member: "AllocatedTags",
+      label: "Tags",
+      description: "Must have at least one tag assigned to the Post",
+      validate: ({ tagIds }) => (tagIds.length > 0 ? null : "The post must have at least one Tag.")
+    },
+    {
+      member: "Title",
+      description: "Must not include an exclamation mark, i.e. '!'",
+      validate: ({ post }) =>
+        post.title.includes("!") ? "Sorry, but you can't get too excited and include a ! in the title." : null
+    },
+    {
+      member: "Title",
+      description: "Must not end with a question mark, i.e. '?'",
+      validate: ({ post }) =>
+        post.title.endsWith("?") ? "Sorry, but you can't ask a question, i.e. the title can't end with '?'." : null
+    },
+    ...blockedSentenceEndings.map((ending) => ({
+      label: "Content",
+      description: `Must not contain a sentence ending with ' ${ending}.'`,
+      validate: ({ post }: PostWithTags) =>
+        post.content.includes(` ${ending}.`) ? `Sorry. Not allowed to end a sentance with '${ending}'.` : null
+    }))
+  ]
+};
+
+export function validatePostInBrowser(dto: DetailPostDto): FieldErrorMap {
+  return validateInBrowser(detailPostDtoSchema, dto);
+}
+
+export function validatePostRequest(dto: DetailPostDto): FieldErrorMap {
+  return validateRequest(detailPostDtoSchema, dto, undefined);
+}
+
+export function validatePostDto(dto: DetailPostDto, db: DatabaseState): FieldErrorMap {
+  return validateObject(detailPostDtoDataSchema, dto, db);
+}
+
+export function validatePostEntity(entity: PostWithTags): FieldErrorMap {
+  return validateObject(postSchema, entity, undefined);
+}
+
+/** The rows of the Post validation tables, generated from the same schemas the save path runs. */
+export function postValidationRules() {
+  return buildRuleRows([
+    { where: "Browser", schema: detailPostDtoSchema },
+    { where: "MVC", schema: detailPostDtoSchema },
+    { where: "DTO", schema: detailPostDtoDataSchema },
+    { where: "EF", schema: postSchema }
+  ]);
+}
@@ -0,0 +1,71 @@
+import type { AttributeRule, ValidationSchema } from "./schema";
+
+/** The "Where Checked" terms used by the legacy validation tables. */
+export type WhereChecked = "Browser" | "MVC" | "DTO" | "EF" | "SaveChanges";
+
+export type WhereShown = "By property" | "At top" | "Exception";
+
+export interface ValidationRuleRow {
+  property: string;
+  rule: string;
+  shown: WhereShown;
+  checked: WhereChecked[];
+}
+
+/** A schema and the stage that runs it; `never` lets schemas over any model and context share one list. */
+export interface RuleSource {
+  where: WhereChecked;
+  schema: ValidationSchema<never, never>;
+}
+
+function describeAttributes(attributes: AttributeRule[], where: WhereChecked) {
+  const rules: string[] = [];
+  const min = attributes.find((rule) => rule.kind === "minLength");
+  const max = attributes.find((rule) => rule.kind === "maxLength");
+
+  if (attributes.some((rule) => rule.kind === "required")) rules.push("Must not be empty");
+  if (min?.kind === "minLength" && max?.kind === "maxLength") {
+    rules.push(`Must have between ${min.length} and ${max.length} characters in it`);
+  } else if (max?.kind === "maxLength") {
+    rules.push(`Must not be longer than ${max.length} characters`);
+  } else if (min?.kind === "minLength") {
+    rules.push(`Must have at least ${min.length} characters in it`);
+  }
+
+  for (const rule of attributes) {
+    if (rule.kind === "regularExpression" && (where !== "Browser" || rule.clientSide)) rules.push(rule.description);
+    if (rule.kind === "emailAddress") rules.push("Must be a valid email address");
+  }
+  return rules;
+}
+
+/**
+ * Builds the rows of a "Validation rules" table from the schemas each stage runs, so the table
+ * can never disagree with the checks. Rules shared by several stages are merged into one row.
+ */
+export function buildRuleRows(sources: RuleSource[]): ValidationRuleRow[] {
+  const rows = new Map<string, ValidationRuleRow>();
+  const addRow = (property: string, rule: string, shown: WhereShown, where: WhereChecked) => {
+    const key = `${property}|${rule}`;
+    const row = rows.get(key) ?? { property, rule, shown, checked: [] };
+    if (!row.checked.includes(where)) row.checked.push(where);
+    rows.set(key, row);
+  };
+
+  for (const { where, schema } of sources) {
+    for (const property of schema.properties) {
+      const label = property.label ?? property.name;
+      describeAttributes(property.attributes, where).forEach((rule) => addRow(label, rule, "By property", where));
+      if (where === "MVC") addRow(label, "Must not contain HTML symbols, e.g. <, >", "Exception", where);
+    }
+    if (where === "Browser") continue;
+    for (const validator of schema.validators ?? []) {
+      const label = validator.label ?? validator.member ?? "";
+      addRow(label, validator.description, validator.member ? "By property" : "At top", where);
+    }
+  }
+
+  // Keep each property's rules together, in the order the properties first appear.
+  const properties = [...new Set([...rows.values()].map((row) => row.property))];
+  return properties.flatMap((property) => [...rows.values()].filter((row) => row.property === property));
+}
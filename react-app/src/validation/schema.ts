@@ -0,0 +1,119 @@
+import type { FieldErrorMap } from "../services/successOrErrors";
+import { dataAnnotationMessages, findDangerousInput } from "./messages";
+import { createErrorCollector } from "./validationErrors";
+
+/** The DataAnnotations attributes a property can carry in the legacy DTOs and data classes. */
+export type AttributeRule =
+  | { kind: "required" }
+  | { kind: "minLength"; length: number }
+  | { kind: "maxLength"; length: number }
+  | { kind: "regularExpression"; pattern: RegExp; errorMessage: string; description: string; clientSide: boolean }
+  | { kind: "emailAddress" };
+
+export const required = (): AttributeRule => ({ kind: "required" });
+export const minLength = (length: number): AttributeRule => ({ kind: "minLength", length });
+export const maxLength = (length: number): AttributeRule => ({ kind: "maxLength", length });
+export const emailAddress = (): AttributeRule => ({ kind: "emailAddress" });
+
+/** [RegularExpression] with its ErrorMessage; `clientSide: false` keeps it out of the browser stage. */
+export function regularExpression(
+  pattern: RegExp,
+  options: { errorMessage: string; description: string; clientSide?: boolean }
+): AttributeRule {
+  return { kind: "regularExpression", pattern, ...options, clientSide: options.clientSide ?? true };
+}
+
+export interface PropertySchema<T> {
+  /** The C# property name, which is also the ModelState key errors are reported under. */
+  name: string;
+  /** How the reference tables name the property, when that differs from the C# name. */
+  label?: string;
+  value: (model: T) => string;
+  attributes: AttributeRule[];
+}
+
+/**
+ * A cross-field rule, like one `yield return` in IValidatableObject.Validate. A rule without
+ * a member is a top-level error and only shows in the validation summary.
+ */
+export interface CustomValidator<T, C> {
+  member?: string;
+  label?: string;
+  description: string;
+  validate: (model: T, context: C) => string | null;
+}
+
+/** One C# class: its attributed properties plus the rules its own code runs. */
+export interface ValidationSchema<T, C = undefined> {
+  className: string;
+  properties: PropertySchema<T>[];
+  validators?: CustomValidator<T, C>[];
+}
+
+// Same shape check as System.ComponentModel.DataAnnotations.EmailAddressAttribute: local@domain with a dotted domain.
+const emailPattern = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+
+function checkAttributes<T>(
+  collector: ReturnType<typeof createErrorCollector>,
+  property: PropertySchema<T>,
+  model: T,
+  clientOnly: boolean
+) {
+  const { name } = property;
+  const value = property.value(model);
+  const attributes = property.attributes.filter((rule) => !clientOnly || rule.kind !== "regularExpression" || rule.clientSide);
+
+  // [Required] runs first and, when it fails, the other attributes are skipped; empty values pass every other attribute.
+  if (!value.trim()) {
+    if (attributes.some((rule) => rule.kind === "required")) collector.add(name, dataAnnotationMessages.required(name));
+    return;
+  }
+
+  for (const rule of attributes) {
+    if (rule.kind === "minLength" && value.length < rule.length) {
+      collector.add(name, dataAnnotationMessages.minLength(name, rule.length));
+    } else if (rule.kind === "maxLength" && value.length > rule.length) {
+      collector.add(name, dataAnnotationMessages.maxLength(name, rule.length));
+    } else if (rule.kind === "regularExpression" && !rule.pattern.test(value)) {
+      collector.add(name, rule.errorMessage);
+    } else if (rule.kind === "emailAddress" && !emailPattern.test(value)) {
+      collector.add(name, dataAnnotationMessages.emailAddress(name));
+    }
+  }
+}
+
+/** jquery.validate's unobtrusive adapters: the client-side attributes only, no custom validators. */
+export function validateInBrowser<T, C>(schema: ValidationSchema<T, C>, model: T): FieldErrorMap {
+  const collector = createErrorCollector();
+  schema.properties.forEach((property) => checkAttributes(collector, property, model, true));
+  return collector.errors;
+}
+
+/**
+ * Validator.TryValidateObject: every attribute first, then the class's own validators, which
+ * only run once the attributes pass.
+ */
+export function validateObject<T, C>(schema: ValidationSchema<T, C>, model: T, context: C): FieldErrorMap {
+  const collector = createErrorCollector();
+  schema.properties.forEach((property) => checkAttributes(collector, property, model, false));
+  if (collector.hasErrors()) return collector.errors;
+
+  for (const validator of schema.validators ?? []) {
+    const message = validator.validate(model, context);
+    if (message === null) continue;
+    if (validator.member) collector.add(validator.member, message);
+    else collector.addModelError(message);
+  }
+  return collector.errors;
+}
+
+/**
+ * The MVC stage: request validation rejects HTML in any posted value before model binding,
+ * then `ModelState.IsValid` runs the bound class's schema.
+ */
+export function validateRequest<T, C>(schema: ValidationSchema<T, C>, model: T, context: C): FieldErrorMap {
+  const posted = Object.fromEntries(schema.properties.map((property) => [property.name, property.value(model)]));
+  const dangerous = findDangerousInput(posted);
+  if (dangerous) return { "": [dangerous] };
+  return validateObject(schema, model, context);
+}
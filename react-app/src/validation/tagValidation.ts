@@ -0,0 +1,75 @@
+import type { TagRow } from "../data/tags";
+import type { FieldErrorMap } from "../services/successOrErrors";
+import { buildRuleRows } from "./referenceRules";
+import {
+  maxLength,
+  regularExpression,
+  required,
+  validateInBrowser,
+  validateObject,
+  validateRequest,
+  type ValidationSchema
+} from "./schema";
+
+/** Tag's attributes. The form binds to the data class, so this one schema serves every stage. */
+export const tagSchema: ValidationSchema<TagRow> = {
+  className: "Tag",
+  properties: [
+    { name: "Name", value: (tag) => tag.name, attributes: [maxLength(128), required()] },
+    {
+      name: "Slug",
+      value: (tag) => tag.slug,
+      attributes: [
+        maxLength(64),
+        required(),
+        // .NET's \w is Unicode-aware, so match letters, marks, digits and connectors rather than ASCII only.
+        regularExpression(/^[\p{L}\p{Mn}\p{Nd}\p{Pc}]*$/u, {
+          errorMessage: "The slug must not contain spaces or non-alphanumeric characters.",
+          description: "Must not contain spaces or non-alphanumeric characters",
+          clientSide: false
+        })
+      ]
+    }
+  ]
+};
+
+/** SampleWebAppDb.ValidateEntity's extra Tag rule, checked against the tags already saved. */
+export const tagSaveChangesSchema: ValidationSchema<TagRow, TagRow[]> = {
+  className: "SampleWebAppDb",
+  properties: [],
+  validators: [
+    {
+      member: "Slug",
+      description: "Must be unique, i.e. must not exist in any other tag entry in the database",
+      validate: (tag, tags) =>
+        tags.some((item) => item.tagId !== tag.tagId && item.slug === tag.slug)
+          ? `The Slug on tag '${tag.name}' must be unique and is already being used.`
+          : null
+    }
+  ]
+};
+
+export function validateTagInBrowser(tag: TagRow): FieldErrorMap {
+  return validateInBrowser(tagSchema, tag);
+}
+
+export function validateTagRequest(tag: TagRow): FieldErrorMap {
+  return validateRequest(tagSchema, tag, undefined);
+}
+
+export function validateTagEntity(tag: TagRow): FieldErrorMap {
+  return validateObject(tagSchema, tag, undefined);
+}
+
+export function validateTagSaveChanges(tag: TagRow, tags: TagRow[]): FieldErrorMap {
+  return validateObject(tagSaveChangesSchema, tag, tags);
+}
+
+export function tagValidationRules() {
+  return buildRuleRows([
+    { where: "Browser", schema: tagSchema },
+    { where: "MVC", schema: tagSchema },
+    { where: "EF", schema: tagSchema },
+    { where: "SaveChanges", schema: tagSaveChangesSchema }
+  ]);
+}
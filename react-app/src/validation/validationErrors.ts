@@ -0,0 +1,32 @@
+import type { FieldErrorMap } from "../services/successOrErrors";
+
+/** ModelState's key for errors that belong to the whole model rather than one property. */
+export const modelLevelKey = "";
+
+export function createErrorCollector() {
+  const errors: FieldErrorMap = {};
+
+  return {
+    errors,
+    add(field: string, message: string) {
+      errors[field] = errors[field] || [];
+      errors[field].push(message);
+    },
+    addModelError(message: string) {
+      errors[modelLevelKey] = errors[modelLevelKey] || [];
+      errors[modelLevelKey].push(message);
+    },
+    hasErrors() {
+      return hasErrors(errors);
+    }
+  };
+}
+
+/** What `@Html.ValidationSummary(true)` shows: only the errors not tied to a property. */
+export function modelLevelErrors(errors: FieldErrorMap) {
+  return errors[modelLevelKey] || [];
+}
+
+export function hasErrors(errors: FieldErrorMap) {
+  return Object.values(errors).some((items) => items.length > 0);
+}
@@ -0,0 +1,26 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_ASYNC_LATENCY_MS?: string;
+  /** Set to "localStorage" to keep the blogs data between page loads. */
+  readonly VITE_DATA_PERSISTENCE?: string;
+  /** "memory" (the default) or "http" to use the mock API. */
+  readonly VITE_DATA_SOURCE?: string;
+  /** Comma-separated screens to switch off, e.g. "blogs,postsAsync". */
+  readonly VITE_DISABLED_FEATURES?: string;
+  /** The footer's host label, e.g. "Azure" or "WebWiz". */
+  readonly VITE_HOST_TYPE?: string;
+  /** Where the CodeView pages link to for the legacy sources, e.g. a fork's GitHub blob URL. */
+  readonly VITE_SOURCE_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+/** An excerpt of a legacy source file, cut out and highlighted at build time by sourceExcerptsPlugin. */
+declare module "legacy-source:*" {
+  const excerpt: import("./lib/sourceExcerpt").SourceExcerpt;
+  export default excerpt;
+}
@@ -1,6 +1,9 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { sourceExcerptsPlugin } from "./src/lib/sourceExcerptsPlugin";
+import { mockApiPlugin } from "./src/mock-api/mockApiPlugin";
 
 export default defineConfig({
-  plugins: [react()]
+  plugins: [react(), mockApiPlugin(), sourceExcerptsPlugin(fileURLToPath(new URL("../legacy-src/SampleMvcWebApp", import.meta.url)))]
 });